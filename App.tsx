@@ -1,59 +1,280 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { FieldView } from './components/FieldView';
 import { DataView } from './components/DataView';
 import { ChatPanel } from './components/ChatPanel';
-import { Role, CapturedItem, ChatMessage, ProjectGoal } from './types';
+import { Role, AnalysisRecord, AngleChecklist, AssetRegistry, CapturedItem, ChatMessage, DatasetSnapshot, DefectTaxonomy, ProjectGoal } from './types';
+import {
+  deleteCapture, deleteGoal, loadAssetRegistry, loadCaptures, loadChecklists, loadGoals, loadMessages, loadSnapshots,
+  saveAssetRegistry, saveCapture, saveChecklists, saveGoals, saveMessage, saveSnapshot,
+} from './services/storageService';
+import { retryCapture, startSyncQueue } from './services/syncQueue';
+import { evaluateGoals } from './services/goalService';
+import { applyCaptureToChecklist, checklistKey } from './services/checklistService';
+import { DEFAULT_ASSET_REGISTRY } from './services/assetService';
+import { getCountableItems, hashImageUrl } from './services/duplicateService';
+import { createSnapshot, materializeSnapshot } from './services/snapshotService';
+import { isGalleryLink } from './services/galleryFilterService';
+import { appendAnalysisRecord } from './services/analysisHistoryService';
+import { loadDefectTaxonomy, normalizeItemLabels, saveDefectTaxonomy } from './services/taxonomyService';
 import { SwitchCamera, Database } from 'lucide-react';
 
+// Seed data written to IndexedDB the first time the app runs on a device
+const DEFAULT_GOALS: ProjectGoal[] = [
+    { 
+        id: 'g1', 
+        title: 'Belt Wear Analysis', 
+        targetCount: 50, 
+        deadline: '2025-04-10', 
+        createdAt: '2025-03-01',
+        description: 'Collect diversified samples of belt fraying at >30% wear.',
+        criteria: { defectTypes: ['Belt Wear', 'Fraying'], components: ['Belt'] },
+        priority: 'normal',
+        state: 'open',
+        assignees: [],
+        sites: []
+    },
+    { 
+        id: 'g2', 
+        title: 'Motor Mounting Rust', 
+        targetCount: 20, 
+        deadline: '2025-04-05', 
+        createdAt: '2025-03-01',
+        description: 'High priority: Identifying corrosion on Unit A-4 mounts.',
+        criteria: { defectTypes: ['Rust', 'Surface Corrosion'], components: ['Motor Mount'], minSeverity: 'Medium' },
+        priority: 'high',
+        state: 'open',
+        assignees: [],
+        sites: []
+    }
+];
+
+const WELCOME_MESSAGE: ChatMessage = {
+    id: '1', sender: 'ai', role: 'System', text: 'FactoryBridge Central Online. How can I assist with the inspection today?', timestamp: Date.now()
+};
+
 const App: React.FC = () => {
-  const [currentRole, setCurrentRole] = useState<Role>(Role.FIELD_ENGINEER);
-  // Shared state acting as the database for this demo
+  // Shared gallery links open the data view directly
+  const [currentRole, setCurrentRole] = useState<Role>(() => isGalleryLink(window.location.search) ? Role.DATA_SCIENTIST : Role.FIELD_ENGINEER);
+  // Shared state, hydrated from and written through to IndexedDB
+  const [isHydrated, setIsHydrated] = useState(false);
   const [capturedItems, setCapturedItems] = useState<CapturedItem[]>([]);
+  // Mirrors capturedItems synchronously so the sync worker never reads a stale list
+  const itemsRef = useRef<CapturedItem[]>([]);
   
   // Chat State
   const [isChatOpen, setIsChatOpen] = useState(false);
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    { id: '1', sender: 'ai', role: 'System', text: 'FactoryBridge Central Online. How can I assist with the inspection today?', timestamp: Date.now() }
-  ]);
-
-  // Goal State (Simulated Database)
-  const [goals, setGoals] = useState<ProjectGoal[]>([
-      { 
-          id: 'g1', 
-          title: 'Belt Wear Analysis', 
-          targetCount: 50, 
-          currentCount: 12, 
-          deadline: '2025-04-10', 
-          status: 'active',
-          description: 'Collect diversified samples of belt fraying at >30% wear.' 
-      },
-      { 
-          id: 'g2', 
-          title: 'Motor Mounting Rust', 
-          targetCount: 20, 
-          currentCount: 18, 
-          deadline: '2025-04-05', 
-          status: 'at-risk',
-          description: 'High priority: Identifying corrosion on Unit A-4 mounts.' 
+  const [messages, setMessages] = useState<ChatMessage[]>([WELCOME_MESSAGE]);
+
+  // Goal State
+  const [goals, setGoals] = useState<ProjectGoal[]>(DEFAULT_GOALS);
+
+  // Missing-angle checklists, keyed by machine and component
+  const [checklists, setChecklists] = useState<Record<string, AngleChecklist>>({});
+
+  // Sites, lines, machines and components available as capture context
+  const [assetRegistry, setAssetRegistry] = useState<AssetRegistry>(DEFAULT_ASSET_REGISTRY);
+
+  // Immutable dataset versions, oldest first
+  const [snapshots, setSnapshots] = useState<DatasetSnapshot[]>([]);
+
+  // Controlled defect vocabulary; item labels are kept normalized against it
+  const [defectTaxonomy, setDefectTaxonomy] = useState<DefectTaxonomy>(loadDefectTaxonomy);
+
+  // Restore the previous session on load
+  useEffect(() => {
+    const hydrate = async () => {
+      try {
+        const [storedItems, storedGoals, storedMessages, storedChecklists, storedRegistry, storedSnapshots] = await Promise.all([
+          loadCaptures(), loadGoals(), loadMessages(), loadChecklists(), loadAssetRegistry(), loadSnapshots(),
+        ]);
+        // Merge rather than replace so nothing captured while loading is lost
+        commitItems(prev => [...storedItems, ...prev.filter(p => !storedItems.some(s => s.id === p.id))]);
+        normalizeLabels(defectTaxonomy);
+        if (storedGoals.length > 0) setGoals(storedGoals);
+        setChecklists(prev => ({ ...Object.fromEntries(storedChecklists.map(c => [c.id, c])), ...prev }));
+        if (storedRegistry) setAssetRegistry(storedRegistry);
+        setSnapshots(storedSnapshots);
+        if (storedMessages.length > 0) {
+          setMessages(storedMessages);
+        } else {
+          await saveMessage(WELCOME_MESSAGE);
+        }
+      } catch (error) {
+        console.error("Failed to load persisted state", error);
+      } finally {
+        setIsHydrated(true);
       }
-  ]);
+    };
+    hydrate();
+  }, []);
+
+  // Goals are small and updated in place, so persist the whole set on change
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveGoals(goals).catch(error => console.error("Failed to persist goals", error));
+  }, [goals, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    saveChecklists(Object.values(checklists)).catch(error => console.error("Failed to persist checklists", error));
+  }, [checklists, isHydrated]);
+
+  // Analyze queued captures in the background once hydrated
+  useEffect(() => {
+    if (!isHydrated) return;
+    return startSyncQueue({
+      getItems: () => itemsRef.current,
+      // Saved taxonomies are written through to storage, so this is always the current one
+      getTaxonomy: loadDefectTaxonomy,
+      onUpdate: handleUpdateCapture,
+    });
+  }, [isHydrated]);
+
+  const commitItems = (update: (prev: CapturedItem[]) => CapturedItem[]) => {
+    itemsRef.current = update(itemsRef.current);
+    setCapturedItems(itemsRef.current);
+  };
+
+  // Rewrites synonyms to their class names and persists only the items that changed
+  const normalizeLabels = (taxonomy: DefectTaxonomy) => {
+    const changed = itemsRef.current
+      .map(item => normalizeItemLabels(taxonomy, item))
+      .filter((item, i) => item !== itemsRef.current[i]);
+    if (changed.length === 0) return;
+    const byId = new Map(changed.map(item => [item.id, item]));
+    commitItems(prev => prev.map(i => byId.get(i.id) ?? i));
+    changed.forEach(item => saveCapture(item).catch(error => console.error("Failed to persist normalized labels", error)));
+  };
+
+  // Perceptual hashes for items saved without one (uploads, imports, sessions, older captures), one at a time
+  const hashingRef = useRef(false);
+  const unhashableRef = useRef(new Set<string>());
+  const [hashTick, setHashTick] = useState(0);
+  useEffect(() => {
+    if (!isHydrated || hashingRef.current) return;
+    const next = capturedItems.find(i => !i.phash && !unhashableRef.current.has(i.id));
+    if (!next) return;
+    hashingRef.current = true;
+    hashImageUrl(next.imageUrl)
+      .then(phash => {
+        const latest = itemsRef.current.find(i => i.id === next.id);
+        if (latest) handleUpdateCapture({ ...latest, phash });
+      })
+      .catch(error => {
+        unhashableRef.current.add(next.id);
+        console.error("Failed to hash capture", error);
+      })
+      .finally(() => {
+        hashingRef.current = false;
+        setHashTick(t => t + 1);
+      });
+  }, [capturedItems, isHydrated, hashTick]);
+
+  // Progress is recomputed from the dataset, so reviews, relabels and deletions are reflected too.
+  // Near-duplicate clusters count once.
+  const goalProgress = useMemo(
+    () => evaluateGoals(goals, getCountableItems(capturedItems), defectTaxonomy),
+    [goals, capturedItems, defectTaxonomy],
+  );
 
   const toggleRole = () => {
     setCurrentRole(prev => prev === Role.FIELD_ENGINEER ? Role.DATA_SCIENTIST : Role.FIELD_ENGINEER);
   };
 
+  const updateChecklist = (item: CapturedItem) => {
+    setChecklists(prev => {
+      const updated = applyCaptureToChecklist(prev[checklistKey(item.metadata)], item);
+      return updated ? { ...prev, [updated.id]: updated } : prev;
+    });
+  };
+
   const handleNewCapture = (item: CapturedItem) => {
-    setCapturedItems(prev => [...prev, item]);
-    // Auto-increment goals for demo purposes if matches
-    if (item.analysis?.defectType.toLowerCase().includes('rust')) {
-        setGoals(prev => prev.map(g => g.id === 'g2' ? {...g, currentCount: g.currentCount + 1} : g));
-    } else {
-        setGoals(prev => prev.map(g => g.id === 'g1' ? {...g, currentCount: g.currentCount + 1} : g));
-    }
+    commitItems(prev => [...prev, item]);
+    saveCapture(item).catch(error => console.error("Failed to persist capture", error));
+    updateChecklist(item);
+  };
+
+  const handleUpdateCapture = (item: CapturedItem) => {
+    const previous = itemsRef.current.find(i => i.id === item.id);
+    // Late results for deleted captures must not bring them back
+    if (!previous) return;
+    commitItems(prev => prev.map(i => i.id === item.id ? item : i));
+    saveCapture(item).catch(error => console.error("Failed to persist capture", error));
+    // Deferred analyses can still request more angles once they land
+    if (!previous.analysis && item.analysis) updateChecklist(item);
+  };
+
+  // Runs can finish after the item was edited elsewhere, so they are added to its latest copy
+  const handleAppendAnalysisRecord = (id: string, record: AnalysisRecord) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (item) handleUpdateCapture(appendAnalysisRecord(item, record));
+  };
+
+  const handleUpdateChecklist = (checklist: AngleChecklist) => {
+    setChecklists(prev => ({ ...prev, [checklist.id]: checklist }));
+  };
+
+  const handleImportCaptures = (imported: CapturedItem[]) => {
+    const items = imported.map(item => normalizeItemLabels(defectTaxonomy, item));
+    commitItems(prev => [...prev, ...items].sort((a, b) => a.timestamp - b.timestamp));
+    items.forEach(item => {
+      saveCapture(item).catch(error => console.error("Failed to persist imported capture", error));
+    });
+  };
+
+  const handleDeleteCaptures = (ids: string[]) => {
+    commitItems(prev => prev.filter(i => !ids.includes(i.id)));
+    ids.forEach(id => {
+      deleteCapture(id).catch(error => console.error("Failed to delete capture", error));
+    });
+  };
+
+  const handleCreateSnapshot = async (name: string, notes?: string): Promise<DatasetSnapshot> => {
+    const { snapshot, images } = await createSnapshot(name, itemsRef.current, notes);
+    await saveSnapshot(snapshot, images);
+    setSnapshots(prev => [...prev, snapshot]);
+    return snapshot;
+  };
+
+  // Restoring replaces the working set, so its current state is versioned first and nothing is lost
+  const handleRestoreSnapshot = async (snapshot: DatasetSnapshot) => {
+    await handleCreateSnapshot(`Before restoring ${snapshot.name}`, `Saved automatically on ${new Date().toLocaleString()}`);
+    const restored = await materializeSnapshot(snapshot, itemsRef.current);
+    const restoredIds = new Set(restored.map(i => i.id));
+    handleDeleteCaptures(itemsRef.current.filter(i => !restoredIds.has(i.id)).map(i => i.id));
+    commitItems(() => restored);
+    await Promise.all(restored.map(saveCapture));
+  };
+
+  const handleRetrySync = (id: string) => {
+    const item = itemsRef.current.find(i => i.id === id);
+    if (item) handleUpdateCapture(retryCapture(item));
+  };
+
+  const handleSaveGoal = (goal: ProjectGoal) => {
+    setGoals(prev => prev.some(g => g.id === goal.id) ? prev.map(g => g.id === goal.id ? goal : g) : [...prev, goal]);
+  };
+
+  const handleDeleteGoal = (id: string) => {
+    setGoals(prev => prev.filter(g => g.id !== id));
+    deleteGoal(id).catch(error => console.error("Failed to delete goal", error));
+  };
+
+  const handleSaveAssetRegistry = (registry: AssetRegistry) => {
+    setAssetRegistry(registry);
+    saveAssetRegistry(registry).catch(error => console.error("Failed to persist asset registry", error));
+  };
+
+  // New classes and synonyms (e.g. from triage) apply to the labels already in the dataset
+  const handleSaveDefectTaxonomy = (taxonomy: DefectTaxonomy) => {
+    setDefectTaxonomy(taxonomy);
+    saveDefectTaxonomy(taxonomy);
+    normalizeLabels(taxonomy);
   };
 
   const handleSendMessage = (msg: ChatMessage) => {
     setMessages(prev => [...prev, msg]);
+    saveMessage(msg).catch(error => console.error("Failed to persist message", error));
   };
 
   return (
@@ -84,12 +305,35 @@ const App: React.FC = () => {
           <FieldView 
             onCapture={handleNewCapture} 
             onOpenChat={() => setIsChatOpen(true)}
+            items={capturedItems}
+            syncItems={capturedItems.filter(i => i.sync)}
+            onRetrySync={handleRetrySync}
+            goals={goals}
+            goalProgress={goalProgress}
+            checklists={checklists}
+            onUpdateChecklist={handleUpdateChecklist}
+            assetRegistry={assetRegistry}
+            defectTaxonomy={defectTaxonomy}
           />
         ) : (
           <DataView 
             items={capturedItems} 
             goals={goals}
+            goalProgress={goalProgress}
             onOpenChat={() => setIsChatOpen(true)}
+            onUpdateItem={handleUpdateCapture}
+            onAppendAnalysisRecord={handleAppendAnalysisRecord}
+            onDeleteItems={handleDeleteCaptures}
+            onImportItems={handleImportCaptures}
+            onSaveGoal={handleSaveGoal}
+            onDeleteGoal={handleDeleteGoal}
+            assetRegistry={assetRegistry}
+            onSaveAssetRegistry={handleSaveAssetRegistry}
+            defectTaxonomy={defectTaxonomy}
+            onSaveDefectTaxonomy={handleSaveDefectTaxonomy}
+            snapshots={snapshots}
+            onCreateSnapshot={handleCreateSnapshot}
+            onRestoreSnapshot={handleRestoreSnapshot}
           />
         )}
       </div>
@@ -0,0 +1,324 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { X, Save, MousePointer2, Square, Pentagon, Trash2 } from 'lucide-react';
+import { AnnotationRegion, CapturedItem, RegionPoint } from '../types';
+import {
+  createBoxRegion, createPolygonRegion, getBoxCorners, getRegionBounds, moveRegion, moveVertex,
+  regionContainsPoint, resizeBox, MIN_REGION_SIZE,
+} from '../services/annotationService';
+
+type Tool = 'select' | 'box' | 'polygon';
+
+// Pointer interaction in progress on the canvas
+type DragState =
+  | { mode: 'move'; regionId: string; start: RegionPoint; original: AnnotationRegion }
+  | { mode: 'corner'; regionId: string; corner: number }
+  | { mode: 'vertex'; regionId: string; vertex: number }
+  | { mode: 'draw-box'; start: RegionPoint; current: RegionPoint };
+
+const HANDLE_RADIUS_PX = 8;
+const MAX_CANVAS_WIDTH = 1280;
+
+interface AnnotationEditorProps {
+  item: CapturedItem;
+  knownLabels: string[];
+  onClose: () => void;
+  onSave: (regions: AnnotationRegion[]) => void;
+}
+
+export const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ item, knownLabels, onClose, onSave }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [isImageLoaded, setIsImageLoaded] = useState(false);
+  const [regions, setRegions] = useState<AnnotationRegion[]>(item.regions ?? item.analysis?.suggestedRegions ?? []);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [tool, setTool] = useState<Tool>('select');
+  const [draftPolygon, setDraftPolygon] = useState<RegionPoint[]>([]);
+  const [drawBox, setDrawBox] = useState<{ start: RegionPoint; current: RegionPoint } | null>(null);
+  const [defaultLabel, setDefaultLabel] = useState(item.analysis?.defectType && item.analysis.defectType !== 'None' ? item.analysis.defectType : 'Defect');
+
+  // Load the source image once; the canvas is redrawn from it on every change
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      imageRef.current = img;
+      const canvas = canvasRef.current;
+      if (canvas) {
+        const scale = Math.min(1, MAX_CANVAS_WIDTH / img.naturalWidth);
+        canvas.width = Math.round(img.naturalWidth * scale);
+        canvas.height = Math.round(img.naturalHeight * scale);
+      }
+      setIsImageLoaded(true);
+    };
+    img.src = item.imageUrl;
+  }, [item.imageUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !imageRef.current) return;
+    const { width: w, height: h } = canvas;
+    const handleSize = HANDLE_RADIUS_PX * (w / canvas.getBoundingClientRect().width || 1);
+
+    ctx.clearRect(0, 0, w, h);
+    ctx.drawImage(imageRef.current, 0, 0, w, h);
+    ctx.lineWidth = Math.max(2, w / 400);
+    ctx.font = `bold ${Math.max(12, w / 70)}px monospace`;
+
+    regions.forEach(region => {
+      const isSelected = region.id === selectedId;
+      const color = isSelected ? '#22d3ee' : region.source === 'ai' ? '#fb923c' : '#4ade80';
+      ctx.strokeStyle = color;
+      ctx.fillStyle = `${color}33`;
+      ctx.setLineDash(region.source === 'ai' && !isSelected ? [8, 6] : []);
+
+      const outline = region.kind === 'box' ? getBoxCorners(region) : region.points;
+      ctx.beginPath();
+      outline.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * w, p.y * h) : ctx.lineTo(p.x * w, p.y * h));
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+
+      const bounds = getRegionBounds(region);
+      ctx.fillStyle = color;
+      ctx.fillText(region.label, bounds.x * w + 4, Math.max(14, bounds.y * h - 6));
+
+      if (isSelected) {
+        ctx.setLineDash([]);
+        outline.forEach(p => {
+          ctx.fillStyle = '#0f172a';
+          ctx.fillRect(p.x * w - handleSize / 2, p.y * h - handleSize / 2, handleSize, handleSize);
+          ctx.strokeRect(p.x * w - handleSize / 2, p.y * h - handleSize / 2, handleSize, handleSize);
+        });
+      }
+    });
+
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = '#22d3ee';
+    if (drawBox) {
+      const { start: a, current: b } = drawBox;
+      ctx.strokeRect(a.x * w, a.y * h, (b.x - a.x) * w, (b.y - a.y) * h);
+    }
+    if (draftPolygon.length > 0) {
+      ctx.beginPath();
+      draftPolygon.forEach((p, i) => i === 0 ? ctx.moveTo(p.x * w, p.y * h) : ctx.lineTo(p.x * w, p.y * h));
+      ctx.stroke();
+      draftPolygon.forEach(p => {
+        ctx.fillStyle = '#22d3ee';
+        ctx.fillRect(p.x * w - 3, p.y * h - 3, 6, 6);
+      });
+    }
+    ctx.setLineDash([]);
+  }, [regions, selectedId, drawBox, draftPolygon, isImageLoaded]);
+
+  const toPoint = (e: React.PointerEvent | React.MouseEvent): RegionPoint => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  // Distance check in screen pixels so handles stay grabbable at any zoom
+  const isNear = (a: RegionPoint, b: RegionPoint): boolean => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return Math.hypot((a.x - b.x) * rect.width, (a.y - b.y) * rect.height) <= HANDLE_RADIUS_PX;
+  };
+
+  const updateRegion = (updated: AnnotationRegion) => {
+    setRegions(prev => prev.map(r => r.id === updated.id ? updated : r));
+  };
+
+  const finishPolygon = (points: RegionPoint[]) => {
+    if (points.length >= 3) {
+      const polygon = createPolygonRegion(defaultLabel, points);
+      setRegions(prev => [...prev, polygon]);
+      setSelectedId(polygon.id);
+      setTool('select');
+    }
+    setDraftPolygon([]);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const p = toPoint(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    if (tool === 'box') {
+      dragRef.current = { mode: 'draw-box', start: p, current: p };
+      setDrawBox({ start: p, current: p });
+      return;
+    }
+
+    if (tool === 'polygon') {
+      if (draftPolygon.length >= 3 && isNear(p, draftPolygon[0])) {
+        finishPolygon(draftPolygon);
+      } else {
+        setDraftPolygon(prev => [...prev, p]);
+      }
+      return;
+    }
+
+    // Handles of the selected region take priority over selecting another region
+    const selected = regions.find(r => r.id === selectedId);
+    if (selected) {
+      const handles = selected.kind === 'box' ? getBoxCorners(selected) : selected.points;
+      const index = handles.findIndex(h => isNear(h, p));
+      if (index >= 0) {
+        dragRef.current = selected.kind === 'box'
+          ? { mode: 'corner', regionId: selected.id, corner: index }
+          : { mode: 'vertex', regionId: selected.id, vertex: index };
+        return;
+      }
+    }
+
+    const hit = [...regions].reverse().find(r => regionContainsPoint(r, p));
+    setSelectedId(hit?.id ?? null);
+    if (hit) dragRef.current = { mode: 'move', regionId: hit.id, start: p, original: hit };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toPoint(e);
+
+    if (drag.mode === 'draw-box') {
+      dragRef.current = { ...drag, current: p };
+      setDrawBox({ start: drag.start, current: p });
+      return;
+    }
+
+    const region = regions.find(r => r.id === drag.regionId);
+    if (!region) return;
+    if (drag.mode === 'move') {
+      updateRegion(moveRegion(drag.original, p.x - drag.start.x, p.y - drag.start.y));
+    } else if (drag.mode === 'corner' && region.kind === 'box') {
+      updateRegion(resizeBox(region, drag.corner, p));
+    } else if (drag.mode === 'vertex' && region.kind === 'polygon') {
+      updateRegion(moveVertex(region, drag.vertex, p));
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode !== 'draw-box') return;
+
+    setDrawBox(null);
+    const box = createBoxRegion(defaultLabel, drag.start, drag.current);
+    if (box.width >= MIN_REGION_SIZE && box.height >= MIN_REGION_SIZE) {
+      setRegions(prev => [...prev, box]);
+      setSelectedId(box.id);
+      setTool('select');
+    }
+  };
+
+  const handleDelete = (id: string) => {
+    setRegions(prev => prev.filter(r => r.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) handleDelete(selectedId);
+      if (e.key === 'Enter' && draftPolygon.length > 0) finishPolygon(draftPolygon);
+      if (e.key === 'Escape') {
+        setDraftPolygon([]);
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedId, draftPolygon, defaultLabel]);
+
+  const tools: { id: Tool; label: string; icon: React.ReactNode }[] = [
+    { id: 'select', label: 'Select / Move', icon: <MousePointer2 className="w-4 h-4" /> },
+    { id: 'box', label: 'Box', icon: <Square className="w-4 h-4" /> },
+    { id: 'polygon', label: 'Polygon', icon: <Pentagon className="w-4 h-4" /> },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/90 backdrop-blur flex flex-col">
+      <div className="h-14 bg-slate-900 border-b border-slate-800 flex items-center justify-between px-4 shrink-0">
+        <div className="flex items-center gap-2">
+          {tools.map(t => (
+            <button
+              key={t.id}
+              onClick={() => { setTool(t.id); setDraftPolygon([]); }}
+              className={`px-3 py-1.5 rounded-md text-xs font-bold flex items-center gap-2 border transition ${tool === t.id ? 'bg-cyan-900/40 border-cyan-500 text-cyan-300' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              {t.icon} {t.label}
+            </button>
+          ))}
+          <label className="ml-4 text-[10px] text-slate-500 font-mono uppercase flex items-center gap-2">
+            New label
+            <input
+              list="annotation-labels"
+              value={defaultLabel}
+              onChange={(e) => setDefaultLabel(e.target.value)}
+              className="bg-slate-800 border border-slate-600 text-white rounded px-2 py-1 text-xs normal-case focus:outline-none focus:border-cyan-500"
+            />
+          </label>
+          <datalist id="annotation-labels">
+            {knownLabels.map(l => <option key={l} value={l} />)}
+          </datalist>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-md text-xs text-slate-300 border border-slate-700 hover:bg-slate-800 flex items-center gap-2">
+            <X className="w-4 h-4" /> Cancel
+          </button>
+          <button onClick={() => onSave(regions)} className="px-3 py-1.5 rounded-md text-xs font-bold bg-cyan-600 hover:bg-cyan-500 text-white flex items-center gap-2">
+            <Save className="w-4 h-4" /> Save Regions
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        <div className="flex-1 flex items-center justify-center p-6 min-w-0">
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onDoubleClick={() => tool === 'polygon' && finishPolygon(draftPolygon)}
+            className={`max-w-full max-h-full border border-slate-700 rounded touch-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+          />
+        </div>
+
+        <div className="w-72 bg-slate-900 border-l border-slate-800 flex flex-col">
+          <div className="p-3 border-b border-slate-800">
+            <h3 className="font-bold text-white text-sm">Regions ({regions.length})</h3>
+            <p className="text-[10px] text-slate-500 mt-1">
+              {tool === 'polygon' ? 'Click to add points. Double-click, Enter or click the first point to close.' : 'Drag to move. Drag handles to resize. Delete removes the selection.'}
+            </p>
+          </div>
+          <div className="flex-1 overflow-y-auto p-3 space-y-2">
+            {regions.length === 0 && <p className="text-xs text-slate-500 text-center py-8">No regions yet. Draw a box or polygon over each defect.</p>}
+            {regions.map(region => (
+              <div
+                key={region.id}
+                onClick={() => setSelectedId(region.id)}
+                className={`p-2 rounded border cursor-pointer ${region.id === selectedId ? 'border-cyan-500 bg-cyan-950/30' : 'border-slate-800 bg-black/30 hover:border-slate-600'}`}
+              >
+                <div className="flex items-center gap-2">
+                  <input
+                    list="annotation-labels"
+                    value={region.label}
+                    onChange={(e) => updateRegion({ ...region, label: e.target.value, source: 'human' })}
+                    className="flex-1 min-w-0 bg-slate-800 border border-slate-700 text-white rounded px-2 py-1 text-xs focus:outline-none focus:border-cyan-500"
+                  />
+                  <button onClick={(e) => { e.stopPropagation(); handleDelete(region.id); }} className="text-slate-500 hover:text-red-400">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <p className="text-[10px] font-mono text-slate-500 mt-1 uppercase">
+                  {region.kind} • {region.source === 'ai' ? 'AI suggested' : 'Reviewer'}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { X, Save, Network, Plus, Trash2, FileUp, Download, QrCode } from 'lucide-react';
+import { AssetRegistry, CoverageZone } from '../types';
+import { COVERAGE_ZONES, parseRegistryCsv, parseRegistryJson } from '../services/assetService';
+import { downloadBlob } from '../services/zipService';
+
+interface AssetRegistryEditorProps {
+  registry: AssetRegistry;
+  onClose: () => void;
+  onSave: (registry: AssetRegistry) => void;
+}
+
+// Comma-separated tag list that only commits on blur, so typing a separator isn't swallowed
+const TagsInput: React.FC<{ tags: string[] | undefined; onChange: (tags: string[]) => void; className: string }> = ({ tags, onChange, className }) => {
+  const [text, setText] = useState((tags ?? []).join(', '));
+  useEffect(() => setText((tags ?? []).join(', ')), [(tags ?? []).join('|')]);
+  return (
+    <div className="relative">
+      <QrCode className="w-3 h-3 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+      <input
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={() => onChange(text.split(',').map(t => t.trim()).filter(Boolean))}
+        placeholder="Tag IDs"
+        className={`${className} pl-6`}
+      />
+    </div>
+  );
+};
+
+const validateRegistry = (registry: AssetRegistry): string | null => {
+  const machineIds = new Set<string>();
+  const tagIds = new Set<string>();
+  for (const site of registry.sites) {
+    if (!site.name.trim()) return 'Every site needs a name';
+    for (const area of site.areas) {
+      if (!area.name.trim()) return `Every line or hangar in ${site.name} needs a name`;
+      for (const machine of area.machines) {
+        if (!machine.id.trim()) return `Every machine in ${area.name} needs an ID`;
+        if (machineIds.has(machine.id)) return `Machine ID ${machine.id} is used more than once`;
+        machineIds.add(machine.id);
+        if (machine.components.some(c => !c.name.trim())) return `Every component on ${machine.id} needs a name`;
+        const tags = [...(machine.tags ?? []), ...machine.components.flatMap(c => c.tags ?? [])].map(t => t.toLowerCase());
+        for (const tag of tags) {
+          if (tagIds.has(tag)) return `Tag ${tag} is assigned more than once`;
+          tagIds.add(tag);
+        }
+      }
+    }
+  }
+  return null;
+};
+
+export const AssetRegistryEditor: React.FC<AssetRegistryEditorProps> = ({ registry, onClose, onSave }) => {
+  const [draft, setDraft] = useState(registry);
+  const [error, setError] = useState<string | null>(null);
+
+  // The tree is small, so edits clone it and mutate the copy by index
+  const edit = (change: (next: AssetRegistry) => void) => {
+    setDraft(prev => {
+      const next = structuredClone(prev);
+      change(next);
+      return next;
+    });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await file.text();
+      setDraft(file.name.toLowerCase().endsWith('.csv') ? parseRegistryCsv(text) : parseRegistryJson(text));
+      setError(null);
+    } catch (err) {
+      console.error("Asset registry load failed", err);
+      setError(err instanceof Error ? err.message : 'Could not read the registry file');
+    }
+  };
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([JSON.stringify({ sites: draft.sites }, null, 2)], { type: 'application/json' }), 'asset-registry.json');
+  };
+
+  const handleSave = () => {
+    const problem = validateRegistry(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave({ ...draft, updatedAt: Date.now() });
+  };
+
+  const inputClass = "bg-slate-800 border border-slate-600 text-white rounded px-2 py-1 text-xs focus:outline-none focus:border-cyan-500";
+  const removeButton = (onClick: () => void, title: string) => (
+    <button onClick={onClick} className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800 shrink-0" title={title}>
+      <Trash2 className="w-3 h-3" />
+    </button>
+  );
+  const addButton = (onClick: () => void, label: string) => (
+    <button onClick={onClick} className="text-[10px] text-cyan-400 hover:text-cyan-300 flex items-center gap-1 font-bold uppercase tracking-wider">
+      <Plus className="w-3 h-3" /> {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Network className="w-5 h-5 text-cyan-400" />
+            Asset Registry
+          </h3>
+          <div className="flex items-center gap-2">
+            <label className="text-xs px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 cursor-pointer flex items-center gap-1">
+              <FileUp className="w-3 h-3" /> Load JSON / CSV
+              <input type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+            </label>
+            <button onClick={handleDownload} className="text-xs px-3 py-1.5 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 flex items-center gap-1">
+              <Download className="w-3 h-3" /> JSON
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white ml-2">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {draft.sites.length === 0 && <p className="text-sm text-slate-500 text-center py-6">No sites registered. Load a file or add a site.</p>}
+          {draft.sites.map((site, si) => (
+            <div key={site.id} className="border border-slate-700 rounded-lg p-3 space-y-3 bg-black/20">
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-bold uppercase text-slate-500 w-16">Site</span>
+                <input value={site.name} onChange={(e) => edit(d => { d.sites[si].name = e.target.value; })} className={`${inputClass} flex-1`} />
+                {removeButton(() => edit(d => { d.sites.splice(si, 1); }), 'Remove site')}
+              </div>
+
+              {site.areas.map((area, ai) => (
+                <div key={area.id} className="ml-4 border-l border-slate-700 pl-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={area.kind}
+                      onChange={(e) => edit(d => { d.sites[si].areas[ai].kind = e.target.value as 'line' | 'hangar'; })}
+                      className={`${inputClass} w-20`}
+                    >
+                      <option value="hangar">Hangar</option>
+                      <option value="line">Line</option>
+                    </select>
+                    <input value={area.name} onChange={(e) => edit(d => { d.sites[si].areas[ai].name = e.target.value; })} className={`${inputClass} flex-1`} />
+                    {removeButton(() => edit(d => { d.sites[si].areas.splice(ai, 1); }), 'Remove line / hangar')}
+                  </div>
+
+                  {area.machines.map((machine, mi) => (
+                    // Machine IDs are editable, so they can't double as React keys
+                    <div key={mi} className="ml-4 border-l border-slate-800 pl-3 space-y-1.5">
+                      <div className="flex items-center gap-2">
+                        <input
+                          value={machine.id}
+                          onChange={(e) => edit(d => { d.sites[si].areas[ai].machines[mi].id = e.target.value; })}
+                          placeholder="Machine ID"
+                          className={`${inputClass} w-32 font-mono`}
+                        />
+                        <input
+                          value={machine.name}
+                          onChange={(e) => edit(d => { d.sites[si].areas[ai].machines[mi].name = e.target.value; })}
+                          placeholder="Machine name"
+                          className={`${inputClass} flex-1`}
+                        />
+                        <TagsInput
+                          tags={machine.tags}
+                          onChange={(tags) => edit(d => { d.sites[si].areas[ai].machines[mi].tags = tags; })}
+                          className={`${inputClass} w-32`}
+                        />
+                        {removeButton(() => edit(d => { d.sites[si].areas[ai].machines.splice(mi, 1); }), 'Remove machine')}
+                      </div>
+
+                      {machine.components.map((component, ci) => (
+                        <div key={component.id} className="ml-4 flex items-center gap-2">
+                          <input
+                            value={component.name}
+                            onChange={(e) => edit(d => { d.sites[si].areas[ai].machines[mi].components[ci].name = e.target.value; })}
+                            placeholder="Component"
+                            className={`${inputClass} flex-1`}
+                          />
+                          <select
+                            value={component.zone ?? ''}
+                            onChange={(e) => edit(d => { d.sites[si].areas[ai].machines[mi].components[ci].zone = (e.target.value || undefined) as CoverageZone | undefined; })}
+                            className={`${inputClass} w-24`}
+                            title="Digital twin zone"
+                          >
+                            <option value="">No zone</option>
+                            {COVERAGE_ZONES.map(zone => <option key={zone}>{zone}</option>)}
+                          </select>
+                          <input
+                            value={component.description ?? ''}
+                            onChange={(e) => edit(d => { d.sites[si].areas[ai].machines[mi].components[ci].description = e.target.value || undefined; })}
+                            placeholder="Notes for the AI"
+                            className={`${inputClass} flex-1`}
+                          />
+                          <TagsInput
+                            tags={component.tags}
+                            onChange={(tags) => edit(d => { d.sites[si].areas[ai].machines[mi].components[ci].tags = tags; })}
+                            className={`${inputClass} w-28`}
+                          />
+                          {removeButton(() => edit(d => { d.sites[si].areas[ai].machines[mi].components.splice(ci, 1); }), 'Remove component')}
+                        </div>
+                      ))}
+                      <div className="ml-4">
+                        {addButton(() => edit(d => { d.sites[si].areas[ai].machines[mi].components.push({ id: crypto.randomUUID(), name: '' }); }), 'Component')}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="ml-4">
+                    {addButton(() => edit(d => { d.sites[si].areas[ai].machines.push({ id: '', name: '', components: [] }); }), 'Machine')}
+                  </div>
+                </div>
+              ))}
+              <div className="ml-4">
+                {addButton(() => edit(d => { d.sites[si].areas.push({ id: crypto.randomUUID(), name: '', kind: 'hangar', machines: [] }); }), 'Line / Hangar')}
+              </div>
+            </div>
+          ))}
+          {addButton(() => edit(d => { d.sites.push({ id: crypto.randomUUID(), name: '', areas: [] }); }), 'Site')}
+          {error && <p className="text-xs text-red-400 bg-red-950/30 border border-red-800 rounded p-2">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-800">
+          <button
+            onClick={handleSave}
+            className="w-full py-3 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            Save Registry
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
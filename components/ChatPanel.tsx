@@ -1,7 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, X, Bot, User } from 'lucide-react';
 import { ChatMessage, Role } from '../types';
-import { sendChatMessage } from '../services/geminiService';
+import { sendChatMessage } from '../services/aiService';
 
 interface ChatPanelProps {
   isOpen: boolean;
@@ -2,7 +2,8 @@ import React, { useRef, useMemo, useState } from 'react';
 import { Canvas, useFrame, ThreeEvent } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera, Environment, Html, Float } from '@react-three/drei';
 import * as THREE from 'three';
-import { CapturedItem } from '../types';
+import { AssetRegistry, CapturedItem } from '../types';
+import { getComponentZone } from '../services/assetService';
 
 // Represents a single captured photo position in 3D space
 interface CameraFrustumProps {
@@ -209,23 +210,21 @@ const AircraftModel = ({ onPartSelect, selectedPart, itemCounts }: { onPartSelec
 
 interface CoverageVisualizationProps {
   items: CapturedItem[];
+  assetRegistry: AssetRegistry;
   onPartSelect?: (partName: string) => void;
   selectedPart?: string | null;
 }
 
-export const CoverageVisualization: React.FC<CoverageVisualizationProps> = ({ items, onPartSelect, selectedPart }) => {
+export const CoverageVisualization: React.FC<CoverageVisualizationProps> = ({ items, assetRegistry, onPartSelect, selectedPart }) => {
   // Calculate item counts per component for the hotspots
   const itemCounts = useMemo(() => {
     const counts: Record<string, number> = {};
     items.forEach(item => {
-        const comp = item.metadata.component;
-        if (comp.includes('Wing')) counts['Wing'] = (counts['Wing'] || 0) + 1;
-        else if (comp.includes('Fuselage')) counts['Fuselage'] = (counts['Fuselage'] || 0) + 1;
-        else if (comp.includes('Engine')) counts['Engine'] = (counts['Engine'] || 0) + 1;
-        else if (comp.includes('Tail')) counts['Tail'] = (counts['Tail'] || 0) + 1;
+        const zone = getComponentZone(assetRegistry, item.metadata.component);
+        if (zone) counts[zone] = (counts[zone] || 0) + 1;
     });
     return counts;
-  }, [items]);
+  }, [items, assetRegistry]);
 
   // Generate simulated camera positions
   const cameraPositions = useMemo(() => {
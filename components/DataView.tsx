@@ -1,20 +1,77 @@
-import React, { useState, useEffect } from 'react';
-import { CapturedItem, ProjectGoal } from '../types';
-import { generateDatasetReport, generateInspectionVideo } from '../services/geminiService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { AnalysisRecord, AssetRegistry, CapturedItem, DatasetSnapshot, DefectTaxonomy, GoalPriority, GoalProgress, GoalStatus, ProjectGoal } from '../types';
+import { generateDatasetReport, generateInspectionVideo } from '../services/aiService';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, PieChart, Pie } from 'recharts';
-import { Bot, FileText, Filter, LayoutDashboard, ListTodo, Activity, MessageSquare, Box, Layers, Image as ImageIcon, ChevronRight, X, Play, RotateCw, Video, Film, Info, Camera, Zap } from 'lucide-react';
+import { Bot, FileText, Filter, LayoutDashboard, ListTodo, Activity, MessageSquare, Box, Layers, Image as ImageIcon, ChevronRight, X, Play, RotateCw, Video, Film, Info, Camera, Zap, ClipboardCheck, Download, Upload, Plus, Pencil, Pause, Archive, Trash2, RotateCcw, Network, Copy, GitCommitVertical, Shuffle, ScrollText, Tags } from 'lucide-react';
 import { CoverageVisualization } from './CoverageVisualization';
+import { ReviewPanel } from './ReviewPanel';
+import { ItemDetailPanel } from './ItemDetailPanel';
+import { AnnotationEditor } from './AnnotationEditor';
+import { ExportDialog } from './ExportDialog';
+import { ImportDialog } from './ImportDialog';
+import { isTrainingReady } from '../services/reviewService';
+import { createGoal, describeCriteria } from '../services/goalService';
+import { GoalEditor } from './GoalEditor';
+import { AssetRegistryEditor } from './AssetRegistryEditor';
+import { getComponentZone, getRegistryParts } from '../services/assetService';
+import { clusterDuplicates, getCountableItems } from '../services/duplicateService';
+import { DuplicateClusterDialog } from './DuplicateClusterDialog';
+import { DatasetVersionsDialog } from './DatasetVersionsDialog';
+import { SplitBuilderDialog } from './SplitBuilderDialog';
+import { GalleryFilterPanel } from './GalleryFilterPanel';
+import { PromptSettings } from './PromptSettings';
+import { DefectTaxonomyEditor } from './DefectTaxonomyEditor';
+import { canonicalDefectLabel, findTriageTerms } from '../services/taxonomyService';
+import {
+  applyGalleryFilters, countActiveFilters, GalleryFilters, isGalleryLink, parseGalleryFilters, toGallerySearch, withoutGalleryParams,
+} from '../services/galleryFilterService';
 
 interface DataViewProps {
   items: CapturedItem[];
   goals: ProjectGoal[];
+  goalProgress: Record<string, GoalProgress>;
   onOpenChat: () => void;
+  onUpdateItem: (item: CapturedItem) => void;
+  onAppendAnalysisRecord: (id: string, record: AnalysisRecord) => void;
+  onDeleteItems: (ids: string[]) => void;
+  onImportItems: (items: CapturedItem[]) => void;
+  onSaveGoal: (goal: ProjectGoal) => void;
+  onDeleteGoal: (id: string) => void;
+  assetRegistry: AssetRegistry;
+  onSaveAssetRegistry: (registry: AssetRegistry) => void;
+  defectTaxonomy: DefectTaxonomy;
+  onSaveDefectTaxonomy: (taxonomy: DefectTaxonomy) => void;
+  snapshots: DatasetSnapshot[];
+  onCreateSnapshot: (name: string, notes?: string) => Promise<DatasetSnapshot>;
+  onRestoreSnapshot: (snapshot: DatasetSnapshot) => Promise<void>;
 }
 
-export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat }) => {
+const STATUS_STYLES: Record<CapturedItem['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300 border-yellow-500/50',
+  approved: 'bg-green-500/20 text-green-300 border-green-500/50',
+  rejected: 'bg-red-500/20 text-red-300 border-red-500/50',
+};
+
+const GOAL_STATUS_STYLES: Record<GoalStatus, string> = {
+  active: 'bg-indigo-900/30 text-indigo-400',
+  completed: 'bg-green-900/30 text-green-400',
+  'at-risk': 'bg-orange-900/30 text-orange-400',
+  overdue: 'bg-red-900/30 text-red-400',
+  paused: 'bg-slate-800 text-slate-400',
+  closed: 'bg-slate-800 text-slate-500',
+};
+
+const PRIORITY_STYLES: Record<GoalPriority, string> = {
+  critical: 'text-red-400 border-red-500/50',
+  high: 'text-orange-400 border-orange-500/50',
+  normal: 'text-slate-400 border-slate-600',
+  low: 'text-slate-500 border-slate-700',
+};
+
+export const DataView: React.FC<DataViewProps> = ({ items, goals, goalProgress, onOpenChat, onUpdateItem, onAppendAnalysisRecord, onDeleteItems, onImportItems, onSaveGoal, onDeleteGoal, assetRegistry, onSaveAssetRegistry, defectTaxonomy, onSaveDefectTaxonomy, snapshots, onCreateSnapshot, onRestoreSnapshot }) => {
   const [report, setReport] = useState<string>("");
   const [isGeneratingReport, setIsGeneratingReport] = useState(false);
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'gallery' | 'reconstruction'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'gallery' | 'reconstruction' | 'prompts'>(() => isGalleryLink(window.location.search) ? 'gallery' : 'dashboard');
   
   // 3D Gen State
   const [modelStatus, setModelStatus] = useState<'idle' | 'generating' | 'ready'>('idle');
@@ -25,13 +82,54 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
   const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
   const [isVideoGenerating, setIsVideoGenerating] = useState(false);
 
+  // Review State
+  const [isReviewMode, setIsReviewMode] = useState(false);
+  const [reviewItemId, setReviewItemId] = useState<string | null>(null);
+  const [annotatingItemId, setAnnotatingItemId] = useState<string | null>(null);
+  const [detailItemId, setDetailItemId] = useState<string | null>(null); // Opened by clicking a tile outside review mode
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isVersionsOpen, setIsVersionsOpen] = useState(false);
+  const [isSplitBuilderOpen, setIsSplitBuilderOpen] = useState(false);
+  // A saved version being exported, with its items rebuilt from stored images
+  const [versionExport, setVersionExport] = useState<{ snapshot: DatasetSnapshot; items: CapturedItem[] } | null>(null);
+
+  // Near-duplicate State
+  const [duplicateClusterId, setDuplicateClusterId] = useState<string | null>(null);
+  const [showDuplicatesOnly, setShowDuplicatesOnly] = useState(false);
+
+  // Gallery filters live in the URL so a filtered view can be shared as a link
+  const [galleryFilters, setGalleryFilters] = useState<GalleryFilters>(() => parseGalleryFilters(window.location.search));
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(() => countActiveFilters(parseGalleryFilters(window.location.search)) > 0);
+  const activeFilterCount = countActiveFilters(galleryFilters);
+
+  useEffect(() => {
+    const { search, pathname, hash } = window.location;
+    const next = activeTab === 'gallery' ? toGallerySearch(galleryFilters, search) : withoutGalleryParams(search);
+    if (next !== search) window.history.replaceState(null, '', `${pathname}${next}${hash}`);
+  }, [galleryFilters, activeTab]);
+
+  // Goal Management State
+  const [editingGoal, setEditingGoal] = useState<{ goal: ProjectGoal; isNew: boolean } | null>(null);
+  const [isAssetEditorOpen, setIsAssetEditorOpen] = useState(false);
+  const [isTaxonomyEditorOpen, setIsTaxonomyEditorOpen] = useState(false);
+
   // Video Gen State (Dashboard)
   const [dashboardVideoUrl, setDashboardVideoUrl] = useState<string | null>(null);
   const [isDashboardVideoGenerating, setIsDashboardVideoGenerating] = useState(false);
 
-  // Stats Calculation
-  const defectCounts = items.reduce((acc, item) => {
-    const type = item.analysis?.defectType || 'Unknown';
+  // Near-duplicate clusters collapse to their best capture for statistics, the gallery and exports
+  const duplicateClusters = useMemo(() => clusterDuplicates(items), [items]);
+  const countableItems = useMemo(() => {
+    const hidden = new Set(duplicateClusters.flatMap(c => c.duplicates.map(d => d.id)));
+    return items.filter(i => !hidden.has(i.id));
+  }, [items, duplicateClusters]);
+  const hiddenDuplicateCount = items.length - countableItems.length;
+  const activeCluster = duplicateClusters.find(c => c.id === duplicateClusterId) || null;
+
+  // Stats Calculation; synonyms count towards their class even before they are rewritten
+  const defectCounts = countableItems.reduce((acc, item) => {
+    const type = item.analysis ? canonicalDefectLabel(defectTaxonomy, item.analysis.defectType) : 'Unknown';
     acc[type] = (acc[type] || 0) + 1;
     return acc;
   }, {} as Record<string, number>);
@@ -41,12 +139,31 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
     value: defectCounts[key]
   }));
 
+  const knownDefectTypes = [...new Set([...defectTaxonomy.classes.map(c => c.name), ...Object.keys(defectCounts)])];
+  const triageCount = useMemo(() => findTriageTerms(defectTaxonomy, items).length, [defectTaxonomy, items]);
+
   const pendingCount = items.filter(i => i.status === 'pending').length;
-  const qualityPercentage = items.length > 0 ? Math.round((items.filter(i => i.analysis?.isQualitySufficient).length / items.length) * 100) : 0;
+  const registryParts = getRegistryParts(assetRegistry);
+  const trainingReadyItems = countableItems.filter(isTrainingReady);
+  const versionExportItems = useMemo(
+    () => versionExport ? getCountableItems(versionExport.items).filter(isTrainingReady) : [],
+    [versionExport],
+  );
+  const trainingReadyCount = trainingReadyItems.length;
+  const reviewItem = items.find(i => i.id === reviewItemId) || null;
+  const annotatingItem = items.find(i => i.id === annotatingItemId) || null;
+  const detailItem = items.find(i => i.id === detailItemId) || null;
+  const galleryItems = applyGalleryFilters(
+    countableItems
+      .filter(i => !isReviewMode || i.status === 'pending')
+      .filter(i => !showDuplicatesOnly || duplicateClusters.some(c => c.id === i.id)),
+    galleryFilters,
+  );
+  const qualityPercentage = countableItems.length > 0 ? Math.round((countableItems.filter(i => i.analysis?.isQualitySufficient).length / countableItems.length) * 100) : 0;
 
   const handleGenerateReport = async () => {
     setIsGeneratingReport(true);
-    const r = await generateDatasetReport(items);
+    const r = await generateDatasetReport(countableItems);
     setReport(r);
     setIsGeneratingReport(false);
   };
@@ -76,7 +193,7 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
       try {
           // Prioritize image from selected part, otherwise last image
           const relevantItems = selectedPart 
-            ? items.filter(i => i.metadata.component.includes(selectedPart))
+            ? items.filter(i => getComponentZone(assetRegistry, i.metadata.component) === selectedPart)
             : items;
             
           const targetItem = relevantItems.length > 0 ? relevantItems[relevantItems.length - 1] : items[items.length - 1];
@@ -127,6 +244,13 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
     }
   };
 
+  const handleReviewSubmit = (updated: CapturedItem) => {
+    onUpdateItem(updated);
+    // Move straight on to the next item still waiting for review, in the gallery's current filter and order
+    const next = galleryItems.find(i => i.status === 'pending' && i.id !== updated.id);
+    setReviewItemId(isReviewMode && next ? next.id : null);
+  };
+
   // Toggle Video Mode Logic
   useEffect(() => {
     if (viewMode === 'video' && !generatedVideoUrl && !isVideoGenerating) {
@@ -168,10 +292,31 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
                 >
                     <Layers className="w-3 h-3" /> Gallery
                 </button>
+                <button 
+                    onClick={() => setActiveTab('prompts')}
+                    className={`px-4 py-1.5 rounded-md text-sm font-medium transition flex items-center gap-2 ${activeTab === 'prompts' ? 'bg-slate-600 text-white shadow' : 'text-slate-400 hover:text-white'}`}
+                >
+                    <ScrollText className="w-3 h-3" /> Prompts
+                </button>
             </div>
             <button 
-                onClick={onOpenChat}
+                onClick={() => setIsTaxonomyEditorOpen(true)}
+                className="relative p-2 text-slate-400 hover:text-white border-l border-slate-700 pl-4"
+                title={triageCount > 0 ? `Defect taxonomy • ${triageCount} unmapped terms to triage` : 'Defect taxonomy'}
+            >
+                <Tags className="w-5 h-5" />
+                {triageCount > 0 && <span className="absolute top-0 -right-1 bg-yellow-500 text-black text-[9px] font-bold rounded-full px-1">{triageCount}</span>}
+            </button>
+            <button 
+                onClick={() => setIsAssetEditorOpen(true)}
                 className="p-2 text-slate-400 hover:text-white border-l border-slate-700 pl-4"
+                title="Asset registry"
+            >
+                <Network className="w-5 h-5" />
+            </button>
+            <button 
+                onClick={onOpenChat}
+                className="p-2 text-slate-400 hover:text-white"
             >
                 <MessageSquare className="w-5 h-5" />
             </button>
@@ -189,8 +334,8 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
                                 <p className="text-slate-400 text-xs font-bold uppercase">Total Samples</p>
                                 <Activity className="w-4 h-4 text-cyan-500" />
                             </div>
-                            <p className="text-4xl font-mono text-white">{items.length}</p>
-                            <p className="text-xs text-slate-500 mt-1">+12% from yesterday</p>
+                            <p className="text-4xl font-mono text-white">{countableItems.length}</p>
+                            <p className="text-xs text-slate-500 mt-1">{hiddenDuplicateCount > 0 ? `${hiddenDuplicateCount} near-duplicates not counted` : '+12% from yesterday'}</p>
                         </div>
                         <div className="bg-slate-900/50 border border-slate-800 p-5 rounded-xl">
                             <div className="flex justify-between items-start mb-2">
@@ -206,34 +351,86 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
                                 <ListTodo className="w-4 h-4 text-yellow-500" />
                             </div>
                             <p className="text-4xl font-mono text-yellow-400">{pendingCount}</p>
-                            <p className="text-xs text-slate-500 mt-1">Needs Attention</p>
+                            <p className="text-xs text-slate-500 mt-1">{trainingReadyCount} human-approved, training-ready</p>
                         </div>
                     </div>
                     
                     <div className="bg-slate-900 border border-slate-800 rounded-xl p-6">
-                        <h3 className="text-white font-bold mb-4 flex items-center gap-2">
-                            <ListTodo className="w-5 h-5 text-indigo-400" />
-                            Active Collection Directives
-                        </h3>
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-white font-bold flex items-center gap-2">
+                                <ListTodo className="w-5 h-5 text-indigo-400" />
+                                Collection Directives
+                            </h3>
+                            <button 
+                                onClick={() => setEditingGoal({ goal: createGoal(), isNew: true })}
+                                className="text-xs px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white font-bold flex items-center gap-1"
+                            >
+                                <Plus className="w-3 h-3" /> New Directive
+                            </button>
+                        </div>
                         <div className="space-y-4">
+                            {goals.length === 0 && <p className="text-sm text-slate-500 text-center py-6">No directives yet. Create one to steer field collection.</p>}
                             {goals.map(goal => {
-                                const progress = Math.min(100, Math.round((goal.currentCount / goal.targetCount) * 100));
+                                const { currentCount, projectedCount, status } = goalProgress[goal.id];
+                                const progress = Math.min(100, Math.round((currentCount / goal.targetCount) * 100));
                                 return (
-                                    <div key={goal.id} className="bg-slate-950 p-4 rounded-lg border border-slate-800/50">
+                                    <div key={goal.id} className={`group bg-slate-950 p-4 rounded-lg border border-slate-800/50 ${goal.state === 'open' ? '' : 'opacity-60'}`}>
                                         <div className="flex justify-between items-center mb-2">
                                             <div>
-                                                <p className="font-semibold text-slate-200">{goal.title}</p>
+                                                <p className="font-semibold text-slate-200 flex items-center gap-2">
+                                                    {goal.title}
+                                                    <span className={`text-[9px] font-mono uppercase px-1.5 py-0.5 rounded border ${PRIORITY_STYLES[goal.priority]}`}>{goal.priority}</span>
+                                                </p>
                                                 <p className="text-xs text-slate-500">{goal.description} • Due: {new Date(goal.deadline).toLocaleDateString()}</p>
+                                                <p className="text-[10px] text-slate-600 font-mono mt-0.5">
+                                                    {describeCriteria(goal.criteria)} • {goal.assignees.length ? goal.assignees.join(', ') : 'All engineers'} @ {goal.sites.length ? goal.sites.join(', ') : 'All sites'}
+                                                </p>
+                                            </div>
+                                            <div className="flex items-center gap-1">
+                                                <div className="hidden group-hover:flex items-center gap-1 mr-1">
+                                                    <button onClick={() => setEditingGoal({ goal, isNew: false })} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Edit">
+                                                        <Pencil className="w-3 h-3" />
+                                                    </button>
+                                                    {goal.state === 'open' && (
+                                                        <button onClick={() => onSaveGoal({ ...goal, state: 'paused' })} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Pause">
+                                                            <Pause className="w-3 h-3" />
+                                                        </button>
+                                                    )}
+                                                    {goal.state === 'paused' && (
+                                                        <button onClick={() => onSaveGoal({ ...goal, state: 'open' })} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Resume">
+                                                            <Play className="w-3 h-3" />
+                                                        </button>
+                                                    )}
+                                                    {goal.state === 'closed' ? (
+                                                        <button onClick={() => onSaveGoal({ ...goal, state: 'open' })} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Reopen">
+                                                            <RotateCcw className="w-3 h-3" />
+                                                        </button>
+                                                    ) : (
+                                                        <button onClick={() => onSaveGoal({ ...goal, state: 'closed' })} className="p-1.5 rounded text-slate-400 hover:text-white hover:bg-slate-800" title="Close">
+                                                            <Archive className="w-3 h-3" />
+                                                        </button>
+                                                    )}
+                                                    <button 
+                                                        onClick={() => window.confirm(`Delete directive "${goal.title}"?`) && onDeleteGoal(goal.id)}
+                                                        className="p-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-slate-800"
+                                                        title="Delete"
+                                                    >
+                                                        <Trash2 className="w-3 h-3" />
+                                                    </button>
+                                                </div>
+                                                <span
+                                                    className={`text-xs px-2 py-1 rounded font-mono ${GOAL_STATUS_STYLES[status]}`}
+                                                    title={status === 'completed' ? undefined : `Projected ${projectedCount} by the deadline at the current pace`}
+                                                >
+                                                    {status.toUpperCase()}
+                                                </span>
                                             </div>
-                                            <span className={`text-xs px-2 py-1 rounded font-mono ${goal.status === 'at-risk' ? 'bg-red-900/30 text-red-400' : 'bg-indigo-900/30 text-indigo-400'}`}>
-                                                {goal.status.toUpperCase()}
-                                            </span>
                                         </div>
                                         <div className="flex items-center gap-3">
                                             <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
                                                 <div className="h-full bg-gradient-to-r from-indigo-500 to-cyan-400 transition-all duration-500" style={{ width: `${progress}%` }} />
                                             </div>
-                                            <p className="text-xs font-mono text-white w-16 text-right">{goal.currentCount}/{goal.targetCount}</p>
+                                            <p className="text-xs font-mono text-white w-16 text-right">{currentCount}/{goal.targetCount}</p>
                                         </div>
                                     </div>
                                 );
@@ -388,9 +585,10 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
                         {/* Sidebar: Part List */}
                         <div className="w-64 flex flex-col gap-3 shrink-0">
                             <div className="bg-slate-900 border border-slate-800 rounded-lg p-3">
-                                <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Detected Components</p>
+                                <p className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Registered Components</p>
                                 <div className="space-y-2">
-                                    {['Fuselage', 'Wing', 'Engine', 'Tail'].map(part => (
+                                    {registryParts.length === 0 && <p className="text-xs text-slate-500">No components are pinned to the digital twin. Assign zones in the asset registry.</p>}
+                                    {registryParts.map(({ zone: part, components }) => (
                                         <button 
                                             key={part}
                                             onClick={() => setSelectedPart(prev => prev === part ? null : part)}
@@ -402,8 +600,9 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
                                         >
                                             <div className="flex justify-between items-center">
                                                 <span className="font-bold text-sm">{part}</span>
-                                                <span className="text-[10px] bg-slate-800 px-1.5 rounded">{items.filter(i => i.metadata.component.includes(part)).length}</span>
+                                                <span className="text-[10px] bg-slate-800 px-1.5 rounded">{items.filter(i => getComponentZone(assetRegistry, i.metadata.component) === part).length}</span>
                                             </div>
+                                            <p className="text-[10px] text-slate-500 truncate mt-1">{components.join(' • ')}</p>
                                             <div className="w-full bg-slate-800 h-1 mt-2 rounded-full overflow-hidden">
                                                 <div className="h-full bg-blue-500" style={{width: '85%'}} />
                                             </div>
@@ -417,7 +616,7 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
                         <div className="flex-1 bg-black rounded-xl border border-slate-800 relative overflow-hidden shadow-2xl flex items-center justify-center">
                             {viewMode === '3d' ? (
                                 <>
-                                    <CoverageVisualization items={items} onPartSelect={setSelectedPart} selectedPart={selectedPart} />
+                                    <CoverageVisualization items={items} assetRegistry={assetRegistry} onPartSelect={setSelectedPart} selectedPart={selectedPart} />
                                     <div className="absolute top-6 left-6 flex gap-2">
                                         <button 
                                             onClick={() => setModelStatus('idle')}
@@ -483,7 +682,7 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
                                             <p className="text-xs text-slate-300">Status: <span className="text-blue-400 font-bold">Scanning Complete</span></p>
                                         </div>
                                         
-                                        {items.filter(i => i.metadata.component.includes(selectedPart)).length === 0 ? (
+                                        {items.filter(i => getComponentZone(assetRegistry, i.metadata.component) === selectedPart).length === 0 ? (
                                              <div className="text-center py-8 bg-black/20 rounded-lg border border-slate-800 border-dashed">
                                                 <p className="text-slate-400 text-xs font-medium mb-3">No imagery collected for this part yet.</p>
                                                 <button className="bg-slate-800 hover:bg-slate-700 text-blue-400 text-xs px-3 py-2 rounded border border-slate-700 flex items-center gap-2 mx-auto transition">
@@ -495,9 +694,9 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
                                             <>
                                                 <div className="flex items-center gap-2 text-xs text-slate-400 uppercase font-bold tracking-wider mt-2 mb-1">
                                                     <ImageIcon className="w-3 h-3" />
-                                                    Source Imagery ({items.filter(i => i.metadata.component.includes(selectedPart)).length})
+                                                    Source Imagery ({items.filter(i => getComponentZone(assetRegistry, i.metadata.component) === selectedPart).length})
                                                 </div>
-                                                {items.filter(i => i.metadata.component.includes(selectedPart)).map(item => (
+                                                {items.filter(i => getComponentZone(assetRegistry, i.metadata.component) === selectedPart).map(item => (
                                                     <div key={item.id} className="flex gap-2 bg-black/40 p-2 rounded border border-slate-800 hover:border-blue-500/50 transition">
                                                         <img src={item.imageUrl} className="w-10 h-10 object-cover rounded bg-slate-800" />
                                                         <div className="min-w-0">
@@ -576,36 +775,235 @@ export const DataView: React.FC<DataViewProps> = ({ items, goals, onOpenChat })
            </div>
         )}
 
+        {activeTab === 'prompts' && <PromptSettings items={items} />}
+
         {activeTab === 'gallery' && (
             <div className="bg-slate-900 p-6 rounded-xl border border-slate-800 min-h-full">
                 <div className="flex justify-between items-center mb-6">
-                <h3 className="text-xl font-semibold text-slate-300">Raw Data Stream</h3>
-                <button className="text-slate-400 hover:text-white flex items-center gap-2 text-sm bg-slate-800 px-3 py-2 rounded-lg border border-slate-700">
-                    <Filter className="w-4 h-4" /> Filter View
-                </button>
+                <h3 className="text-xl font-semibold text-slate-300">{isReviewMode ? 'Review Queue' : 'Raw Data Stream'}</h3>
+                <div className="flex items-center gap-2">
+                    <button 
+                        onClick={() => { setIsReviewMode(prev => !prev); setReviewItemId(null); setDetailItemId(null); }}
+                        className={`flex items-center gap-2 text-sm px-3 py-2 rounded-lg border transition ${isReviewMode ? 'bg-cyan-900/40 border-cyan-500 text-cyan-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                    >
+                        <ClipboardCheck className="w-4 h-4" /> Review Mode
+                        <span className="text-[10px] font-mono bg-yellow-500/20 text-yellow-300 px-1.5 rounded">{pendingCount}</span>
+                    </button>
+                    <button 
+                        onClick={() => setShowDuplicatesOnly(prev => !prev)}
+                        className={`flex items-center gap-2 text-sm px-3 py-2 rounded-lg border transition ${showDuplicatesOnly ? 'bg-amber-900/40 border-amber-500 text-amber-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                        title="Show only captures with near-duplicates"
+                    >
+                        <Copy className="w-4 h-4" /> Duplicates
+                        <span className="text-[10px] font-mono bg-amber-500/20 text-amber-300 px-1.5 rounded">{duplicateClusters.length}</span>
+                    </button>
+                    <button 
+                        onClick={() => setIsFilterPanelOpen(prev => !prev)}
+                        className={`flex items-center gap-2 text-sm px-3 py-2 rounded-lg border transition ${isFilterPanelOpen || activeFilterCount > 0 ? 'bg-cyan-900/40 border-cyan-500 text-cyan-300' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                    >
+                        <Filter className="w-4 h-4" /> Filter View
+                        {activeFilterCount > 0 && <span className="text-[10px] font-mono bg-cyan-500/20 text-cyan-300 px-1.5 rounded">{activeFilterCount}</span>}
+                    </button>
+                    <button 
+                        onClick={() => setIsSplitBuilderOpen(true)}
+                        className="text-slate-400 hover:text-white flex items-center gap-2 text-sm bg-slate-800 px-3 py-2 rounded-lg border border-slate-700"
+                    >
+                        <Shuffle className="w-4 h-4" /> Splits
+                    </button>
+                    <button 
+                        onClick={() => setIsVersionsOpen(true)}
+                        className="text-slate-400 hover:text-white flex items-center gap-2 text-sm bg-slate-800 px-3 py-2 rounded-lg border border-slate-700"
+                    >
+                        <GitCommitVertical className="w-4 h-4" /> Versions
+                        <span className="text-[10px] font-mono bg-slate-700 text-slate-300 px-1.5 rounded">{snapshots.length}</span>
+                    </button>
+                    <button 
+                        onClick={() => setIsImportOpen(true)}
+                        className="text-slate-400 hover:text-white flex items-center gap-2 text-sm bg-slate-800 px-3 py-2 rounded-lg border border-slate-700"
+                    >
+                        <Upload className="w-4 h-4" /> Import
+                    </button>
+                    <button 
+                        onClick={() => setIsExportOpen(true)}
+                        className="text-white flex items-center gap-2 text-sm bg-cyan-700 hover:bg-cyan-600 px-3 py-2 rounded-lg border border-cyan-600 transition"
+                    >
+                        <Download className="w-4 h-4" /> Export
+                    </button>
+                </div>
                 </div>
+                {isFilterPanelOpen && <GalleryFilterPanel items={countableItems} filters={galleryFilters} onChange={setGalleryFilters} />}
                 <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-5 gap-4">
-                {items.length === 0 && <p className="text-slate-500 col-span-full text-center py-20">No samples collected yet.</p>}
-                {items.slice().reverse().map((item) => (
-                    <div key={item.id} className="relative group rounded-xl overflow-hidden border border-slate-700 bg-black aspect-square cursor-pointer hover:border-cyan-500 transition-all">
+                {galleryItems.length === 0 && (
+                    <p className="text-slate-500 col-span-full text-center py-20">
+                        {activeFilterCount > 0 ? 'No captures match these filters.' : isReviewMode ? 'Nothing left to review.' : 'No samples collected yet.'}
+                    </p>
+                )}
+                {galleryItems.map((item) => (
+                    <div 
+                        key={item.id} 
+                        onClick={() => isReviewMode ? setReviewItemId(item.id) : setDetailItemId(item.id)}
+                        className={`relative group rounded-xl overflow-hidden border bg-black aspect-square cursor-pointer hover:border-cyan-500 transition-all ${reviewItemId === item.id || detailItemId === item.id ? 'border-cyan-400' : 'border-slate-700'} ${item.session ? 'shadow-[4px_4px_0_-1px_#1e293b,8px_8px_0_-2px_#334155]' : ''}`}
+                    >
                     <img src={item.annotatedImageUrl || item.imageUrl} alt={item.analysis?.defectType} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition duration-300" />
+                    {item.session && (
+                        <div className="absolute top-9 left-2 flex flex-col gap-1">
+                            <span className="text-[9px] font-mono font-bold px-1.5 py-0.5 rounded border border-purple-500/60 bg-purple-950/70 text-purple-200 flex items-center gap-1 backdrop-blur">
+                                <Layers className="w-3 h-3" /> {item.session.shots.length} VIEWS
+                            </span>
+                            <div className="flex -space-x-3 opacity-0 group-hover:opacity-100 transition">
+                                {item.session.shots.slice(1, 4).map(shot => (
+                                    <img key={shot.id} src={shot.imageUrl} alt={shot.angle} title={shot.angle} className="w-8 h-8 object-cover rounded border border-slate-900 shadow" />
+                                ))}
+                            </div>
+                        </div>
+                    )}
                     <div className="absolute inset-x-0 bottom-0 bg-gradient-to-t from-slate-900 via-slate-900/80 to-transparent p-3 pt-8 translate-y-2 group-hover:translate-y-0 transition-transform">
-                        <p className="text-xs font-bold text-white truncate">{item.analysis?.defectType}</p>
+                        <p className="text-xs font-bold text-white truncate">{item.analysis?.defectType ?? 'Awaiting analysis'}</p>
                         <div className="flex justify-between items-center mt-1">
                             <span className={`text-[10px] uppercase font-bold ${item.analysis?.severity === 'Critical' ? 'text-red-400' : 'text-slate-400'}`}>
                                 {item.analysis?.severity}
                             </span>
-                            <span className="text-[10px] text-slate-500">{new Date(item.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
+                            <span className="text-[10px] text-slate-500">
+                                {item.split && <span className="font-mono uppercase text-cyan-400 mr-1.5">{item.split}</span>}
+                                {new Date(item.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                            </span>
                         </div>
                     </div>
                     {item.analysis?.severity === 'Critical' && (
                         <div className="absolute top-2 right-2 w-2 h-2 bg-red-500 rounded-full animate-pulse border border-black shadow-[0_0_8px_rgba(239,68,68,0.8)]" />
                     )}
+                    <span className={`absolute top-2 left-2 text-[9px] font-mono font-bold uppercase px-1.5 py-0.5 rounded border backdrop-blur ${STATUS_STYLES[item.status]}`}>
+                        {item.status}
+                    </span>
+                    {duplicateClusters.some(c => c.id === item.id) && (
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); setDuplicateClusterId(item.id); }}
+                            className="absolute top-2 right-6 text-[9px] font-mono font-bold px-1.5 py-0.5 rounded border border-amber-500/60 bg-amber-950/80 text-amber-300 flex items-center gap-1 backdrop-blur hover:bg-amber-900"
+                            title="Near-duplicates of this capture are not counted"
+                        >
+                            <Copy className="w-3 h-3" /> +{duplicateClusters.find(c => c.id === item.id)!.duplicates.length}
+                        </button>
+                    )}
                     </div>
                 ))}
                 </div>
             </div>
         )}
+
+        {reviewItem && (
+            <ReviewPanel 
+                item={reviewItem} 
+                knownDefectTypes={knownDefectTypes}
+                onClose={() => setReviewItemId(null)} 
+                onSubmit={handleReviewSubmit} 
+                onAnnotate={() => setAnnotatingItemId(reviewItem.id)}
+            />
+        )}
+
+        {detailItem && !reviewItem && (
+            <ItemDetailPanel 
+                item={detailItem}
+                defectTaxonomy={defectTaxonomy}
+                onClose={() => setDetailItemId(null)}
+                onUpdate={onUpdateItem}
+                onAppendRecord={onAppendAnalysisRecord}
+                onAnnotate={() => setAnnotatingItemId(detailItem.id)}
+            />
+        )}
+
+        {isExportOpen && (
+            <ExportDialog items={trainingReadyItems} excludedDuplicateCount={items.filter(isTrainingReady).length - trainingReadyCount} onClose={() => setIsExportOpen(false)} />
+        )}
+
+        {isSplitBuilderOpen && (
+            <SplitBuilderDialog 
+                items={items}
+                eligibleItems={trainingReadyItems}
+                onClose={() => setIsSplitBuilderOpen(false)}
+                onApply={(updated) => updated.forEach(onUpdateItem)}
+            />
+        )}
+
+        {isVersionsOpen && (
+            <DatasetVersionsDialog 
+                items={items}
+                snapshots={snapshots}
+                onClose={() => setIsVersionsOpen(false)}
+                onCreate={onCreateSnapshot}
+                onRestore={onRestoreSnapshot}
+                onExport={(snapshot, versionItems) => setVersionExport({ snapshot, items: versionItems })}
+            />
+        )}
+
+        {versionExport && (
+            <ExportDialog 
+                items={versionExportItems}
+                excludedDuplicateCount={versionExport.items.filter(isTrainingReady).length - versionExportItems.length}
+                version={versionExport.snapshot}
+                onClose={() => setVersionExport(null)}
+            />
+        )}
+
+        {activeCluster && (
+            <DuplicateClusterDialog 
+                cluster={activeCluster}
+                onClose={() => setDuplicateClusterId(null)}
+                onUpdateItems={(updated) => updated.forEach(onUpdateItem)}
+                onDeleteItems={onDeleteItems}
+            />
+        )}
+
+        {isAssetEditorOpen && (
+            <AssetRegistryEditor 
+                registry={assetRegistry}
+                onClose={() => setIsAssetEditorOpen(false)}
+                onSave={(registry) => {
+                    onSaveAssetRegistry(registry);
+                    setIsAssetEditorOpen(false);
+                }}
+            />
+        )}
+
+        {isTaxonomyEditorOpen && (
+            <DefectTaxonomyEditor 
+                taxonomy={defectTaxonomy}
+                items={items}
+                onClose={() => setIsTaxonomyEditorOpen(false)}
+                onSave={(taxonomy) => {
+                    onSaveDefectTaxonomy(taxonomy);
+                    setIsTaxonomyEditorOpen(false);
+                }}
+            />
+        )}
+
+        {editingGoal && (
+            <GoalEditor 
+                goal={editingGoal.goal}
+                isNew={editingGoal.isNew}
+                knownDefectTypes={knownDefectTypes}
+                onClose={() => setEditingGoal(null)}
+                onSave={(goal) => {
+                    onSaveGoal(goal);
+                    setEditingGoal(null);
+                }}
+            />
+        )}
+
+        {isImportOpen && (
+            <ImportDialog existingItems={items} taxonomy={defectTaxonomy} onClose={() => setIsImportOpen(false)} onImport={onImportItems} />
+        )}
+
+        {annotatingItem && (
+            <AnnotationEditor 
+                item={annotatingItem}
+                knownLabels={knownDefectTypes}
+                onClose={() => setAnnotatingItemId(null)}
+                onSave={(regions) => {
+                    onUpdateItem({ ...annotatingItem, regions });
+                    setAnnotatingItemId(null);
+                }}
+            />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,216 @@
+import React, { useEffect, useState } from 'react';
+import { X, GitCommitVertical, Download, RotateCcw, Plus, Minus, Tag, ArrowRight } from 'lucide-react';
+import { CapturedItem, DatasetSnapshot, SnapshotEntry, SnapshotItem } from '../types';
+import { describeWorkingSet, diffSnapshots, LabelChange, materializeSnapshot, SnapshotDiff } from '../services/snapshotService';
+
+interface DatasetVersionsDialogProps {
+  items: CapturedItem[];
+  snapshots: DatasetSnapshot[];
+  onClose: () => void;
+  onCreate: (name: string, notes?: string) => Promise<DatasetSnapshot>;
+  onRestore: (snapshot: DatasetSnapshot) => Promise<void>;
+  onExport: (snapshot: DatasetSnapshot, items: CapturedItem[]) => void;
+}
+
+// Diff side selector value for the unsaved working set
+const WORKING_SET = 'working';
+
+const describeLabel = (item: SnapshotItem, field: LabelChange): string => {
+  switch (field) {
+    case 'defectType': return item.analysis?.defectType ?? 'unlabelled';
+    case 'severity': return item.analysis?.severity ?? '—';
+    case 'status': return item.status;
+    case 'regions': return `${item.regions?.length ?? 0} region(s)`;
+  }
+};
+
+const EntryRow: React.FC<{ entry: SnapshotEntry; accent: string; icon: React.ReactNode }> = ({ entry, accent, icon }) => (
+  <div className="flex items-center gap-2 text-[11px] font-mono py-1 border-b border-slate-800/60">
+    <span className={accent}>{icon}</span>
+    <span className="text-slate-500">{entry.item.id.slice(0, 8)}</span>
+    <span className="text-slate-300 truncate">{entry.item.metadata.machineId} / {entry.item.metadata.component}</span>
+    <span className="ml-auto text-slate-400 shrink-0">{entry.item.analysis?.defectType ?? 'unlabelled'} • {entry.item.status}</span>
+  </div>
+);
+
+export const DatasetVersionsDialog: React.FC<DatasetVersionsDialogProps> = ({ items, snapshots, onClose, onCreate, onRestore, onExport }) => {
+  const [name, setName] = useState(`v${snapshots.length + 1}`);
+  const [notes, setNotes] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const latest = snapshots[snapshots.length - 1];
+  const [baseId, setBaseId] = useState<string>(latest?.id ?? WORKING_SET);
+  const [targetId, setTargetId] = useState<string>(WORKING_SET);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [isDiffing, setIsDiffing] = useState(false);
+
+  // Hashing the working set reads every image, so the diff is computed asynchronously
+  useEffect(() => {
+    let cancelled = false;
+    const entriesFor = (id: string) => {
+      if (id === WORKING_SET) return describeWorkingSet(items);
+      return Promise.resolve(snapshots.find(s => s.id === id)?.entries ?? []);
+    };
+    setIsDiffing(true);
+    Promise.all([entriesFor(baseId), entriesFor(targetId)])
+      .then(([base, target]) => { if (!cancelled) setDiff(diffSnapshots(base, target)); })
+      .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : 'Could not compare versions'); })
+      .finally(() => { if (!cancelled) setIsDiffing(false); });
+    return () => { cancelled = true; };
+  }, [baseId, targetId, items, snapshots]);
+
+  const run = async (label: string, action: () => Promise<void>) => {
+    setBusy(label);
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      console.error(`Dataset version action failed: ${label}`, e);
+      setError(e instanceof Error ? e.message : 'Action failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = () => run('create', async () => {
+    const snapshot = await onCreate(name, notes);
+    setName(`v${snapshots.length + 2}`);
+    setNotes('');
+    setBaseId(snapshot.id);
+  });
+
+  const handleExport = (snapshot: DatasetSnapshot) => run(`export-${snapshot.id}`, async () => {
+    onExport(snapshot, await materializeSnapshot(snapshot, items));
+  });
+
+  const handleRestore = (snapshot: DatasetSnapshot) => {
+    if (!confirm(`Replace the working set with "${snapshot.name}" (${snapshot.entries.length} items)? The current state is saved as a version first.`)) return;
+    run(`restore-${snapshot.id}`, () => onRestore(snapshot));
+  };
+
+  const sideOptions = (
+    <>
+      <option value={WORKING_SET}>Working set (unsaved)</option>
+      {snapshots.slice().reverse().map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <GitCommitVertical className="w-5 h-5 text-cyan-400" />
+            Dataset Versions
+            <span className="text-xs font-mono text-slate-400">{snapshots.length} saved</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-5">
+          {/* New version */}
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="Version name"
+              className="w-40 bg-black/40 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+            />
+            <input
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              placeholder="Notes, e.g. trained model-2024-06"
+              className="flex-1 bg-black/40 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!!busy || !name.trim() || snapshots.some(s => s.name === name.trim())}
+              className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-bold text-xs whitespace-nowrap"
+              title={snapshots.some(s => s.name === name.trim()) ? 'A version with this name already exists' : undefined}
+            >
+              {busy === 'create' ? 'Saving...' : `Save ${items.length} items`}
+            </button>
+          </div>
+
+          {/* Saved versions */}
+          <div className="space-y-2">
+            {snapshots.length === 0 && <p className="text-xs text-slate-500">No versions yet. Save one before training so the model can be traced back to its exact data.</p>}
+            {snapshots.slice().reverse().map(snapshot => {
+              const approved = snapshot.entries.filter(e => e.item.status === 'approved').length;
+              return (
+                <div key={snapshot.id} className="flex items-center gap-3 p-3 rounded-lg bg-black/30 border border-slate-800">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-white truncate">{snapshot.name}</p>
+                    <p className="text-[10px] font-mono text-slate-500">
+                      {new Date(snapshot.createdAt).toLocaleString()} • {snapshot.entries.length} items • {approved} approved • #{snapshot.manifestHash.slice(0, 12)}
+                    </p>
+                    {snapshot.notes && <p className="text-[11px] text-slate-400 truncate">{snapshot.notes}</p>}
+                  </div>
+                  <button
+                    onClick={() => handleExport(snapshot)}
+                    disabled={!!busy}
+                    className="p-2 rounded-lg border border-slate-700 text-slate-300 hover:text-white hover:border-cyan-500 disabled:opacity-50"
+                    title="Export this version"
+                  >
+                    {busy === `export-${snapshot.id}` ? <span className="block w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <Download className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => handleRestore(snapshot)}
+                    disabled={!!busy}
+                    className="p-2 rounded-lg border border-slate-700 text-slate-300 hover:text-white hover:border-amber-500 disabled:opacity-50"
+                    title="Restore the working set to this version"
+                  >
+                    {busy === `restore-${snapshot.id}` ? <span className="block w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Diff */}
+          <div className="border-t border-slate-800 pt-4">
+            <div className="flex items-center gap-2 mb-3">
+              <select value={baseId} onChange={e => setBaseId(e.target.value)} className="flex-1 bg-black/40 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white">{sideOptions}</select>
+              <ArrowRight className="w-4 h-4 text-slate-500 shrink-0" />
+              <select value={targetId} onChange={e => setTargetId(e.target.value)} className="flex-1 bg-black/40 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-white">{sideOptions}</select>
+            </div>
+            {isDiffing && <p className="text-xs text-slate-500">Comparing...</p>}
+            {!isDiffing && diff && (
+              <div>
+                <p className="text-xs font-mono mb-2">
+                  <span className="text-green-400">+{diff.added.length} added</span>{' • '}
+                  <span className="text-red-400">−{diff.removed.length} removed</span>{' • '}
+                  <span className="text-amber-300">{diff.relabelled.length} relabelled</span>{' • '}
+                  <span className="text-slate-500">{diff.unchanged} unchanged</span>
+                </p>
+                <div className="max-h-64 overflow-y-auto">
+                  {diff.added.map(entry => <EntryRow key={`a-${entry.item.id}-${entry.contentHash}`} entry={entry} accent="text-green-400" icon={<Plus className="w-3 h-3" />} />)}
+                  {diff.removed.map(entry => <EntryRow key={`r-${entry.item.id}-${entry.contentHash}`} entry={entry} accent="text-red-400" icon={<Minus className="w-3 h-3" />} />)}
+                  {diff.relabelled.map(({ before, after, changes }) => (
+                    <div key={`l-${after.item.id}`} className="text-[11px] font-mono py-1 border-b border-slate-800/60">
+                      <div className="flex items-center gap-2">
+                        <Tag className="w-3 h-3 text-amber-300" />
+                        <span className="text-slate-500">{after.item.id.slice(0, 8)}</span>
+                        <span className="text-slate-300 truncate">{after.item.metadata.machineId} / {after.item.metadata.component}</span>
+                      </div>
+                      {changes.map(field => (
+                        <p key={field} className="pl-5 text-slate-400">
+                          {field}: <span className="text-red-300">{describeLabel(before.item, field)}</span> → <span className="text-green-300">{describeLabel(after.item, field)}</span>
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-xs text-red-400 bg-red-950/30 border border-red-800 rounded p-2">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Save, Tags, Plus, Trash2, Inbox } from 'lucide-react';
+import { AnalysisResult, CapturedItem, DefectTaxonomy } from '../types';
+import { findTriageTerms, flattenTaxonomy, getClassPath, normalizeItemLabels, validateTaxonomy } from '../services/taxonomyService';
+
+interface DefectTaxonomyEditorProps {
+  taxonomy: DefectTaxonomy;
+  items: CapturedItem[];
+  onClose: () => void;
+  onSave: (taxonomy: DefectTaxonomy) => void;
+}
+
+const SEVERITIES: AnalysisResult['severity'][] = ['Low', 'Medium', 'High', 'Critical'];
+
+// Comma-separated synonym list that only commits on blur, so typing a separator isn't swallowed
+const SynonymsInput: React.FC<{ synonyms: string[]; onChange: (synonyms: string[]) => void; className: string }> = ({ synonyms, onChange, className }) => {
+  const [text, setText] = useState(synonyms.join(', '));
+  useEffect(() => setText(synonyms.join(', ')), [synonyms.join('|')]);
+  return (
+    <input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => onChange(text.split(',').map(t => t.trim()).filter(Boolean))}
+      placeholder="Synonyms, comma separated"
+      className={className}
+    />
+  );
+};
+
+export const DefectTaxonomyEditor: React.FC<DefectTaxonomyEditorProps> = ({ taxonomy, items, onClose, onSave }) => {
+  const [draft, setDraft] = useState(taxonomy);
+  const [error, setError] = useState<string | null>(null);
+
+  const edit = (change: (next: DefectTaxonomy) => void) => {
+    setDraft(prev => {
+      const next = structuredClone(prev);
+      change(next);
+      return next;
+    });
+  };
+  const editClass = (id: string, change: (c: DefectTaxonomy['classes'][number]) => void) =>
+    edit(d => change(d.classes.find(c => c.id === id)!));
+
+  const rows = useMemo(() => flattenTaxonomy(draft), [draft]);
+  const triage = useMemo(() => findTriageTerms(draft, items), [draft, items]);
+  const relabelCount = useMemo(() => items.filter(item => normalizeItemLabels(draft, item) !== item).length, [draft, items]);
+
+  const handleRemove = (id: string) => {
+    const removed = draft.classes.find(c => c.id === id)!;
+    // Children move up a level instead of disappearing with their parent
+    edit(d => {
+      d.classes = d.classes.filter(c => c.id !== id);
+      d.classes.forEach(c => { if (c.parentId === id) c.parentId = removed.parentId; });
+    });
+  };
+
+  const handleMapTerm = (term: string, classId: string) => {
+    if (classId === 'new') {
+      edit(d => { d.classes.push({ id: crypto.randomUUID(), name: term, description: '', synonyms: [], allowedSeverities: [...SEVERITIES] }); });
+    } else {
+      editClass(classId, c => { c.synonyms.push(term); });
+    }
+  };
+
+  const handleSave = () => {
+    const problem = validateTaxonomy(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onSave({ ...draft, updatedAt: Date.now() });
+  };
+
+  const inputClass = "bg-slate-800 border border-slate-600 text-white rounded px-2 py-1 text-xs focus:outline-none focus:border-cyan-500";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-4xl max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Tags className="w-5 h-5 text-cyan-400" />
+            Defect Taxonomy
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {triage.length > 0 && (
+            <div className="border border-yellow-700/50 bg-yellow-950/20 rounded-lg p-3 space-y-2">
+              <p className="text-[10px] font-bold uppercase tracking-wider text-yellow-400 flex items-center gap-1.5">
+                <Inbox className="w-3 h-3" /> Triage • {triage.length} unmapped {triage.length === 1 ? 'term' : 'terms'}
+              </p>
+              {triage.map(({ term, itemIds }) => (
+                <div key={term} className="flex items-center gap-2 text-xs">
+                  <span className="flex-1 font-mono text-yellow-200 truncate">{term}</span>
+                  <span className="text-slate-500 w-16 text-right">{itemIds.length} {itemIds.length === 1 ? 'item' : 'items'}</span>
+                  <select value="" onChange={(e) => e.target.value && handleMapTerm(term, e.target.value)} className={`${inputClass} w-56`}>
+                    <option value="">Map to…</option>
+                    <option value="new">+ New class "{term}"</option>
+                    {rows.map(({ defectClass }) => (
+                      <option key={defectClass.id} value={defectClass.id}>Synonym of {getClassPath(draft, defectClass)}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {rows.map(({ defectClass: c, depth }) => (
+              <div key={c.id} className="border border-slate-700 rounded-lg p-2 space-y-1.5 bg-black/20" style={{ marginLeft: depth * 24 }}>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={c.name}
+                    onChange={(e) => editClass(c.id, d => { d.name = e.target.value; })}
+                    placeholder="Class name"
+                    className={`${inputClass} w-44 font-bold`}
+                  />
+                  <select
+                    value={c.parentId ?? ''}
+                    onChange={(e) => editClass(c.id, d => { d.parentId = e.target.value || undefined; })}
+                    className={`${inputClass} w-40`}
+                    title="Parent class"
+                  >
+                    <option value="">Top level</option>
+                    {draft.classes
+                      .filter(p => p.id !== c.id && !getClassPath(draft, p).split(' › ').includes(c.name))
+                      .map(p => <option key={p.id} value={p.id}>Under {p.name}</option>)}
+                  </select>
+                  <div className="flex gap-1">
+                    {SEVERITIES.map(severity => {
+                      const isAllowed = c.allowedSeverities.includes(severity);
+                      return (
+                        <button
+                          key={severity}
+                          onClick={() => editClass(c.id, d => {
+                            d.allowedSeverities = isAllowed ? d.allowedSeverities.filter(s => s !== severity) : SEVERITIES.filter(s => s === severity || d.allowedSeverities.includes(s));
+                          })}
+                          className={`text-[10px] px-1.5 py-0.5 rounded border ${isAllowed ? 'border-cyan-500 text-cyan-200 bg-cyan-900/40' : 'border-slate-700 text-slate-600'}`}
+                          title="Allowed severity"
+                        >
+                          {severity}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <div className="flex-1" />
+                  <button onClick={() => handleRemove(c.id)} className="p-1 rounded text-slate-500 hover:text-red-400 hover:bg-slate-800 shrink-0" title="Remove class">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <input
+                    value={c.description}
+                    onChange={(e) => editClass(c.id, d => { d.description = e.target.value; })}
+                    placeholder="Description (shown to the model)"
+                    className={`${inputClass} flex-1`}
+                  />
+                  <SynonymsInput
+                    synonyms={c.synonyms}
+                    onChange={(synonyms) => editClass(c.id, d => { d.synonyms = synonyms; })}
+                    className={`${inputClass} flex-1`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => edit(d => { d.classes.push({ id: crypto.randomUUID(), name: '', description: '', synonyms: [], allowedSeverities: [...SEVERITIES] }); })}
+            className="text-[10px] text-cyan-400 hover:text-cyan-300 flex items-center gap-1 font-bold uppercase tracking-wider"
+          >
+            <Plus className="w-3 h-3" /> Class
+          </button>
+          {error && <p className="text-xs text-red-400 bg-red-950/30 border border-red-800 rounded p-2">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 space-y-2">
+          {relabelCount > 0 && (
+            <p className="text-xs text-slate-400 text-center">Saving rewrites the labels of {relabelCount} {relabelCount === 1 ? 'item' : 'items'} to their class names.</p>
+          )}
+          <button
+            onClick={handleSave}
+            className="w-full py-3 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            Save Taxonomy
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+import { ListTodo, X, CheckSquare, Square, Crosshair } from 'lucide-react';
+import { AngleChecklist, AngleRequest, GoalProgress, ProjectGoal } from '../types';
+import { getOutstandingAngles } from '../services/checklistService';
+
+interface DirectivesDrawerProps {
+  engineer: string;
+  onEngineerChange: (name: string) => void;
+  contextLabel: string;
+  goals: ProjectGoal[]; // Already filtered to the engineer, site and machine context
+  goalProgress: Record<string, GoalProgress>;
+  checklist: AngleChecklist | undefined;
+  targetAngle: string | null;
+  onSelectAngle: (angle: string | null) => void;
+  onToggleAngle: (request: AngleRequest) => void;
+  onClose: () => void;
+}
+
+export const DirectivesDrawer: React.FC<DirectivesDrawerProps> = ({
+  engineer, onEngineerChange, contextLabel, goals, goalProgress, checklist, targetAngle, onSelectAngle, onToggleAngle, onClose,
+}) => {
+  const outstanding = getOutstandingAngles(checklist);
+  // Only show the most recent covered angles; the full history stays in storage
+  const covered = (checklist?.angles.filter(a => a.fulfilledBy) ?? []).slice(-5).reverse();
+
+  return (
+    <div className="absolute inset-y-0 right-0 z-40 w-80 max-w-full flex flex-col bg-slate-900/95 backdrop-blur border-l border-indigo-500/40 shadow-2xl">
+      <div className="p-3 border-b border-slate-700 flex items-center justify-between">
+        <div>
+          <p className="text-xs font-bold text-indigo-300 tracking-wider flex items-center gap-2"><ListTodo className="w-4 h-4" /> DIRECTIVES</p>
+          <p className="text-[10px] font-mono text-slate-500 mt-0.5">{contextLabel}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-white"><X className="w-4 h-4" /></button>
+      </div>
+      <div className="p-3 border-b border-slate-800">
+        <input
+          value={engineer}
+          onChange={(e) => onEngineerChange(e.target.value)}
+          placeholder="Your name (for assigned directives)"
+          className="w-full bg-slate-800 border border-slate-600 text-white rounded px-2 py-1 text-xs focus:outline-none focus:border-indigo-500"
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        <div className="space-y-2">
+          {goals.length === 0 && <p className="text-xs text-slate-500 text-center py-3">No open directives for this component.</p>}
+          {goals.map(goal => {
+            const { currentCount } = goalProgress[goal.id];
+            const remaining = Math.max(0, goal.targetCount - currentCount);
+            return (
+              <div key={goal.id} className="bg-black/40 rounded-lg border border-slate-800 p-2">
+                <div className="flex justify-between items-start gap-2">
+                  <p className="text-xs font-bold text-slate-200">{goal.title}</p>
+                  <span className="text-[9px] font-mono uppercase text-slate-400 shrink-0">{goal.priority}</span>
+                </div>
+                <p className="text-[10px] text-slate-400 mt-0.5">{goal.description}</p>
+                <div className="flex items-center gap-2 mt-1.5">
+                  <div className="flex-1 h-1 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500" style={{ width: `${Math.min(100, (currentCount / goal.targetCount) * 100)}%` }} />
+                  </div>
+                  <span className="text-[10px] font-mono text-slate-300">{currentCount}/{goal.targetCount}</span>
+                </div>
+                <p className="text-[9px] font-mono text-slate-500 mt-1 flex justify-between">
+                  <span className={remaining > 0 ? 'text-indigo-300' : 'text-green-400'}>{remaining > 0 ? `${remaining} MORE NEEDED` : 'TARGET MET'}</span>
+                  <span>DUE {new Date(goal.deadline).toLocaleDateString()}</span>
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-orange-300">Missing Angles • {outstanding.length} outstanding</p>
+          {outstanding.length === 0 && <p className="text-xs text-slate-500">Nothing outstanding for this component.</p>}
+          {outstanding.map(request => {
+            const isTarget = targetAngle?.toLowerCase() === request.angle.toLowerCase();
+            return (
+              <div
+                key={`${request.requestedBy}-${request.angle}`}
+                className={`flex items-center gap-2 rounded-lg border p-2 ${isTarget ? 'border-orange-500 bg-orange-950/30' : 'border-slate-800 bg-black/40'}`}
+              >
+                <button onClick={() => onToggleAngle(request)} className="text-slate-500 hover:text-white" title="Mark as covered">
+                  <Square className="w-4 h-4" />
+                </button>
+                <span className="flex-1 text-xs text-slate-200">{request.angle}</span>
+                <button
+                  onClick={() => onSelectAngle(isTarget ? null : request.angle)}
+                  className={`text-[9px] font-mono font-bold px-2 py-1 rounded border flex items-center gap-1 ${isTarget ? 'border-orange-400 text-orange-300' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+                  title="The next saved capture covers this angle"
+                >
+                  <Crosshair className="w-3 h-3" /> {isTarget ? 'SHOOTING' : 'SHOOT'}
+                </button>
+              </div>
+            );
+          })}
+          {covered.map(request => (
+            <div key={`${request.requestedBy}-${request.angle}`} className="flex items-center gap-2 p-2 opacity-60">
+              <button onClick={() => onToggleAngle(request)} className="text-green-400 hover:text-white" title="Mark as outstanding again">
+                <CheckSquare className="w-4 h-4" />
+              </button>
+              <span className="flex-1 text-xs text-slate-400 line-through">{request.angle}</span>
+              <span className="text-[9px] font-mono text-slate-500">{request.fulfilledAt && new Date(request.fulfilledAt).toLocaleDateString()}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
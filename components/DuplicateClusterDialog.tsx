@@ -0,0 +1,103 @@
+import React from 'react';
+import { X, Copy, Trophy, Trash2, Layers, Split } from 'lucide-react';
+import { CapturedItem } from '../types';
+import { DuplicateCluster, hammingDistance, mergeCluster } from '../services/duplicateService';
+
+interface DuplicateClusterDialogProps {
+  cluster: DuplicateCluster;
+  onClose: () => void;
+  onUpdateItems: (items: CapturedItem[]) => void;
+  onDeleteItems: (ids: string[]) => void;
+}
+
+export const DuplicateClusterDialog: React.FC<DuplicateClusterDialogProps> = ({ cluster, onClose, onUpdateItems, onDeleteItems }) => {
+  const members = [cluster.representative, ...cluster.duplicates];
+  const duplicateIds = cluster.duplicates.map(d => d.id);
+
+  const handleKeepBest = () => {
+    if (!confirm(`Delete ${duplicateIds.length} near-duplicate(s) and keep the best capture?`)) return;
+    onDeleteItems(duplicateIds);
+    onClose();
+  };
+
+  const handleMerge = () => {
+    onUpdateItems([mergeCluster(cluster)]);
+    onDeleteItems(duplicateIds);
+    onClose();
+  };
+
+  const handleKeepAll = () => {
+    onUpdateItems(members.map(item => ({ ...item, distinctFromDuplicates: true })));
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-2xl max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Copy className="w-5 h-5 text-amber-400" />
+            Near-duplicate Cluster
+            <span className="text-xs font-mono text-slate-400">{members.length} captures</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto">
+          <p className="text-xs text-slate-400 mb-3">Only the best capture counts towards statistics, goals and exports until the cluster is resolved.</p>
+          <div className="grid grid-cols-3 gap-3">
+            {members.map(item => {
+              const isBest = item.id === cluster.representative.id;
+              return (
+                <div key={item.id} className={`rounded-lg border overflow-hidden bg-black ${isBest ? 'border-amber-400' : 'border-slate-700'}`}>
+                  <div className="relative aspect-square">
+                    <img src={item.imageUrl} alt={item.analysis?.defectType} className="w-full h-full object-cover" />
+                    {isBest && (
+                      <span className="absolute top-1.5 left-1.5 text-[9px] font-mono font-bold px-1.5 py-0.5 rounded bg-amber-500 text-black flex items-center gap-1">
+                        <Trophy className="w-3 h-3" /> BEST
+                      </span>
+                    )}
+                  </div>
+                  <div className="p-2 text-[10px] font-mono text-slate-400 space-y-0.5">
+                    <p className="text-slate-200 truncate">{item.analysis?.defectType ?? 'Awaiting analysis'} • {item.status}</p>
+                    <p>{new Date(item.timestamp).toLocaleString()}</p>
+                    <p>
+                      {item.quality ? `sharpness ${item.quality.sharpness}` : 'no quality scores'}
+                      {!isBest && item.phash && cluster.representative.phash && ` • Δ${hammingDistance(item.phash, cluster.representative.phash)} bits`}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 grid grid-cols-3 gap-2">
+          <button
+            onClick={handleKeepBest}
+            className="py-2.5 rounded-lg bg-amber-600 hover:bg-amber-500 text-white font-bold text-xs flex items-center justify-center gap-2"
+            title="Delete every capture except the one marked best"
+          >
+            <Trash2 className="w-4 h-4" /> Keep Best
+          </button>
+          <button
+            onClick={handleMerge}
+            className="py-2.5 rounded-lg border border-purple-500/60 text-purple-300 hover:bg-purple-950/40 font-bold text-xs flex items-center justify-center gap-2"
+            title="Keep the best capture's labels and attach every image to it as session views"
+          >
+            <Layers className="w-4 h-4" /> Merge
+          </button>
+          <button
+            onClick={handleKeepAll}
+            className="py-2.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-800 font-bold text-xs flex items-center justify-center gap-2"
+            title="These are different views; count each of them"
+          >
+            <Split className="w-4 h-4" /> Not Duplicates
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
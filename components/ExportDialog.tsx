@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { X, Download, PackageCheck } from 'lucide-react';
+import { CapturedItem, DatasetSnapshot } from '../types';
+import { buildDatasetArchive, EXPORT_FORMATS, ExportFormat } from '../services/exportService';
+import { downloadBlob } from '../services/zipService';
+import { DATASET_SPLITS } from '../services/splitService';
+
+interface ExportDialogProps {
+  items: CapturedItem[]; // Already restricted to the items eligible for export
+  excludedDuplicateCount?: number; // Approved near-duplicates left out in favour of their cluster's best capture
+  version?: DatasetSnapshot; // Set when exporting a saved dataset version instead of the working set
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ items, excludedDuplicateCount = 0, version, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('coco');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const archive = await buildDatasetArchive(items, format, version);
+      downloadBlob(archive.blob, archive.filename);
+      onClose();
+    } catch (e) {
+      console.error("Dataset export failed", e);
+      setError(e instanceof Error ? e.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-md shadow-2xl">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <PackageCheck className="w-5 h-5 text-cyan-400" />
+            Export Training Set
+            {version && <span className="text-xs font-mono text-slate-400 truncate max-w-[10rem]">{version.name}</span>}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-slate-400">
+            <span className="text-white font-mono">{items.length}</span> human-approved samples will be packaged with their images, labels and a metadata manifest.
+          </p>
+          {items.some(i => i.split) && (
+            <p className="text-[11px] text-slate-400 font-mono">
+              {DATASET_SPLITS.map(split => `${split} ${items.filter(i => i.split === split).length}`).join(' / ')}
+              {items.some(i => !i.split) && <span className="text-amber-300"> / {items.filter(i => !i.split).length} unassigned</span>}
+            </p>
+          )}
+          {items.some(i => i.session) && (
+            <p className="text-[11px] text-slate-400">
+              The other views of inspection sessions are added under session_views/ and listed with their session in the manifest; only the primary view is a training sample.
+            </p>
+          )}
+          {format === 'yolo' && items.some(i => i.split) && items.some(i => !i.split) && (
+            <p className="text-[11px] text-amber-300/80">data.yaml only lists train, val and test, so unassigned items are archived but not trained on. Rebuild the splits to include them.</p>
+          )}
+          {excludedDuplicateCount > 0 && (
+            <p className="text-[11px] text-amber-300/80">{excludedDuplicateCount} near-duplicate{excludedDuplicateCount === 1 ? ' is' : 's are'} left out; resolve clusters in the gallery to change this.</p>
+          )}
+          {EXPORT_FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setFormat(f.id)}
+              className={`w-full text-left p-3 rounded-lg border transition ${format === f.id ? 'bg-cyan-900/30 border-cyan-500' : 'bg-black/30 border-slate-800 hover:border-slate-600'}`}
+            >
+              <p className={`text-sm font-bold ${format === f.id ? 'text-cyan-300' : 'text-slate-200'}`}>{f.label}</p>
+              <p className="text-[11px] text-slate-500 mt-0.5">{f.description}</p>
+            </button>
+          ))}
+          {error && <p className="text-xs text-red-400 bg-red-950/30 border border-red-800 rounded p-2">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-800">
+          <button
+            onClick={handleExport}
+            disabled={isExporting || items.length === 0}
+            className="w-full py-3 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2"
+          >
+            {isExporting ? (
+              <>
+                <span className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                Packaging...
+              </>
+            ) : (
+              <>
+                <Download className="w-4 h-4" />
+                Download .zip
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,103 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Camera, RefreshCw, Upload, CheckCircle, AlertTriangle, ScanEye, Zap, MessageSquare, ChevronRight, Crosshair } from 'lucide-react';
-import { analyzeFieldImage, generateAugmentedOverlay, getPreCaptureGuidance } from '../services/geminiService';
-import { CapturedItem, AnalysisResult } from '../types';
+import { Camera, RefreshCw, Upload, CheckCircle, AlertTriangle, ScanEye, Zap, MessageSquare, ChevronRight, Crosshair, CloudOff, Clock, RotateCcw, ListTodo, QrCode, Lock, Unlock, Layers, Plus, X, ImagePlus, Gauge, Timer, Copy } from 'lucide-react';
+import { tryAnalyzeInspectionSession, generateAugmentedOverlay, getPreCaptureGuidance } from '../services/aiService';
+import { adoptAnalysisRecord } from '../services/analysisHistoryService';
+import { enqueueCapture, MAX_SYNC_ATTEMPTS } from '../services/syncQueue';
+import { getAssignedGoals, goalAppliesToContext } from '../services/goalService';
+import { checklistKey, getOutstandingAngles, toggleAngle } from '../services/checklistService';
+import {
+  AssetTagLock, contextToMetadata, describeContext, getMachineKey, isWithinTagLock, listAssetContexts, resolveAssetTag,
+} from '../services/assetService';
+import { createTagScanner } from '../services/tagScanService';
+import { preparePhotoUpload } from '../services/photoUploadService';
+import { getQualityIssues, measureSource, MIN_SHARPNESS } from '../services/qualityService';
+import { findNearDuplicates, hashImageUrl } from '../services/duplicateService';
+import { normalizeAnalysisResult } from '../services/taxonomyService';
+import { AUTO_CAPTURE_DELAYS_MS, AutoCaptureStep, DEFAULT_AUTO_CAPTURE_DELAY_MS, frameSignature, INITIAL_AUTO_CAPTURE_STATE, stepAutoCapture } from '../services/autoCaptureService';
+import { DirectivesDrawer } from './DirectivesDrawer';
+import { AngleChecklist, AssetRegistry, CapturedItem, AnalysisRecord, DefectTaxonomy, GoalProgress, ProjectGoal, QualityMetrics, SessionShot, SyncStatus } from '../types';
 
 interface FieldViewProps {
   onCapture: (item: CapturedItem) => void;
   onOpenChat: () => void;
+  items: CapturedItem[]; // The whole dataset, to flag re-shoots of views already captured
+  syncItems: CapturedItem[]; // Captures that went through the offline analysis queue
+  onRetrySync: (id: string) => void;
+  goals: ProjectGoal[];
+  goalProgress: Record<string, GoalProgress>;
+  checklists: Record<string, AngleChecklist>;
+  onUpdateChecklist: (checklist: AngleChecklist) => void;
+  assetRegistry: AssetRegistry;
+  defectTaxonomy: DefectTaxonomy;
 }
 
-export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) => {
+const ENGINEER_STORAGE_KEY = 'fb-engineer-name';
+const CONTEXT_STORAGE_KEY = 'fb-field-context';
+const TAG_SCAN_INTERVAL_MS = 400;
+const QUALITY_GATE_STORAGE_KEY = 'fb-quality-gate';
+const QUALITY_INTERVAL_MS = 250;
+const AUTO_CAPTURE_DELAY_STORAGE_KEY = 'fb-auto-capture-delay';
+const AUTO_CAPTURE_INTERVAL_MS = 200;
+
+// Views offered for every inspection session, ahead of the component's outstanding angles
+const SESSION_VIEWS = ['Close-up', 'Wide shot'];
+
+// Stamped on captures when the registry is empty, so nothing is attributed to a wrong asset
+const UNASSIGNED_METADATA: CapturedItem['metadata'] = { machineId: 'Unassigned', component: 'Unassigned', location: 'Unassigned' };
+
+const SYNC_BADGES: Record<SyncStatus, { label: string; className: string }> = {
+  queued: { label: 'QUEUED', className: 'text-yellow-400 border-yellow-500/50' },
+  analyzing: { label: 'ANALYZING', className: 'text-cyan-400 border-cyan-500/50 animate-pulse' },
+  done: { label: 'DONE', className: 'text-green-400 border-green-500/50' },
+  failed: { label: 'FAILED', className: 'text-red-400 border-red-500/50' },
+};
+
+export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat, items, syncItems, onRetrySync, goals, goalProgress, checklists, onUpdateChecklist, assetRegistry, defectTaxonomy }) => {
   const [stream, setStream] = useState<MediaStream | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [annotatedImage, setAnnotatedImage] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [isAugmenting, setIsAugmenting] = useState(false);
-  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
-  const [machineContext, setMachineContext] = useState("Fuselage - Section 4A"); // Default to an aircraft part
+  const [analysisRecord, setAnalysisRecord] = useState<AnalysisRecord | null>(null);
+  const analysis = analysisRecord && normalizeAnalysisResult(defectTaxonomy, analysisRecord.result);
+  const [contextKey, setContextKey] = useState(() => localStorage.getItem(CONTEXT_STORAGE_KEY) || '');
+  
+  // Directives assigned to this engineer
+  const [engineer, setEngineer] = useState(() => localStorage.getItem(ENGINEER_STORAGE_KEY) || '');
+  const [isDirectivesOpen, setIsDirectivesOpen] = useState(false);
+  const [targetAngle, setTargetAngle] = useState<string | null>(null);
   
+  // Asset Tag Scanning State
+  const [isScanMode, setIsScanMode] = useState(false);
+  const [tagLock, setTagLock] = useState<AssetTagLock | null>(null);
+  const [unknownTag, setUnknownTag] = useState<string | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const handleScannedTagRef = useRef<(tagId: string) => void>(() => {});
+
+  // Multi-shot Inspection Session State: earlier views of the defect, the current capture is the next one
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionShots, setSessionShots] = useState<SessionShot[]>([]);
+
+  // Device Photo Upload State
+  const [uploadProgress, setUploadProgress] = useState<{ done: number; total: number; failed: number } | null>(null);
+
+  // On-device Quality State: measured locally on every sampled frame, no AI call involved
+  const [liveQuality, setLiveQuality] = useState<QualityMetrics | null>(null);
+  const liveQualityRef = useRef<QualityMetrics | null>(null);
+  const [capturedQuality, setCapturedQuality] = useState<QualityMetrics | null>(null);
+  const [isQualityGateOn, setIsQualityGateOn] = useState(() => localStorage.getItem(QUALITY_GATE_STORAGE_KEY) === 'on');
+
+  // Perceptual hash of the current capture, compared against the dataset
+  const [capturedHash, setCapturedHash] = useState<string | null>(null);
+
+  // Auto-capture State: the shutter fires itself once the view has been steady for the delay
+  const [isAutoCapture, setIsAutoCapture] = useState(false);
+  const [autoCaptureDelayMs, setAutoCaptureDelayMs] = useState(() => Number(localStorage.getItem(AUTO_CAPTURE_DELAY_STORAGE_KEY)) || DEFAULT_AUTO_CAPTURE_DELAY_MS);
+  const [autoCaptureStep, setAutoCaptureStep] = useState<AutoCaptureStep | null>(null);
+  const lastCaptureSignatureRef = useRef<Uint8Array | null>(null);
+  const handleCaptureRef = useRef<() => void>(() => {});
+
   // AR Guidance State
   const [isGuidanceActive, setIsGuidanceActive] = useState(false);
   const [guidanceMessages, setGuidanceMessages] = useState<string[]>([]);
@@ -41,10 +121,65 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
     };
   }, [capturedImage]);
 
+  // On-device Quality Loop
+  useEffect(() => {
+      if (capturedImage) return;
+      const intervalId = window.setInterval(() => {
+          const video = videoRef.current;
+          if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+          const metrics = measureSource(video, video.videoWidth, video.videoHeight);
+          liveQualityRef.current = metrics;
+          setLiveQuality(metrics);
+      }, QUALITY_INTERVAL_MS);
+      return () => {
+          window.clearInterval(intervalId);
+          liveQualityRef.current = null;
+          setLiveQuality(null);
+      };
+  }, [capturedImage]);
+
+  // Near-duplicate Check
+  useEffect(() => {
+      setCapturedHash(null);
+      if (!capturedImage) return;
+      let cancelled = false;
+      hashImageUrl(capturedImage)
+          .then(hash => { if (!cancelled) setCapturedHash(hash); })
+          .catch(err => console.error("Failed to hash capture", err));
+      return () => { cancelled = true; };
+  }, [capturedImage]);
+
+  // Auto-capture Loop
+  useEffect(() => {
+      if (!isAutoCapture || capturedImage || isScanMode) return;
+      let state = INITIAL_AUTO_CAPTURE_STATE;
+      const intervalId = window.setInterval(() => {
+          const video = videoRef.current;
+          if (!video || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return;
+          const signature = frameSignature(video);
+          if (!signature) return;
+          const quality = liveQualityRef.current;
+          const step = stepAutoCapture(
+              state,
+              { signature, passesQuality: !!quality && getQualityIssues(quality).length === 0, now: Date.now() },
+              { delayMs: autoCaptureDelayMs, lastCaptured: lastCaptureSignatureRef.current },
+          );
+          state = step.state;
+          setAutoCaptureStep(step);
+          if (step.phase === 'fire') handleCaptureRef.current();
+      }, AUTO_CAPTURE_INTERVAL_MS);
+      return () => {
+          window.clearInterval(intervalId);
+          setAutoCaptureStep(null);
+      };
+  }, [isAutoCapture, capturedImage, isScanMode, autoCaptureDelayMs]);
+
   // Handle AR Guidance Loop
   useEffect(() => {
       if (isGuidanceActive && !capturedImage) {
           const scanFrame = async () => {
+              // Problems the device can see itself are shown from the local metrics; only ask the model about clean frames
+              if (liveQualityRef.current && getQualityIssues(liveQualityRef.current).length > 0) return;
               if (videoRef.current) {
                   const canvas = document.createElement('canvas');
                   // Use lower res for speed
@@ -73,6 +208,44 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
       };
   }, [isGuidanceActive, capturedImage]);
 
+  // Asset Tag Scan Loop
+  useEffect(() => {
+      if (!isScanMode || capturedImage) return;
+      let cancelled = false;
+      let intervalId: number | undefined;
+
+      const startScanning = async () => {
+          const scanner = await createTagScanner().catch(() => null);
+          if (cancelled) return;
+          if (!scanner) {
+              setScanError('Tag scanning is not supported on this device. Pick the asset manually.');
+              setIsScanMode(false);
+              return;
+          }
+          let isBusy = false;
+          intervalId = window.setInterval(async () => {
+              if (isBusy || !videoRef.current) return;
+              isBusy = true;
+              try {
+                  const tagId = await scanner.scan(videoRef.current);
+                  if (!tagId || cancelled) return;
+                  handleScannedTagRef.current(tagId);
+              } catch (err) {
+                  console.error("Tag scan failed", err);
+              } finally {
+                  isBusy = false;
+              }
+          }, TAG_SCAN_INTERVAL_MS);
+      };
+
+      setScanError(null);
+      startScanning();
+      return () => {
+          cancelled = true;
+          if (intervalId) window.clearInterval(intervalId);
+      };
+  }, [isScanMode, capturedImage]);
+
   const handleCapture = () => {
     if (videoRef.current) {
       const canvas = document.createElement('canvas');
@@ -81,26 +254,65 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
       const ctx = canvas.getContext('2d');
       ctx?.drawImage(videoRef.current, 0, 0);
       const dataUrl = canvas.toDataURL('image/jpeg');
+      setCapturedQuality(measureSource(canvas, canvas.width, canvas.height));
+      lastCaptureSignatureRef.current = frameSignature(canvas);
       setCapturedImage(dataUrl);
       setIsGuidanceActive(false); // Turn off guidance
       // Stop stream to save battery/resources
       stream?.getTracks().forEach(track => track.stop());
     }
   };
+  // The auto-capture loop outlives renders, so it calls the latest handler through a ref
+  handleCaptureRef.current = handleCapture;
+
+  // All views of the inspection, the current capture last
+  const getShots = (imageUrl: string): SessionShot[] => [
+    ...sessionShots,
+    { id: crypto.randomUUID(), imageUrl, timestamp: Date.now(), angle: targetAngle || undefined, quality: capturedQuality ?? undefined },
+  ];
+
+  // Keeps the current capture as one view of the session and returns to the camera for the next
+  const handleAddView = () => {
+    if (!capturedImage) return;
+    setSessionShots(getShots(capturedImage));
+    setSessionId(prev => prev ?? crypto.randomUUID());
+    setTargetAngle(null);
+    handleReset();
+  };
+
+  const handleCancelSession = () => {
+    setSessionShots([]);
+    setSessionId(null);
+  };
 
   const handleAnalyze = async () => {
     if (!capturedImage) return;
     setIsAnalyzing(true);
-    setAnalysis(null);
+    setAnalysisRecord(null);
     setAnnotatedImage(null);
 
-    const base64 = capturedImage.split(',')[1];
-    const result = await analyzeFieldImage(base64, machineContext);
+    // The whole session is analyzed in one call; the overlay is drawn on the primary view
+    const images = getShots(capturedImage).map(shot => shot.imageUrl.split(',')[1]);
+    const base64 = images[0];
+    if (!navigator.onLine) {
+      handleQueue("Device offline");
+      return;
+    }
+
+    let record: AnalysisRecord;
+    try {
+      record = await tryAnalyzeInspectionSession(images, machineContext);
+    } catch (error) {
+      console.error("Analysis failed, queuing capture", error);
+      handleQueue(error instanceof Error ? error.message : String(error));
+      return;
+    }
     
-    setAnalysis(result);
+    setAnalysisRecord(record);
     setIsAnalyzing(false);
 
     // Auto-trigger augmentation if defect found
+    const result = normalizeAnalysisResult(defectTaxonomy, record.result);
     if (result.defectType !== 'None' && result.isQualitySufficient) {
       handleAugment(base64, result.defectType);
     }
@@ -113,39 +325,158 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
     setIsAugmenting(false);
   };
 
+  // The remembered selection may have been removed from the registry; fall back to the first asset
+  const assetContexts = listAssetContexts(assetRegistry);
+  const assetContext = assetContexts.find(c => c.key === contextKey) ?? assetContexts[0];
+  // A scanned tag only vouches for the machine, or component, it resolved to
+  const lockedTagId = tagLock && assetContext && isWithinTagLock(tagLock, assetContext) ? tagLock.tagId : undefined;
+  // A machine tag still lets the engineer pick which of its components they are looking at
+  const lockedMachineKey = lockedTagId && !tagLock!.componentKey ? tagLock!.machineKey : undefined;
+  const contextMetadata = assetContext ? { ...contextToMetadata(assetContext), tagId: lockedTagId } : UNASSIGNED_METADATA;
+  const machineContext = assetContext ? describeContext(assetContext) : 'No asset selected';
+
+  const handleContextChange = (key: string) => {
+    setContextKey(key);
+    localStorage.setItem(CONTEXT_STORAGE_KEY, key);
+    setTargetAngle(null);
+  };
+
+  const handleScannedTag = (tagId: string) => {
+    const resolved = resolveAssetTag(assetRegistry, tagId, assetContext?.key);
+    if (resolved) {
+      handleContextChange(resolved.context.key);
+      setTagLock(resolved.lock);
+      setUnknownTag(null);
+      setIsScanMode(false);
+    } else {
+      setUnknownTag(tagId);
+    }
+  };
+  // The scan loop outlives renders, so it resolves tags against the current registry and selection through a ref
+  handleScannedTagRef.current = handleScannedTag;
+
+  // A session is saved as one item: the first view is its image, every view is kept as a shot
+  const buildCapturedItem = (imageUrl: string, record: AnalysisRecord | null): CapturedItem => {
+    const shots = getShots(imageUrl);
+    const [primary] = shots;
+    const item: CapturedItem = {
+      id: crypto.randomUUID(),
+      timestamp: Date.now(),
+      imageUrl: primary.imageUrl,
+      annotatedImageUrl: annotatedImage || undefined,
+      analysis: null,
+      status: 'pending',
+      contextPrompt: machineContext,
+      session: shots.length > 1 ? { id: sessionId ?? crypto.randomUUID(), shots } : undefined,
+      quality: primary.quality,
+      // Session primaries are earlier shots; the app hashes those after saving
+      phash: shots.length === 1 ? capturedHash ?? undefined : undefined,
+      metadata: {
+        ...contextMetadata,
+        angle: primary.angle
+      }
+    };
+    return record ? adoptAnalysisRecord(item, record, defectTaxonomy) : item;
+  };
+
   const handleSave = () => {
-    if (capturedImage && analysis) {
-      // Determine component based on context selection for the demo
-      let component = 'Fuselage';
-      if (machineContext.includes('Wing')) component = 'Wing';
-      if (machineContext.includes('Engine')) component = 'Engine';
-      if (machineContext.includes('Tail')) component = 'Tail';
-
-      const newItem: CapturedItem = {
-        id: crypto.randomUUID(),
-        timestamp: Date.now(),
-        imageUrl: capturedImage,
-        annotatedImageUrl: annotatedImage || undefined,
-        analysis,
-        status: analysis.isQualitySufficient ? 'approved' : 'pending',
-        metadata: {
-          machineId: 'B787-X',
-          component: component,
-          location: 'Hangar 1'
-        }
-      };
-      onCapture(newItem);
-      handleReset();
+    if (capturedImage && analysisRecord) {
+      handleCaptureSaved(buildCapturedItem(capturedImage, analysisRecord));
     }
   };
 
+  // Save without analysis; the sync queue analyzes it once the backend is reachable
+  const handleQueue = (reason?: string) => {
+    if (!capturedImage) return;
+    handleCaptureSaved(enqueueCapture(buildCapturedItem(capturedImage, null), reason));
+  };
+
   const handleReset = () => {
     setCapturedImage(null);
-    setAnalysis(null);
+    setCapturedQuality(null);
+    setAnalysisRecord(null);
     setAnnotatedImage(null);
+    setIsAnalyzing(false);
     setIsGuidanceActive(false);
   };
 
+  // Saving a capture ticks off the targeted angle, so stop targeting it
+  const handleCaptureSaved = (item: CapturedItem) => {
+    onCapture(item);
+    setTargetAngle(null);
+    handleCancelSession();
+    handleReset();
+  };
+
+  // Existing photos go straight to the sync queue under the current context, keeping their EXIF capture time
+  const handleUploadPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    let failed = 0;
+    setUploadProgress({ done: 0, total: files.length, failed });
+    for (const [index, file] of files.entries()) {
+      try {
+        const photo = await preparePhotoUpload(file);
+        onCapture(enqueueCapture({
+          id: crypto.randomUUID(),
+          timestamp: photo.timestamp,
+          imageUrl: photo.imageUrl,
+          analysis: null,
+          status: 'pending',
+          contextPrompt: machineContext,
+          exif: photo.exif,
+          quality: photo.quality ?? undefined,
+          // A scanned tag proves where the engineer stands now, not where the photos were taken
+          metadata: { ...contextMetadata, tagId: undefined },
+        }));
+      } catch (error) {
+        console.error(`Failed to read ${file.name}`, error);
+        failed++;
+      }
+      setUploadProgress({ done: index + 1, total: files.length, failed });
+    }
+    // Leave a failure count on screen until the next upload; clear clean runs after a moment
+    if (failed === 0) window.setTimeout(() => setUploadProgress(null), 2000);
+  };
+
+  const handleCycleAutoCaptureDelay = () => {
+    const next = AUTO_CAPTURE_DELAYS_MS[(AUTO_CAPTURE_DELAYS_MS.indexOf(autoCaptureDelayMs) + 1) % AUTO_CAPTURE_DELAYS_MS.length];
+    setAutoCaptureDelayMs(next);
+    localStorage.setItem(AUTO_CAPTURE_DELAY_STORAGE_KEY, String(next));
+  };
+
+  const handleToggleQualityGate = () => {
+    setIsQualityGateOn(prev => {
+      localStorage.setItem(QUALITY_GATE_STORAGE_KEY, prev ? 'off' : 'on');
+      return !prev;
+    });
+  };
+
+  const handleEngineerChange = (name: string) => {
+    setEngineer(name);
+    localStorage.setItem(ENGINEER_STORAGE_KEY, name);
+  };
+
+  const contextGoals = getAssignedGoals(goals, engineer, [contextMetadata.location, contextMetadata.site ?? '']).filter(goal => goalAppliesToContext(goal, contextMetadata));
+  const checklist = checklists[checklistKey(contextMetadata)];
+  const outstandingAngleCount = getOutstandingAngles(checklist).length;
+
+  const sessionViews = [...new Set([...SESSION_VIEWS, ...getOutstandingAngles(checklist).map(a => a.angle)])]
+    .filter(view => !sessionShots.some(shot => shot.angle?.toLowerCase() === view.toLowerCase()));
+
+  const liveIssues = liveQuality ? getQualityIssues(liveQuality) : [];
+  const isShutterGated = isQualityGateOn && liveIssues.length > 0;
+  // Local findings are instant; the model's guidance only covers frames that pass them
+  const hudMessages = liveIssues.length > 0 ? liveIssues : guidanceMessages;
+  const capturedIssues = capturedQuality ? getQualityIssues(capturedQuality) : [];
+
+  const nearDuplicates = capturedHash ? findNearDuplicates(capturedHash, items) : [];
+
+  const recentSyncItems = syncItems.slice(-4).reverse();
+  const outstandingSyncCount = syncItems.filter(i => i.sync?.status !== 'done').length;
+
   return (
     <div className="flex flex-col h-full bg-slate-900 text-slate-100">
       {/* Header */}
@@ -153,8 +484,30 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
         <div>
           <h2 className="text-lg font-semibold text-orange-400 tracking-tight">FIELD OPS // CAPTURE</h2>
           <p className="text-xs text-slate-400 font-mono">{machineContext}</p>
+          <p className="text-[10px] text-slate-500 font-mono flex items-center gap-2">
+            {[contextMetadata.site, contextMetadata.location].filter(Boolean).join(' / ')}
+            {lockedTagId && (
+              <button 
+                onClick={() => setTagLock(null)}
+                className="flex items-center gap-1 text-green-400 border border-green-500/50 rounded px-1.5 hover:bg-green-950/40"
+                title="Unlock context"
+              >
+                <Lock className="w-3 h-3" /> TAG {lockedTagId} <Unlock className="w-3 h-3 opacity-60" />
+              </button>
+            )}
+          </p>
         </div>
         <div className="flex items-center space-x-3">
+            <button 
+                onClick={() => setIsDirectivesOpen(prev => !prev)}
+                className={`p-2 rounded-full relative ${isDirectivesOpen ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600 text-indigo-300'}`}
+                title="Collection directives"
+            >
+                <ListTodo className="w-5 h-5" />
+                {contextGoals.length + outstandingAngleCount > 0 && (
+                    <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 bg-indigo-500 text-white text-[9px] font-bold rounded-full flex items-center justify-center">{contextGoals.length + outstandingAngleCount}</span>
+                )}
+            </button>
             <button 
                 onClick={onOpenChat}
                 className="p-2 rounded-full bg-slate-700 hover:bg-slate-600 text-cyan-400 relative"
@@ -163,20 +516,122 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
                 <span className="absolute top-0 right-0 w-2 h-2 bg-red-500 rounded-full animate-ping" />
             </button>
            <select 
-            value={machineContext}
-            onChange={(e) => setMachineContext(e.target.value)}
+            value={assetContext?.key ?? ''}
+            onChange={(e) => handleContextChange(e.target.value)}
+            disabled={!assetContext || (!!lockedTagId && !lockedMachineKey) || sessionShots.length > 0}
+            title={
+              lockedMachineKey ? 'Limited to the scanned machine'
+                : lockedTagId ? 'Locked by scanned tag'
+                : sessionShots.length > 0 ? 'Finish or cancel the inspection session first'
+                : undefined
+            }
             className="bg-slate-700 text-xs rounded px-2 py-1 border border-slate-600 outline-none max-w-[150px]"
            >
-             <option>Fuselage - Section 4A</option>
-             <option>Left Wing - Flap Track</option>
-             <option>Right Engine - Intake</option>
-             <option>Tail - Vertical Stabilizer</option>
+             {!assetContext && <option value="">No assets registered</option>}
+             {assetRegistry.sites.flatMap(site => site.areas.flatMap(area => area.machines
+               .filter(machine => !lockedMachineKey || getMachineKey({ site, area, machine }) === lockedMachineKey)
+               .map(machine => (
+               <optgroup key={getMachineKey({ site, area, machine })} label={`${site.name} / ${area.name} / ${machine.name} (${machine.id})`}>
+                 {assetContexts
+                   .filter(c => c.site === site && c.area === area && c.machine === machine)
+                   .map(c => <option key={c.key} value={c.key}>{c.component.name}</option>)}
+               </optgroup>
+             ))))}
            </select>
         </div>
       </div>
 
       {/* Main Viewport */}
       <div className="flex-1 relative overflow-hidden bg-black flex items-center justify-center">
+        {/* Collection Directives */}
+        {isDirectivesOpen && (
+            <DirectivesDrawer 
+                engineer={engineer}
+                onEngineerChange={handleEngineerChange}
+                contextLabel={machineContext}
+                goals={contextGoals}
+                goalProgress={goalProgress}
+                checklist={checklist}
+                targetAngle={targetAngle}
+                onSelectAngle={setTargetAngle}
+                onToggleAngle={(request) => checklist && onUpdateChecklist(toggleAngle(checklist, request))}
+                onClose={() => setIsDirectivesOpen(false)}
+            />
+        )}
+
+        {/* Inspection Session */}
+        {sessionShots.length > 0 && (
+            <div className="absolute bottom-4 left-4 z-30 max-w-[60%] bg-black/70 backdrop-blur p-2 rounded-lg border border-purple-500/50 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                    <p className="text-[10px] font-mono font-bold text-purple-300 tracking-wider flex items-center gap-1.5">
+                        <Layers className="w-3 h-3" /> SESSION • {sessionShots.length + (capturedImage ? 1 : 0)} VIEWS
+                    </p>
+                    <button onClick={handleCancelSession} className="text-slate-400 hover:text-red-400" title="Discard all views of this session">
+                        <X className="w-3 h-3" />
+                    </button>
+                </div>
+                <div className="flex gap-1.5 overflow-x-auto">
+                    {sessionShots.map((shot, idx) => (
+                        <div key={shot.id} className="shrink-0 w-12">
+                            <img src={shot.imageUrl} alt={shot.angle || `View ${idx + 1}`} className="w-12 h-12 object-cover rounded border border-slate-600" />
+                            <p className="text-[8px] font-mono text-slate-400 truncate mt-0.5">{shot.angle || `VIEW ${idx + 1}`}</p>
+                        </div>
+                    ))}
+                </div>
+                {!capturedImage && sessionViews.length > 0 && (
+                    <div className="flex flex-wrap gap-1">
+                        {sessionViews.map(view => (
+                            <button 
+                                key={view}
+                                onClick={() => setTargetAngle(targetAngle === view ? null : view)}
+                                className={`text-[9px] font-mono px-1.5 py-0.5 rounded border ${targetAngle === view ? 'border-orange-400 text-orange-300' : 'border-slate-600 text-slate-400 hover:text-white'}`}
+                            >
+                                {view}
+                            </button>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Offline Sync Queue */}
+        {recentSyncItems.length > 0 && (
+            <div className="absolute top-4 left-4 z-30 flex flex-col gap-2 w-56">
+                <div className="bg-black/70 backdrop-blur px-3 py-1.5 rounded-lg border border-slate-700 flex items-center gap-2">
+                    <CloudOff className="w-3 h-3 text-orange-400" />
+                    <p className="text-[10px] font-mono text-slate-300 tracking-wider">SYNC QUEUE • {outstandingSyncCount} OUTSTANDING</p>
+                </div>
+                {recentSyncItems.map(item => {
+                    const sync = item.sync!;
+                    const badge = SYNC_BADGES[sync.status];
+                    return (
+                        <div key={item.id} className="bg-black/70 backdrop-blur p-1.5 rounded-lg border border-slate-700 flex items-center gap-2">
+                            <img src={item.imageUrl} alt="Queued capture" className="w-9 h-9 object-cover rounded bg-slate-800" />
+                            <div className="min-w-0 flex-1">
+                                <span className={`text-[9px] font-mono font-bold px-1.5 py-0.5 rounded border ${badge.className}`}>{badge.label}</span>
+                                <p className="text-[10px] text-slate-400 truncate mt-1" title={sync.lastError}>
+                                    {sync.status === 'done' && item.analysis ? item.analysis.defectType
+                                      : sync.status === 'queued' && sync.attempts > 0 ? `Retry ${sync.attempts}/${MAX_SYNC_ATTEMPTS}`
+                                      : sync.status === 'failed' ? sync.lastError || 'Analysis failed'
+                                      : item.contextPrompt}
+                                </p>
+                            </div>
+                            {sync.status === 'queued' && <Clock className="w-3 h-3 text-yellow-400 shrink-0" />}
+                            {sync.status === 'failed' && (
+                                <button 
+                                    onClick={() => onRetrySync(item.id)}
+                                    className="p-1 rounded bg-slate-800 hover:bg-slate-700 text-red-300 shrink-0"
+                                    title="Retry analysis"
+                                >
+                                    <RotateCcw className="w-3 h-3" />
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+
         {!capturedImage ? (
           <>
             <video 
@@ -194,20 +649,62 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
                 <div className="absolute inset-0 flex items-center justify-center">
                     <Crosshair className="w-8 h-8 text-white/30" />
                 </div>
+                {targetAngle && (
+                    <div className="absolute top-8 inset-x-0 flex justify-center">
+                        <p className="bg-black/60 backdrop-blur px-3 py-1 rounded-full border border-orange-500/60 text-orange-300 text-[10px] font-mono font-bold tracking-wider">SHOOTING: {targetAngle.toUpperCase()}</p>
+                    </div>
+                )}
             </div>
 
+            {/* On-device Quality Meters */}
+            {liveQuality && (
+                <div className="absolute top-4 right-4 z-20 w-36 bg-black/60 backdrop-blur p-2 rounded-lg border border-slate-700 space-y-1 pointer-events-none">
+                    <p className={`text-[9px] font-mono font-bold tracking-wider flex items-center gap-1 ${liveIssues.length ? 'text-red-300' : 'text-green-400'}`}>
+                        <Gauge className="w-3 h-3" /> {liveIssues.length ? liveIssues[0].toUpperCase() : 'QUALITY OK'}
+                    </p>
+                    {[
+                        { label: 'SHARP', value: Math.min(1, liveQuality.sharpness / (MIN_SHARPNESS * 3)), ok: !liveIssues.includes('Hold Steady') },
+                        { label: 'EXPOSE', value: liveQuality.meanLuma / 255, ok: !liveIssues.includes('Too Dark') && !liveIssues.includes('Too Bright') },
+                        { label: 'GLARE', value: Math.min(1, liveQuality.glare * 10), ok: !liveIssues.includes('Avoid Glare') },
+                        { label: 'FILL', value: liveQuality.subjectFill, ok: !liveIssues.includes('Move Closer') },
+                    ].map(meter => (
+                        <div key={meter.label} className="flex items-center gap-1.5">
+                            <span className="text-[8px] font-mono text-slate-400 w-10">{meter.label}</span>
+                            <div className="flex-1 h-1 bg-slate-800 rounded-full overflow-hidden">
+                                <div className={`h-full ${meter.ok ? 'bg-green-500' : 'bg-red-500'}`} style={{ width: `${Math.round(meter.value * 100)}%` }} />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Auto-capture Countdown */}
+            {autoCaptureStep && autoCaptureStep.phase !== 'fire' && (
+                <div className="absolute inset-x-0 bottom-56 flex justify-center pointer-events-none z-20">
+                    {autoCaptureStep.phase === 'counting' ? (
+                        <div className="w-20 h-20 rounded-full border-4 border-orange-400 bg-black/50 backdrop-blur flex items-center justify-center">
+                            <p className="text-3xl font-bold font-mono text-orange-300">{Math.ceil((autoCaptureStep.remainingMs ?? 0) / 1000)}</p>
+                        </div>
+                    ) : (
+                        <p className="bg-black/60 backdrop-blur px-4 py-1 rounded-full border border-orange-500/50 text-orange-300 text-xs font-mono">
+                            {autoCaptureStep.phase === 'moving' ? 'AUTO: HOLD STILL' : autoCaptureStep.phase === 'quality' ? 'AUTO: WAITING FOR A CLEAN FRAME' : 'AUTO: SAME VIEW AS LAST CAPTURE, CHANGE ANGLE'}
+                        </p>
+                    )}
+                </div>
+            )}
+
             {/* AR Guidance Messages */}
             {isGuidanceActive && (
                 <div className="absolute top-1/4 left-0 right-0 flex flex-col items-center space-y-2 pointer-events-none z-20">
                     <div className="bg-black/60 backdrop-blur px-4 py-1 rounded-full border border-cyan-500/50">
                         <p className="text-cyan-400 text-xs font-mono animate-pulse">AI SCANNING ACTIVE...</p>
                     </div>
-                    {guidanceMessages.map((msg, idx) => (
+                    {hudMessages.map((msg, idx) => (
                         <div key={idx} className="bg-red-500/80 backdrop-blur px-6 py-2 rounded-lg border border-red-400 shadow-lg animate-bounce">
                             <p className="text-white font-bold tracking-wide uppercase">{msg}</p>
                         </div>
                     ))}
-                    {guidanceMessages.length === 0 && (
+                    {hudMessages.length === 0 && (
                          <div className="bg-green-500/80 backdrop-blur px-6 py-2 rounded-lg border border-green-400 shadow-lg">
                             <p className="text-white font-bold tracking-wide uppercase">SCENE CLEAR</p>
                         </div>
@@ -215,26 +712,102 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
                 </div>
             )}
             
+            {/* Asset Tag Scanning */}
+            {isScanMode && (
+                <div className="absolute inset-0 pointer-events-none flex flex-col items-center justify-center gap-4 z-20">
+                    <div className="w-56 h-56 border-2 border-green-400/80 rounded-lg shadow-[0_0_20px_rgba(74,222,128,0.4)] animate-pulse" />
+                    <p className="bg-black/60 backdrop-blur px-4 py-1 rounded-full border border-green-500/50 text-green-400 text-xs font-mono">POINT AT ASSET TAG (QR / DATAMATRIX)</p>
+                </div>
+            )}
+            {unknownTag && (
+                <div className="absolute top-16 inset-x-0 flex justify-center z-30">
+                    <div className="bg-red-950/90 backdrop-blur px-4 py-2 rounded-lg border border-red-500 flex items-center gap-3 shadow-lg">
+                        <AlertTriangle className="w-4 h-4 text-red-400" />
+                        <p className="text-xs text-red-200">Unknown tag <span className="font-mono font-bold">{unknownTag}</span> is not in the asset registry</p>
+                        <button onClick={() => setUnknownTag(null)} className="text-red-300 hover:text-white text-xs font-bold">DISMISS</button>
+                    </div>
+                </div>
+            )}
+            {scanError && (
+                <div className="absolute top-16 inset-x-0 flex justify-center z-30">
+                    <p onClick={() => setScanError(null)} className="bg-slate-900/90 px-4 py-2 rounded-lg border border-yellow-500/50 text-yellow-300 text-xs cursor-pointer">{scanError}</p>
+                </div>
+            )}
+
             {/* Camera Controls */}
             <div className="absolute bottom-10 inset-x-0 flex flex-col items-center gap-6">
-                <button 
-                    onClick={() => setIsGuidanceActive(!isGuidanceActive)}
-                    className={`px-4 py-2 rounded-full text-xs font-bold border flex items-center gap-2 backdrop-blur transition-all ${
-                        isGuidanceActive 
-                        ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300' 
+                <div className="flex gap-2">
+                    <button 
+                        onClick={() => { setIsScanMode(prev => !prev); setUnknownTag(null); }}
+                        disabled={sessionShots.length > 0}
+                        className={`px-4 py-2 rounded-full text-xs font-bold border flex items-center gap-2 backdrop-blur transition-all ${
+                            isScanMode 
+                            ? 'bg-green-500/20 border-green-400 text-green-300' 
+                            : 'bg-slate-900/40 border-slate-500 text-slate-300'
+                        } disabled:opacity-40`}
+                    >
+                        <QrCode className="w-4 h-4" />
+                        {isScanMode ? 'SCANNING TAG...' : 'SCAN TAG'}
+                    </button>
+                    <div className={`rounded-full text-xs font-bold border flex items-center backdrop-blur transition-all ${
+                        isAutoCapture 
+                        ? 'bg-orange-500/20 border-orange-400 text-orange-300' 
                         : 'bg-slate-900/40 border-slate-500 text-slate-300'
-                    }`}
-                >
-                    <ScanEye className="w-4 h-4" />
-                    {isGuidanceActive ? 'AR GUIDANCE ON' : 'ENABLE GUIDANCE'}
-                </button>
+                    }`}>
+                        <button onClick={() => setIsAutoCapture(prev => !prev)} className="pl-4 pr-2 py-2 flex items-center gap-2">
+                            <Timer className="w-4 h-4" />
+                            {isAutoCapture ? 'AUTO ON' : 'AUTO'}
+                        </button>
+                        <button onClick={handleCycleAutoCaptureDelay} className="pr-4 pl-2 py-2 border-l border-slate-600 font-mono" title="Time the view must stay steady before capturing">
+                            {autoCaptureDelayMs / 1000}s
+                        </button>
+                    </div>
+                    <button 
+                        onClick={() => setIsGuidanceActive(!isGuidanceActive)}
+                        className={`px-4 py-2 rounded-full text-xs font-bold border flex items-center gap-2 backdrop-blur transition-all ${
+                            isGuidanceActive 
+                            ? 'bg-cyan-500/20 border-cyan-400 text-cyan-300' 
+                            : 'bg-slate-900/40 border-slate-500 text-slate-300'
+                        }`}
+                    >
+                        <ScanEye className="w-4 h-4" />
+                        {isGuidanceActive ? 'AR GUIDANCE ON' : 'ENABLE GUIDANCE'}
+                    </button>
+                </div>
 
-                <button 
-                    onClick={handleCapture}
-                    className="w-20 h-20 rounded-full border-4 border-white flex items-center justify-center bg-transparent hover:bg-white/20 transition-all group"
-                >
-                    <div className="w-16 h-16 bg-red-600 rounded-full group-hover:scale-90 transition-transform shadow-[0_0_15px_rgba(220,38,38,0.7)]" />
-                </button>
+                <div className="flex items-center gap-8">
+                    <label 
+                        className="w-12 h-12 rounded-full bg-slate-900/60 border border-slate-500 text-slate-200 flex items-center justify-center backdrop-blur cursor-pointer hover:bg-slate-800"
+                        title="Upload existing photos; they are queued for analysis under the current asset"
+                    >
+                        <ImagePlus className="w-5 h-5" />
+                        <input type="file" accept="image/jpeg,image/*" multiple className="hidden" onChange={handleUploadPhotos} disabled={!!uploadProgress && uploadProgress.done < uploadProgress.total} />
+                    </label>
+                    <button 
+                        onClick={handleCapture}
+                        disabled={isShutterGated}
+                        title={isShutterGated ? `Quality gate: ${liveIssues.join(', ')}` : undefined}
+                        className={`w-20 h-20 rounded-full border-4 flex items-center justify-center bg-transparent hover:bg-white/20 transition-all group disabled:opacity-50 disabled:cursor-not-allowed ${isShutterGated ? 'border-red-500' : 'border-white'}`}
+                    >
+                        <div className="w-16 h-16 bg-red-600 rounded-full group-hover:scale-90 transition-transform shadow-[0_0_15px_rgba(220,38,38,0.7)]" />
+                    </button>
+                    <button 
+                        onClick={handleToggleQualityGate}
+                        className={`w-12 h-12 rounded-full border flex items-center justify-center backdrop-blur ${isQualityGateOn ? 'bg-green-500/20 border-green-400 text-green-300' : 'bg-slate-900/60 border-slate-500 text-slate-400'}`}
+                        title={isQualityGateOn ? 'Quality gate on: the shutter waits for a sharp, well-exposed frame' : 'Quality gate off'}
+                    >
+                        <Gauge className="w-5 h-5" />
+                    </button>
+                </div>
+                {uploadProgress && (
+                    <p 
+                        onClick={() => setUploadProgress(null)}
+                        className={`bg-black/60 backdrop-blur px-3 py-1 rounded-full border text-[10px] font-mono cursor-pointer ${uploadProgress.failed ? 'border-red-500/60 text-red-300' : 'border-slate-600 text-slate-300'}`}
+                    >
+                        {uploadProgress.done < uploadProgress.total ? 'UPLOADING' : 'QUEUED'} {uploadProgress.done - uploadProgress.failed}/{uploadProgress.total}
+                        {uploadProgress.failed > 0 && ` • ${uploadProgress.failed} UNREADABLE`}
+                    </p>
+                )}
             </div>
           </>
         ) : (
@@ -269,6 +842,17 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
       {/* Analysis Panel */}
       {capturedImage && (
         <div className="bg-slate-800 border-t border-slate-700 p-4 shrink-0 max-h-[45vh] overflow-y-auto shadow-[0_-5px_20px_rgba(0,0,0,0.5)] z-20">
+          {nearDuplicates.length > 0 && (
+            <div className="mb-4 bg-amber-950/40 border border-amber-500/60 rounded-lg p-2 flex items-center gap-3">
+              <img src={nearDuplicates[0].imageUrl} alt="Earlier capture" className="w-12 h-12 object-cover rounded border border-amber-500/40" />
+              <div className="flex-1 min-w-0">
+                <p className="text-xs font-bold text-amber-300 flex items-center gap-1.5"><Copy className="w-3 h-3" /> NEAR-DUPLICATE</p>
+                <p className="text-[11px] text-amber-100/80">
+                  Looks like {nearDuplicates.length === 1 ? 'an earlier capture' : `${nearDuplicates.length} earlier captures`} from {new Date(nearDuplicates[0].timestamp).toLocaleString()}. Re-shoots only count once.
+                </p>
+              </div>
+            </div>
+          )}
           {!analysis && !isAnalyzing && (
             <div className="text-center py-4">
               <button 
@@ -278,6 +862,23 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
                 <Zap className="w-5 h-5 fill-current" />
                 ANALYZE CAPTURE
               </button>
+              <div className="mt-3 flex justify-center gap-6">
+                <button 
+                  onClick={handleAddView}
+                  className="text-xs text-purple-300 hover:text-white font-mono flex items-center gap-2"
+                  title="Keep this view and capture another angle of the same defect"
+                >
+                  <Plus className="w-3 h-3" />
+                  ADD VIEW TO SESSION
+                </button>
+                <button 
+                  onClick={() => handleQueue()}
+                  className="text-xs text-slate-400 hover:text-white font-mono flex items-center gap-2"
+                >
+                  <Clock className="w-3 h-3" />
+                  QUEUE & KEEP SHOOTING
+                </button>
+              </div>
             </div>
           )}
 
@@ -308,6 +909,9 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
                    <div className="flex items-center gap-4 mt-2">
                        <p className="text-xs text-slate-400 font-mono">CONFIDENCE: <span className="text-white">{analysis.confidence}%</span></p>
                        <p className="text-xs text-slate-400 font-mono">QUALITY: <span className={analysis.isQualitySufficient ? "text-green-400" : "text-red-400"}>{analysis.isQualitySufficient ? "PASS" : "FAIL"}</span></p>
+                       {capturedQuality && (
+                         <p className="text-xs text-slate-400 font-mono" title={capturedIssues.join(', ') || undefined}>ON-DEVICE: <span className={capturedIssues.length ? "text-red-400" : "text-green-400"}>{capturedIssues.length ? capturedIssues[0].toUpperCase() : "PASS"}</span></p>
+                       )}
                    </div>
                 </div>
                 {analysis.isQualitySufficient ? (
@@ -324,7 +928,7 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
 
               {analysis.missingAngles && analysis.missingAngles.length > 0 && (
                 <div className="text-xs flex flex-wrap gap-2 items-center">
-                  <span className="text-orange-300 font-bold uppercase">Required Next:</span> 
+                  <span className="text-orange-300 font-bold uppercase" title="Added to the component checklist when saved">Required Next:</span> 
                   {analysis.missingAngles.map((angle, i) => (
                       <span key={i} className="px-2 py-1 bg-slate-700 rounded text-slate-300 border border-slate-600">{angle}</span>
                   ))}
@@ -335,9 +939,18 @@ export const FieldView: React.FC<FieldViewProps> = ({ onCapture, onOpenChat }) =
                 <button 
                   onClick={handleReset}
                   className="flex-1 py-3 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700 transition font-medium text-sm"
+                  title={sessionShots.length > 0 ? 'Discards this view only; earlier views stay in the session' : undefined}
                 >
                   Discard
                 </button>
+                <button 
+                  onClick={handleAddView}
+                  className="flex-1 py-3 rounded-lg border border-purple-500/60 text-purple-300 hover:bg-purple-950/40 transition font-medium text-sm flex items-center justify-center gap-2"
+                  title="Capture another angle; the session is re-analyzed with all views"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add View
+                </button>
                 <button 
                   onClick={handleSave}
                   className="flex-1 py-3 rounded-lg bg-orange-600 text-white font-bold hover:bg-orange-500 transition shadow-lg shadow-orange-900/20 text-sm flex items-center justify-center gap-2"
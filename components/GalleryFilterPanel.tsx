@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Search, Link2, Check, RotateCcw } from 'lucide-react';
+import { CapturedItem } from '../types';
+import {
+  EMPTY_GALLERY_FILTERS, GALLERY_SORTS, GalleryFilters, GallerySort, QualityFilter, REVIEW_STATUSES, SEVERITIES, toGallerySearch,
+} from '../services/galleryFilterService';
+
+interface GalleryFilterPanelProps {
+  items: CapturedItem[]; // Source of the defect type, component and machine options
+  filters: GalleryFilters;
+  onChange: (filters: GalleryFilters) => void;
+}
+
+type ListFilter = 'severities' | 'defectTypes' | 'components' | 'machines' | 'statuses';
+
+const uniqueSorted = (values: (string | undefined)[]) => [...new Set(values.filter((v): v is string => !!v))].sort();
+
+export const GalleryFilterPanel: React.FC<GalleryFilterPanelProps> = ({ items, filters, onChange }) => {
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  const update = <K extends keyof GalleryFilters>(key: K, value: GalleryFilters[K]) => onChange({ ...filters, [key]: value });
+
+  const toggle = (key: ListFilter, value: string) => {
+    const current = filters[key] as string[];
+    update(key, (current.includes(value) ? current.filter(v => v !== value) : [...current, value]) as GalleryFilters[ListFilter]);
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${toGallerySearch(filters, window.location.search)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (e) {
+      console.error("Could not copy the gallery link", e);
+      prompt('Copy this link', url);
+    }
+  };
+
+  const chipGroup = (label: string, key: ListFilter, options: string[]) => (
+    <div>
+      <p className="text-[10px] font-mono uppercase text-slate-500 mb-1">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {options.length === 0 && <span className="text-[11px] text-slate-600">—</span>}
+        {options.map(option => {
+          const isActive = (filters[key] as string[]).includes(option);
+          return (
+            <button
+              key={option}
+              onClick={() => toggle(key, option)}
+              className={`text-[11px] px-2 py-0.5 rounded border transition ${isActive ? 'bg-cyan-900/50 border-cyan-500 text-cyan-200' : 'bg-black/30 border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const inputClass = 'bg-black/40 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:border-cyan-500 outline-none';
+
+  return (
+    <div className="bg-slate-800/60 border border-slate-700 rounded-xl p-4 mb-6 space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-slate-500 absolute left-2.5 top-1/2 -translate-y-1/2" />
+          <input
+            value={filters.search}
+            onChange={e => update('search', e.target.value)}
+            placeholder="Search repair instructions..."
+            className={`${inputClass} w-full pl-8 py-2 text-sm`}
+          />
+        </div>
+        <select value={filters.sort} onChange={e => update('sort', e.target.value as GallerySort)} className={inputClass}>
+          {GALLERY_SORTS.map(sort => <option key={sort.id} value={sort.id}>{sort.label}</option>)}
+        </select>
+        <button
+          onClick={handleCopyLink}
+          className="flex items-center gap-1.5 text-xs px-3 rounded border border-slate-600 text-slate-300 hover:text-white hover:border-cyan-500"
+          title="Copy a link that opens the gallery with these filters"
+        >
+          {isLinkCopied ? <Check className="w-3.5 h-3.5 text-green-400" /> : <Link2 className="w-3.5 h-3.5" />}
+          {isLinkCopied ? 'Copied' : 'Copy Link'}
+        </button>
+        <button
+          onClick={() => onChange({ ...EMPTY_GALLERY_FILTERS, sort: filters.sort })}
+          className="flex items-center gap-1.5 text-xs px-3 rounded border border-slate-600 text-slate-300 hover:text-white"
+        >
+          <RotateCcw className="w-3.5 h-3.5" /> Clear
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+        {chipGroup('Severity', 'severities', SEVERITIES)}
+        {chipGroup('Status', 'statuses', REVIEW_STATUSES)}
+        {chipGroup('Defect type', 'defectTypes', uniqueSorted(items.map(i => i.analysis?.defectType)))}
+        {chipGroup('Component', 'components', uniqueSorted(items.map(i => i.metadata.component)))}
+        {chipGroup('Machine', 'machines', uniqueSorted(items.map(i => i.metadata.machineId)))}
+
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-mono uppercase text-slate-500 w-20">Captured</span>
+            <input type="date" value={filters.dateFrom} onChange={e => update('dateFrom', e.target.value)} className={inputClass} />
+            <span className="text-slate-500 text-xs">–</span>
+            <input type="date" value={filters.dateTo} onChange={e => update('dateTo', e.target.value)} className={inputClass} />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-mono uppercase text-slate-500 w-20">Confidence</span>
+            <input
+              type="number" min={0} max={100} placeholder="0"
+              value={filters.minConfidence ?? ''}
+              onChange={e => update('minConfidence', e.target.value === '' ? null : Number(e.target.value))}
+              className={`${inputClass} w-16`}
+            />
+            <span className="text-slate-500 text-xs">–</span>
+            <input
+              type="number" min={0} max={100} placeholder="100"
+              value={filters.maxConfidence ?? ''}
+              onChange={e => update('maxConfidence', e.target.value === '' ? null : Number(e.target.value))}
+              className={`${inputClass} w-16`}
+            />
+            <span className="text-slate-500 text-xs">%</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-mono uppercase text-slate-500 w-20">Quality</span>
+            <select value={filters.quality} onChange={e => update('quality', e.target.value as QualityFilter)} className={inputClass}>
+              <option value="any">Any</option>
+              <option value="ok">Passes checks</option>
+              <option value="flagged">Flagged</option>
+            </select>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
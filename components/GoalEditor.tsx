@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { X, Save, ListTodo } from 'lucide-react';
+import { AnalysisResult, GoalCriteria, ProjectGoal } from '../types';
+import { GOAL_PRIORITIES } from '../services/goalService';
+
+const SEVERITIES: AnalysisResult['severity'][] = ['Low', 'Medium', 'High', 'Critical'];
+
+// Comma-separated text fields map onto the goal's string lists
+const toList = (value: string): string[] => value.split(',').map(v => v.trim()).filter(Boolean);
+const fromList = (list: string[] | undefined): string => (list ?? []).join(', ');
+
+interface GoalEditorProps {
+  goal: ProjectGoal;
+  isNew: boolean;
+  knownDefectTypes: string[];
+  onClose: () => void;
+  onSave: (goal: ProjectGoal) => void;
+}
+
+export const GoalEditor: React.FC<GoalEditorProps> = ({ goal, isNew, knownDefectTypes, onClose, onSave }) => {
+  const [draft, setDraft] = useState(goal);
+  const [lists, setLists] = useState({
+    defectTypes: fromList(goal.criteria.defectTypes),
+    components: fromList(goal.criteria.components),
+    machineIds: fromList(goal.criteria.machineIds),
+    assignees: fromList(goal.assignees),
+    sites: fromList(goal.sites),
+  });
+
+  const update = (patch: Partial<ProjectGoal>) => setDraft(prev => ({ ...prev, ...patch }));
+  const updateCriteria = (patch: Partial<GoalCriteria>) => setDraft(prev => ({ ...prev, criteria: { ...prev.criteria, ...patch } }));
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      title: draft.title.trim(),
+      description: draft.description.trim(),
+      assignees: toList(lists.assignees),
+      sites: toList(lists.sites),
+      criteria: {
+        ...draft.criteria,
+        defectTypes: toList(lists.defectTypes),
+        components: toList(lists.components),
+        machineIds: toList(lists.machineIds),
+        from: draft.criteria.from || undefined,
+        until: draft.criteria.until || undefined,
+      },
+    });
+  };
+
+  const canSave = draft.title.trim().length > 0 && draft.targetCount > 0 && !!draft.deadline;
+  const inputClass = "w-full bg-slate-800 border border-slate-600 text-white rounded px-2 py-1.5 text-sm focus:outline-none focus:border-cyan-500";
+  const labelClass = "block font-bold uppercase tracking-wider text-[10px] text-slate-400 mb-1";
+
+  const listField = (key: keyof typeof lists, label: string, placeholder: string, datalist?: string) => (
+    <label className="block text-xs">
+      <span className={labelClass}>{label}</span>
+      <input
+        list={datalist}
+        value={lists[key]}
+        onChange={(e) => setLists(prev => ({ ...prev, [key]: e.target.value }))}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-xl max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <ListTodo className="w-5 h-5 text-indigo-400" />
+            {isNew ? 'New Collection Directive' : 'Edit Directive'}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          <label className="block text-xs">
+            <span className={labelClass}>Title</span>
+            <input value={draft.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} autoFocus />
+          </label>
+          <label className="block text-xs">
+            <span className={labelClass}>Description</span>
+            <textarea value={draft.description} onChange={(e) => update({ description: e.target.value })} rows={2} className={inputClass} />
+          </label>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block text-xs">
+              <span className={labelClass}>Target</span>
+              <input type="number" min={1} value={draft.targetCount} onChange={(e) => update({ targetCount: Number(e.target.value) })} className={inputClass} />
+            </label>
+            <label className="block text-xs">
+              <span className={labelClass}>Deadline</span>
+              <input type="date" value={draft.deadline} onChange={(e) => update({ deadline: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block text-xs">
+              <span className={labelClass}>Priority</span>
+              <select value={draft.priority} onChange={(e) => update({ priority: e.target.value as ProjectGoal['priority'] })} className={inputClass}>
+                {GOAL_PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <p className="text-[10px] font-bold uppercase tracking-wider text-indigo-400 pt-2">Matching Criteria</p>
+          {listField('defectTypes', 'Defect Types', 'Any', 'goal-defect-types')}
+          <datalist id="goal-defect-types">
+            {knownDefectTypes.map(type => <option key={type} value={type} />)}
+          </datalist>
+          <div className="grid grid-cols-2 gap-3">
+            {listField('components', 'Components', 'Any')}
+            {listField('machineIds', 'Machine IDs', 'Any')}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block text-xs">
+              <span className={labelClass}>Min Severity</span>
+              <select
+                value={draft.criteria.minSeverity ?? ''}
+                onChange={(e) => updateCriteria({ minSeverity: (e.target.value || undefined) as AnalysisResult['severity'] | undefined })}
+                className={inputClass}
+              >
+                <option value="">Any</option>
+                {SEVERITIES.map(s => <option key={s}>{s}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs">
+              <span className={labelClass}>From</span>
+              <input type="date" value={draft.criteria.from ?? ''} onChange={(e) => updateCriteria({ from: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block text-xs">
+              <span className={labelClass}>Until</span>
+              <input type="date" value={draft.criteria.until ?? ''} onChange={(e) => updateCriteria({ until: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input type="checkbox" checked={!!draft.criteria.approvedOnly} onChange={(e) => updateCriteria({ approvedOnly: e.target.checked })} />
+            Only count human-approved samples
+          </label>
+
+          <p className="text-[10px] font-bold uppercase tracking-wider text-indigo-400 pt-2">Assignment</p>
+          <div className="grid grid-cols-2 gap-3">
+            {listField('assignees', 'Field Engineers', 'Everyone')}
+            {listField('sites', 'Sites', 'All sites')}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800">
+          <button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="w-full py-3 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2"
+          >
+            <Save className="w-4 h-4" />
+            {isNew ? 'Publish Directive' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { X, Upload, FolderOpen, FileArchive, AlertTriangle } from 'lucide-react';
+import { CapturedItem, DefectTaxonomy } from '../types';
+import {
+  buildImportedItems,
+  filesFromFileList,
+  filesFromZip,
+  ImportFile,
+  ImportIssueKind,
+  ImportPlan,
+  planImport,
+  suggestLabelMapping,
+} from '../services/importService';
+import { resolveDefectClass } from '../services/taxonomyService';
+
+const ISSUE_LABELS: Record<ImportIssueKind, string> = {
+  'duplicate': 'Duplicate',
+  'label-conflict': 'Conflict',
+  'missing-image': 'Missing image',
+  'invalid-value': 'Invalid value',
+  'ambiguous-file': 'Ambiguous',
+  'parse-error': 'Unreadable',
+};
+
+interface ImportDialogProps {
+  existingItems: CapturedItem[];
+  taxonomy: DefectTaxonomy;
+  onClose: () => void;
+  onImport: (items: CapturedItem[]) => void;
+}
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ existingItems, taxonomy, onClose, onImport }) => {
+  const [sourceName, setSourceName] = useState('');
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [labelMapping, setLabelMapping] = useState<Record<string, string>>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [analyzeUnlabelled, setAnalyzeUnlabelled] = useState(true);
+  const [trustSourceStatus, setTrustSourceStatus] = useState(false);
+  const [defaults, setDefaults] = useState<CapturedItem['metadata']>({ machineId: 'Unknown', component: 'Unknown', location: 'Unknown' });
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const knownDefectTypes = Array.from(new Set([
+    ...taxonomy.classes.map(c => c.name),
+    ...existingItems.map(i => i.analysis?.defectType).filter((t): t is string => !!t),
+  ]));
+
+  const loadFiles = async (name: string, getFiles: () => Promise<ImportFile[]>) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      const nextPlan = await planImport(await getFiles(), existingItems, taxonomy);
+      if (nextPlan.candidates.length === 0) throw new Error('No images found in the selection');
+      setSourceName(name);
+      setPlan(nextPlan);
+      setLabelMapping(suggestLabelMapping(nextPlan, existingItems, taxonomy));
+    } catch (e) {
+      console.error("Import scan failed", e);
+      setError(e instanceof Error ? e.message : 'Could not read the selection');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleZip = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadFiles(file.name, () => filesFromZip(file));
+    e.target.value = '';
+  };
+
+  const handleFolder = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files && files.length > 0) {
+      const folder = files[0].webkitRelativePath.split('/')[0] || 'folder';
+      const list = filesFromFileList(files);
+      loadFiles(folder, async () => list);
+    }
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      onImport(await buildImportedItems(plan, { sourceName, labelMapping, skipDuplicates, analyzeUnlabelled, trustSourceStatus, defaults }));
+      onClose();
+    } catch (e) {
+      console.error("Import failed", e);
+      setError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const labelled = plan?.candidates.filter(c => c.labels.length > 0).length ?? 0;
+  const duplicates = plan?.candidates.filter(c => c.duplicateOf).length ?? 0;
+  const importCount = plan ? plan.candidates.length - (skipDuplicates ? duplicates : 0) : 0;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-2xl max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Upload className="w-5 h-5 text-cyan-400" />
+            Import Legacy Dataset
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="p-3 rounded-lg border border-slate-800 bg-black/30 hover:border-slate-600 cursor-pointer">
+              <p className="text-sm font-bold text-slate-200 flex items-center gap-2"><FileArchive className="w-4 h-4 text-cyan-400" /> Zip archive</p>
+              <p className="text-[11px] text-slate-500 mt-0.5">Images with COCO JSON, CSV labels or a FactoryBridge manifest</p>
+              <input type="file" accept=".zip,application/zip" className="hidden" onChange={handleZip} disabled={isWorking} />
+            </label>
+            <label className="p-3 rounded-lg border border-slate-800 bg-black/30 hover:border-slate-600 cursor-pointer">
+              <p className="text-sm font-bold text-slate-200 flex items-center gap-2"><FolderOpen className="w-4 h-4 text-cyan-400" /> Image folder</p>
+              <p className="text-[11px] text-slate-500 mt-0.5">A directory of photos, optionally with label files inside</p>
+              <input
+                type="file"
+                multiple
+                className="hidden"
+                onChange={handleFolder}
+                disabled={isWorking}
+                {...{ webkitdirectory: '' } as React.InputHTMLAttributes<HTMLInputElement>}
+              />
+            </label>
+          </div>
+
+          {isWorking && !plan && (
+            <p className="text-xs text-slate-400 flex items-center gap-2">
+              <span className="w-3 h-3 border-2 border-slate-600 border-t-cyan-400 rounded-full animate-spin" />
+              Scanning files...
+            </p>
+          )}
+
+          {plan && (
+            <>
+              <div className="grid grid-cols-4 gap-2 text-center">
+                {[
+                  ['Images', plan.candidates.length],
+                  ['Labelled', labelled],
+                  ['Duplicates', duplicates],
+                  ['Label files', plan.annotationFiles.length],
+                ].map(([label, value]) => (
+                  <div key={label} className="bg-black/30 border border-slate-800 rounded-lg p-2">
+                    <p className="text-lg font-mono text-white">{value}</p>
+                    <p className="text-[10px] uppercase text-slate-500">{label}</p>
+                  </div>
+                ))}
+              </div>
+
+              {plan.importedLabels.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                    Label mapping {plan.unmappedLabels.length > 0 && <span className="text-yellow-400">• {plan.unmappedLabels.length} not in the taxonomy</span>}
+                  </p>
+                  {plan.importedLabels.map(label => (
+                    <div key={label} className="flex items-center gap-2 text-xs">
+                      <span className={`flex-1 font-mono truncate ${plan.unmappedLabels.includes(label) ? 'text-yellow-300' : 'text-slate-300'}`}>{label}</span>
+                      <span className="text-slate-600">→</span>
+                      <input
+                        list="import-defect-types"
+                        value={labelMapping[label] ?? label}
+                        onChange={(e) => setLabelMapping(prev => ({ ...prev, [label]: e.target.value }))}
+                        title={resolveDefectClass(taxonomy, labelMapping[label] ?? label) ? undefined : 'Not in the taxonomy; imported items with this label are listed for triage'}
+                        className={`flex-1 bg-slate-800 border ${resolveDefectClass(taxonomy, labelMapping[label] ?? label) ? 'border-slate-600' : 'border-yellow-600'} text-white rounded px-2 py-1 focus:outline-none focus:border-cyan-500`}
+                      />
+                    </div>
+                  ))}
+                  <datalist id="import-defect-types">
+                    {knownDefectTypes.map(type => <option key={type} value={type} />)}
+                  </datalist>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">Defaults for missing metadata</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {(['machineId', 'component', 'location'] as const).map(field => (
+                    <input
+                      key={field}
+                      value={defaults[field]}
+                      onChange={(e) => setDefaults(prev => ({ ...prev, [field]: e.target.value }))}
+                      placeholder={field}
+                      className="bg-slate-800 border border-slate-600 text-white rounded px-2 py-1 text-xs focus:outline-none focus:border-cyan-500"
+                    />
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1 text-xs text-slate-300">
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                  Skip images already in the dataset
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={analyzeUnlabelled} onChange={(e) => setAnalyzeUnlabelled(e.target.checked)} />
+                  Queue the {plan.candidates.length - labelled} unlabelled images for AI analysis
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={trustSourceStatus} onChange={(e) => setTrustSourceStatus(e.target.checked)} />
+                  Keep review status from the source (otherwise everything goes to review)
+                </label>
+              </div>
+
+              {plan.issues.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-yellow-400 flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3" /> {plan.issues.length} issues
+                  </p>
+                  <div className="max-h-40 overflow-y-auto bg-black/30 border border-slate-800 rounded-lg divide-y divide-slate-800">
+                    {plan.issues.map((issue, i) => (
+                      <div key={i} className="px-2 py-1.5 text-[11px] flex gap-2">
+                        <span className="text-yellow-400 font-bold shrink-0 w-24">{ISSUE_LABELS[issue.kind]}</span>
+                        <span className="text-slate-400 font-mono truncate shrink-0 max-w-[40%]">{issue.path}</span>
+                        <span className="text-slate-300 truncate">{issue.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-400 bg-red-950/30 border border-red-800 rounded p-2">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-800">
+          <button
+            onClick={handleImport}
+            disabled={isWorking || !plan || importCount === 0}
+            className="w-full py-3 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-bold text-sm flex items-center justify-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            {plan ? `Import ${importCount} samples from ${sourceName}` : 'Choose a source'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
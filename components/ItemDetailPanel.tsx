@@ -0,0 +1,310 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Info, Columns2, SplitSquareHorizontal, RefreshCw, Wand2, Check, Save, Square, History } from 'lucide-react';
+import { AnalysisRecord, AnalysisResult, CapturedItem, DefectTaxonomy } from '../types';
+import { generateAugmentedOverlay, tryAnalyzeInspectionSession } from '../services/aiService';
+import { applyReanalysis } from '../services/reviewService';
+
+interface ItemDetailPanelProps {
+  item: CapturedItem;
+  defectTaxonomy: DefectTaxonomy;
+  onClose: () => void;
+  onUpdate: (item: CapturedItem) => void;
+  onAppendRecord: (id: string, record: AnalysisRecord) => void;
+  onAnnotate: () => void;
+}
+
+type MetadataField = keyof CapturedItem['metadata'];
+
+const EDITABLE_METADATA: { key: MetadataField; label: string }[] = [
+  { key: 'machineId', label: 'Machine' },
+  { key: 'component', label: 'Component' },
+  { key: 'location', label: 'Line / Hangar' },
+  { key: 'site', label: 'Site' },
+  { key: 'angle', label: 'Angle' },
+];
+
+const toBase64 = (dataUrl: string) => dataUrl.split(',')[1];
+
+const AnalysisSummary: React.FC<{ analysis: AnalysisResult }> = ({ analysis }) => (
+  <div className="space-y-1.5 text-xs">
+    <p className="text-slate-200">
+      <span className="font-bold">{analysis.defectType}</span> • {analysis.severity} • {analysis.confidence}% confidence
+    </p>
+    <p className={`text-[10px] font-mono ${analysis.isQualitySufficient ? 'text-green-400' : 'text-amber-300'}`}>
+      {analysis.isQualitySufficient ? 'Image quality sufficient' : 'Image quality insufficient'}
+      {analysis.suggestedRegions && ` • ${analysis.suggestedRegions.length} suggested region(s)`}
+    </p>
+    <p className="text-slate-400 whitespace-pre-wrap">{analysis.instructions}</p>
+    {analysis.missingAngles && analysis.missingAngles.length > 0 && (
+      <div className="flex flex-wrap gap-1 pt-1">
+        <span className="text-[10px] font-mono text-slate-500 uppercase">Missing angles</span>
+        {analysis.missingAngles.map(angle => (
+          <span key={angle} className="text-[10px] px-1.5 py-0.5 rounded bg-amber-900/30 border border-amber-700/50 text-amber-200">{angle}</span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export const ItemDetailPanel: React.FC<ItemDetailPanelProps> = ({ item, defectTaxonomy, onClose, onUpdate, onAppendRecord, onAnnotate }) => {
+  const [compareMode, setCompareMode] = useState<'wipe' | 'side'>('wipe');
+  const [wipe, setWipe] = useState(50);
+  const [metadata, setMetadata] = useState(item.metadata);
+  const [contextPrompt, setContextPrompt] = useState(item.contextPrompt || item.metadata.component);
+  const [overlayPrompt, setOverlayPrompt] = useState(`defect: ${item.analysis?.defectType ?? 'unknown'}`);
+  const [latestRunId, setLatestRunId] = useState<string | null>(null); // Highlighted until another item is opened
+  const [proposedOverlay, setProposedOverlay] = useState<string | null>(null);
+  const [busy, setBusy] = useState<'analysis' | 'overlay' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const openItemIdRef = useRef(item.id);
+  openItemIdRef.current = item.id;
+
+  // Reset everything when another item is opened
+  useEffect(() => {
+    setMetadata(item.metadata);
+    setContextPrompt(item.contextPrompt || item.metadata.component);
+    setOverlayPrompt(`defect: ${item.analysis?.defectType ?? 'unknown'}`);
+    setLatestRunId(null);
+    setProposedOverlay(null);
+    setError(null);
+  }, [item.id]);
+
+  const overlayUrl = proposedOverlay ?? item.annotatedImageUrl;
+  const history = item.analysisHistory ?? [];
+  const isMetadataDirty = JSON.stringify(metadata) !== JSON.stringify(item.metadata);
+
+  const handleReanalyze = async () => {
+    const itemId = item.id;
+    setBusy('analysis');
+    setError(null);
+    try {
+      // Sessions are re-analyzed with all their views, as on capture
+      const images = item.session ? item.session.shots.map(shot => toBase64(shot.imageUrl)) : [toBase64(item.imageUrl)];
+      const record = await tryAnalyzeInspectionSession(images, contextPrompt);
+      // Every run is kept, even if another item was opened meanwhile; it only becomes the label when a reviewer picks it
+      onAppendRecord(itemId, record);
+      if (openItemIdRef.current === itemId) setLatestRunId(record.id);
+    } catch (e) {
+      console.error("Re-analysis failed", e);
+      if (openItemIdRef.current === itemId) setError(e instanceof Error ? e.message : 'Analysis failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRegenerateOverlay = async () => {
+    setBusy('overlay');
+    setError(null);
+    const overlay = await generateAugmentedOverlay(toBase64(item.imageUrl), overlayPrompt);
+    if (overlay) setProposedOverlay(overlay);
+    else setError('The overlay could not be generated');
+    setBusy(null);
+  };
+
+  const handleUseRecord = (record: AnalysisRecord) => {
+    if (item.review && !confirm('Replacing the label sends this reviewed item back to the review queue. Continue?')) return;
+    onUpdate(applyReanalysis(item, record, defectTaxonomy));
+  };
+
+  const handleApplyOverlay = () => {
+    if (!proposedOverlay) return;
+    onUpdate({ ...item, annotatedImageUrl: proposedOverlay });
+    setProposedOverlay(null);
+  };
+
+  const handleSaveMetadata = () => {
+    // Cleared optional fields are dropped rather than stored as blank strings
+    const { site, angle, ...rest } = metadata;
+    onUpdate({ ...item, metadata: { ...rest, site: site?.trim() || undefined, angle: angle?.trim() || undefined } });
+  };
+
+  const inputClass = 'w-full bg-slate-800 border border-slate-600 text-white rounded px-2 py-1.5 text-sm focus:outline-none focus:border-cyan-500';
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full md:w-[560px] bg-slate-900 border-l border-slate-700 shadow-2xl z-50 flex flex-col">
+      <div className="p-4 bg-slate-800 border-b border-slate-700 flex justify-between items-center">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <Info className="w-5 h-5 text-cyan-400" />
+          Capture Detail
+          <span className="text-xs font-mono text-slate-400">{item.id.slice(0, 8)}</span>
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        {/* Original vs overlay */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500">
+              Original / Overlay {proposedOverlay && <span className="text-cyan-300 normal-case">(new overlay, not saved)</span>}
+            </p>
+            {overlayUrl && (
+              <div className="flex gap-1">
+                <button onClick={() => setCompareMode('wipe')} className={`p-1 rounded ${compareMode === 'wipe' ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-white'}`} title="Wipe">
+                  <SplitSquareHorizontal className="w-4 h-4" />
+                </button>
+                <button onClick={() => setCompareMode('side')} className={`p-1 rounded ${compareMode === 'side' ? 'bg-slate-700 text-white' : 'text-slate-500 hover:text-white'}`} title="Side by side">
+                  <Columns2 className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {!overlayUrl && (
+            <div>
+              <img src={item.imageUrl} alt="Original capture" className="w-full rounded-lg border border-slate-700 bg-black" />
+              <p className="text-[10px] text-slate-500 mt-1">No overlay has been generated for this capture.</p>
+            </div>
+          )}
+          {overlayUrl && compareMode === 'side' && (
+            <div className="grid grid-cols-2 gap-2">
+              <img src={item.imageUrl} alt="Original capture" className="w-full rounded-lg border border-slate-700 bg-black" />
+              <img src={overlayUrl} alt="Annotated overlay" className="w-full rounded-lg border border-cyan-700 bg-black" />
+            </div>
+          )}
+          {overlayUrl && compareMode === 'wipe' && (
+            <div>
+              <div className="relative rounded-lg overflow-hidden border border-slate-700 bg-black select-none">
+                <img src={item.imageUrl} alt="Original capture" className="w-full block" />
+                <img
+                  src={overlayUrl}
+                  alt="Annotated overlay"
+                  className="absolute inset-0 w-full h-full object-cover"
+                  style={{ clipPath: `inset(0 ${100 - wipe}% 0 0)` }}
+                />
+                <div className="absolute inset-y-0 w-0.5 bg-cyan-400 shadow-[0_0_6px_rgba(34,211,238,0.8)]" style={{ left: `${wipe}%` }} />
+                <span className="absolute top-2 left-2 text-[9px] font-mono font-bold px-1.5 py-0.5 rounded bg-cyan-950/80 text-cyan-300">OVERLAY</span>
+                <span className="absolute top-2 right-2 text-[9px] font-mono font-bold px-1.5 py-0.5 rounded bg-black/70 text-slate-300">ORIGINAL</span>
+              </div>
+              <input type="range" min={0} max={100} value={wipe} onChange={e => setWipe(Number(e.target.value))} className="w-full accent-cyan-500 mt-2" />
+            </div>
+          )}
+          {proposedOverlay && (
+            <div className="flex gap-2">
+              <button onClick={handleApplyOverlay} className="flex-1 py-1.5 rounded bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold flex items-center justify-center gap-1.5">
+                <Check className="w-3.5 h-3.5" /> Keep New Overlay
+              </button>
+              <button onClick={() => setProposedOverlay(null)} className="px-3 py-1.5 rounded border border-slate-600 text-slate-300 hover:bg-slate-800 text-xs">Discard</button>
+            </div>
+          )}
+          <button
+            onClick={onAnnotate}
+            className="w-full py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 text-xs font-bold flex items-center justify-center gap-2"
+          >
+            <Square className="w-3 h-3" />
+            Annotate Regions ({(item.regions ?? item.analysis?.suggestedRegions ?? []).length})
+          </button>
+        </div>
+
+        {/* Analysis */}
+        <div className="bg-slate-950 p-3 rounded-lg border border-slate-800 space-y-2">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500">
+            Analysis • <span className="text-slate-300 normal-case">{item.status}</span>
+            {item.review && <span className="normal-case"> by {item.review.reviewer}</span>}
+          </p>
+          {item.analysis ? <AnalysisSummary analysis={item.analysis} /> : <p className="text-xs text-yellow-400">Awaiting analysis.</p>}
+          {item.analysis && !item.currentAnalysisId && (
+            <p className="text-[10px] font-mono text-slate-600">
+              {item.importSource ? `Label imported from ${item.importSource}` : 'Labelled before analysis history was recorded'}; model and prompt unknown.
+            </p>
+          )}
+        </div>
+
+        {/* Re-run */}
+        <div className="space-y-3">
+          <label className="text-xs text-slate-400 space-y-1 block">
+            <span className="block font-bold uppercase tracking-wider text-[10px]">Context Prompt</span>
+            <textarea value={contextPrompt} onChange={e => setContextPrompt(e.target.value)} rows={2} className={inputClass} />
+          </label>
+          <button
+            onClick={handleReanalyze}
+            disabled={!!busy || !contextPrompt.trim()}
+            className="w-full py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${busy === 'analysis' ? 'animate-spin' : ''}`} />
+            {busy === 'analysis' ? 'Analyzing...' : `Re-analyze${item.session ? ` ${item.session.shots.length} views` : ''}`}
+          </button>
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500 flex items-center gap-1.5">
+                <History className="w-3 h-3" /> Analysis History • {history.length} run(s)
+              </p>
+              {history.slice().reverse().map(record => {
+                const isCurrent = record.id === item.currentAnalysisId;
+                return (
+                  <div key={record.id} className={`p-3 rounded-lg border space-y-2 ${isCurrent ? 'bg-cyan-950/20 border-cyan-800' : record.id === latestRunId ? 'bg-slate-900 border-amber-600/60' : 'bg-slate-900 border-slate-800'}`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-[10px] font-mono text-slate-500">
+                        {new Date(record.createdAt).toLocaleString()} • {record.modelId} • prompt {record.promptVersion} • {record.latencyMs} ms
+                        {record.imageCount > 1 && ` • ${record.imageCount} views`}
+                      </p>
+                      {isCurrent ? (
+                        <span className="shrink-0 text-[9px] font-mono font-bold px-1.5 py-0.5 rounded bg-cyan-500 text-black">CURRENT</span>
+                      ) : (
+                        <button onClick={() => handleUseRecord(record)} className="shrink-0 text-[10px] font-bold px-2 py-0.5 rounded border border-cyan-600 text-cyan-300 hover:bg-cyan-950/50 flex items-center gap-1">
+                          <Check className="w-3 h-3" /> Use as Label
+                        </button>
+                      )}
+                    </div>
+                    <AnalysisSummary analysis={record.result} />
+                    {record.repairs && (
+                      <p className="text-[10px] text-amber-400/80" title={record.repairs.join('\n')}>
+                        Response repaired: {record.repairs.join('; ')}
+                      </p>
+                    )}
+                    <p className="text-[10px] font-mono text-slate-600 truncate" title={record.contextPrompt}>Context: {record.contextPrompt}</p>
+                    <details>
+                      <summary className="text-[10px] font-mono text-slate-500 cursor-pointer hover:text-slate-300">Raw response</summary>
+                      <pre className="mt-1 text-[10px] text-slate-400 bg-black/50 rounded p-2 max-h-48 overflow-auto whitespace-pre-wrap break-all">{record.rawResponse}</pre>
+                    </details>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <label className="text-xs text-slate-400 space-y-1 block">
+            <span className="block font-bold uppercase tracking-wider text-[10px]">Overlay Prompt</span>
+            <input value={overlayPrompt} onChange={e => setOverlayPrompt(e.target.value)} className={inputClass} />
+          </label>
+          <button
+            onClick={handleRegenerateOverlay}
+            disabled={!!busy || !overlayPrompt.trim()}
+            className="w-full py-2 rounded-lg bg-slate-800 hover:bg-slate-700 border border-slate-600 text-white text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <Wand2 className={`w-3.5 h-3.5 ${busy === 'overlay' ? 'animate-pulse' : ''}`} />
+            {busy === 'overlay' ? 'Generating...' : 'Regenerate Overlay'}
+          </button>
+          {error && <p className="text-xs text-red-400 bg-red-950/30 border border-red-800 rounded p-2">{error}</p>}
+        </div>
+
+        {/* Metadata */}
+        <div className="space-y-2">
+          <p className="text-[10px] font-bold uppercase tracking-wider text-slate-500">Metadata</p>
+          <div className="grid grid-cols-2 gap-2">
+            {EDITABLE_METADATA.map(({ key, label }) => (
+              <label key={key} className="text-xs text-slate-400 space-y-1">
+                <span className="block text-[10px]">{label}</span>
+                <input value={metadata[key] ?? ''} onChange={e => setMetadata(prev => ({ ...prev, [key]: e.target.value }))} className={inputClass} />
+              </label>
+            ))}
+          </div>
+          <p className="text-[10px] font-mono text-slate-500">
+            Captured {new Date(item.timestamp).toLocaleString()}
+            {item.metadata.tagId && ` • tag ${item.metadata.tagId}`}
+            {item.importSource && ` • imported from ${item.importSource}`}
+          </p>
+          <button
+            onClick={handleSaveMetadata}
+            disabled={!isMetadataDirty || !metadata.machineId.trim() || !metadata.component.trim()}
+            className="w-full py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Save className="w-3.5 h-3.5" /> Save Metadata
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
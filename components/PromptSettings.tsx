@@ -0,0 +1,280 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Check, GitCompare, Loader2, Play, Plus, Save, Square, Trash2, X } from 'lucide-react';
+import { CapturedItem, PromptFunction, PromptTemplate } from '../types';
+import {
+  deletePromptVersion, findUnknownVariables, getActivePrompt, listPromptVersions, PROMPT_FUNCTIONS, savePromptVersion, setActivePrompt,
+} from '../services/promptRegistry';
+import { canEvaluateOn, comparePromptVersions, EVALUABLE_PROMPT_FUNCTIONS, EvalOutput, PromptComparisonRow } from '../services/promptEvalService';
+
+interface PromptSettingsProps {
+  items: CapturedItem[];
+}
+
+const SAMPLE_SIZES = [5, 10, 20];
+
+const versionLabel = (t: PromptTemplate) => `v${t.version} · ${t.name}`;
+
+const OutputCell: React.FC<{ output: EvalOutput; differences: string[] }> = ({ output, differences }) => {
+  if ('error' in output) return <p className="text-xs text-red-400">{output.error}</p>;
+  return (
+    <dl className="text-xs space-y-1">
+      {Object.entries(output.fields).map(([field, value]) => (
+        <div key={field} className={`flex gap-2 rounded px-1 ${differences.includes(field) ? 'bg-amber-500/15 text-amber-200' : 'text-slate-400'}`}>
+          <dt className="font-mono text-[10px] uppercase text-slate-500 w-24 shrink-0 pt-0.5">{field}</dt>
+          <dd className="break-words min-w-0">{value}</dd>
+        </div>
+      ))}
+      <p className="text-[10px] font-mono text-slate-600">{output.latencyMs} ms</p>
+    </dl>
+  );
+};
+
+export const PromptSettings: React.FC<PromptSettingsProps> = ({ items }) => {
+  const [fn, setFn] = useState<PromptFunction>('field-analysis');
+  // The registry lives in localStorage; bumping this re-reads it after a change
+  const [revision, setRevision] = useState(0);
+  const versions = useMemo(() => listPromptVersions(fn), [fn, revision]);
+  const activeId = useMemo(() => getActivePrompt(fn).id, [fn, revision]);
+  const [selectedId, setSelectedId] = useState<string>(activeId);
+  const selected = versions.find(v => v.id === selectedId) ?? versions.find(v => v.id === activeId)!;
+  const info = PROMPT_FUNCTIONS.find(f => f.id === fn)!;
+
+  const [draft, setDraft] = useState<{ name: string; template: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const unknownVariables = draft ? findUnknownVariables(fn, draft.template) : [];
+
+  // Evaluation
+  const [versionA, setVersionA] = useState<string>('');
+  const [versionB, setVersionB] = useState<string>('');
+  const [sampleSize, setSampleSize] = useState(SAMPLE_SIZES[0]);
+  const [rows, setRows] = useState<PromptComparisonRow[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const cancelRef = useRef(false);
+
+  const isEvaluable = EVALUABLE_PROMPT_FUNCTIONS.includes(fn);
+  const sample = useMemo(
+    () => [...items].sort((a, b) => b.timestamp - a.timestamp).filter(i => canEvaluateOn(fn, i)).slice(0, sampleSize),
+    [items, fn, sampleSize],
+  );
+
+  const selectFunction = (next: PromptFunction) => {
+    setFn(next);
+    setSelectedId(getActivePrompt(next).id);
+    setDraft(null);
+    setError(null);
+    setVersionA('');
+    setVersionB('');
+    setRows([]);
+  };
+
+  const handleActivate = (id: string) => {
+    setActivePrompt(fn, id);
+    setRevision(r => r + 1);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    try {
+      const created = savePromptVersion(fn, draft.name, draft.template);
+      setDraft(null);
+      setError(null);
+      setSelectedId(created.id);
+      setRevision(r => r + 1);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (!confirm(`Delete ${versionLabel(template)}? Results it produced keep its id but the wording is lost.`)) return;
+    deletePromptVersion(template.id);
+    setSelectedId(getActivePrompt(fn).id);
+    setRevision(r => r + 1);
+  };
+
+  const handleRun = async () => {
+    const a = versions.find(v => v.id === (versionA || activeId));
+    const b = versions.find(v => v.id === versionB);
+    if (!a || !b) return;
+    cancelRef.current = false;
+    setIsRunning(true);
+    setRows([]);
+    try {
+      await comparePromptVersions(sample, a, b, row => setRows(prev => [...prev, row]), () => cancelRef.current);
+    } catch (e) {
+      alert(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const visibleRows = onlyDifferences ? rows.filter(r => r.differences.length > 0) : rows;
+  const selectClass = 'bg-black/40 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:border-cyan-500 outline-none';
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-slate-900 p-6 rounded-xl border border-slate-800">
+        <h3 className="text-xl font-semibold text-slate-300 mb-1">Prompt Registry</h3>
+        <p className="text-xs text-slate-500 mb-4">Every AI call renders the active version of its prompt. Versions are never edited in place; save a new one instead.</p>
+
+        <div className="flex flex-wrap gap-1 mb-4">
+          {PROMPT_FUNCTIONS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => selectFunction(f.id)}
+              className={`text-xs px-3 py-1.5 rounded border transition ${fn === f.id ? 'bg-cyan-900/50 border-cyan-500 text-cyan-200' : 'bg-black/30 border-slate-700 text-slate-400 hover:text-white'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <p className="text-[10px] font-mono uppercase text-slate-500 mb-1">{info.description}</p>
+            {versions.map(v => (
+              <div
+                key={v.id}
+                onClick={() => { setSelectedId(v.id); setDraft(null); }}
+                className={`flex items-center justify-between gap-2 p-2 rounded border cursor-pointer ${v.id === selected.id ? 'border-cyan-600 bg-slate-800' : 'border-slate-800 hover:border-slate-600'}`}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm text-slate-200 truncate">{versionLabel(v)}</p>
+                  <p className="text-[10px] font-mono text-slate-500">{v.builtIn ? 'built-in' : new Date(v.createdAt).toLocaleString()}</p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  {v.id === activeId ? (
+                    <span className="flex items-center gap-1 text-[10px] font-mono uppercase text-green-400"><Check className="w-3 h-3" /> Active</span>
+                  ) : (
+                    <button onClick={e => { e.stopPropagation(); handleActivate(v.id); }} className="text-[10px] px-2 py-0.5 rounded border border-slate-600 text-slate-300 hover:text-white">
+                      Activate
+                    </button>
+                  )}
+                  {!v.builtIn && (
+                    <button onClick={e => { e.stopPropagation(); handleDelete(v); }} className="p-1 text-slate-500 hover:text-red-400" title="Delete version">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+            <button
+              onClick={() => { setDraft({ name: '', template: selected.template }); setError(null); }}
+              className="w-full flex items-center justify-center gap-1.5 text-xs py-2 rounded border border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-cyan-500"
+            >
+              <Plus className="w-3.5 h-3.5" /> New version from {`v${selected.version}`}
+            </button>
+          </div>
+
+          <div className="lg:col-span-2 space-y-2">
+            <p className="text-[10px] font-mono uppercase text-slate-500">
+              Variables: {info.variables.length > 0 ? info.variables.map(v => `{{${v}}}`).join(', ') : 'none'}
+            </p>
+            {draft ? (
+              <>
+                <input
+                  value={draft.name}
+                  onChange={e => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Version name, e.g. Stricter severity wording"
+                  className={`${selectClass} w-full py-2 text-sm`}
+                />
+                <textarea
+                  value={draft.template}
+                  onChange={e => setDraft({ ...draft, template: e.target.value })}
+                  rows={12}
+                  className={`${selectClass} w-full font-mono leading-relaxed`}
+                />
+                {unknownVariables.length > 0 && (
+                  <p className="text-xs text-red-400">Not available here: {unknownVariables.map(v => `{{${v}}}`).join(', ')}</p>
+                )}
+                {error && <p className="text-xs text-red-400">{error}</p>}
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setDraft(null)} className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded border border-slate-600 text-slate-300 hover:text-white">
+                    <X className="w-3.5 h-3.5" /> Cancel
+                  </button>
+                  <button
+                    onClick={handleSave}
+                    disabled={unknownVariables.length > 0 || !draft.template.trim()}
+                    className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded bg-cyan-700 hover:bg-cyan-600 text-white disabled:opacity-40"
+                  >
+                    <Save className="w-3.5 h-3.5" /> Save Version
+                  </button>
+                </div>
+              </>
+            ) : (
+              <pre className="bg-black/40 border border-slate-800 rounded p-3 text-xs text-slate-300 whitespace-pre-wrap font-mono max-h-72 overflow-y-auto">{selected.template}</pre>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-slate-900 p-6 rounded-xl border border-slate-800">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+          <h3 className="text-xl font-semibold text-slate-300 flex items-center gap-2"><GitCompare className="w-5 h-5 text-cyan-400" /> Compare Versions</h3>
+          {isEvaluable && (
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={versionA || activeId} onChange={e => setVersionA(e.target.value)} className={selectClass}>
+                {versions.map(v => <option key={v.id} value={v.id}>A: {versionLabel(v)}</option>)}
+              </select>
+              <select value={versionB} onChange={e => setVersionB(e.target.value)} className={selectClass}>
+                <option value="">B: choose a version</option>
+                {versions.map(v => <option key={v.id} value={v.id}>B: {versionLabel(v)}</option>)}
+              </select>
+              <select value={sampleSize} onChange={e => setSampleSize(Number(e.target.value))} className={selectClass}>
+                {SAMPLE_SIZES.map(n => <option key={n} value={n}>Latest {n} captures</option>)}
+              </select>
+              {isRunning ? (
+                <button onClick={() => { cancelRef.current = true; }} className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded border border-red-500/50 text-red-300">
+                  <Square className="w-3.5 h-3.5" /> Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleRun}
+                  disabled={!versionB || versionB === (versionA || activeId) || sample.length === 0}
+                  className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded bg-cyan-700 hover:bg-cyan-600 text-white disabled:opacity-40"
+                >
+                  <Play className="w-3.5 h-3.5" /> Run on {sample.length}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        {!isEvaluable ? (
+          <p className="text-sm text-slate-500">The {info.label.toLowerCase()} prompt does not run on a single capture, so it cannot be replayed here.</p>
+        ) : rows.length === 0 && !isRunning ? (
+          <p className="text-sm text-slate-500">
+            Runs both versions on each capture and highlights fields that differ. Results are not saved to the captures.
+            {sample.length === 0 && ' No saved captures fit this prompt yet.'}
+          </p>
+        ) : (
+          <>
+            <div className="flex items-center justify-between mb-3 text-xs text-slate-400">
+              <span className="flex items-center gap-2">
+                {isRunning && <Loader2 className="w-3.5 h-3.5 animate-spin text-cyan-400" />}
+                {rows.length} / {sample.length} compared · {rows.filter(r => r.differences.length > 0).length} differ
+              </span>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input type="checkbox" checked={onlyDifferences} onChange={e => setOnlyDifferences(e.target.checked)} />
+                Only differences
+              </label>
+            </div>
+            <div className="space-y-3">
+              {visibleRows.map(row => (
+                <div key={row.item.id} className="grid grid-cols-[96px_1fr_1fr] gap-3 p-3 rounded border border-slate-800 bg-slate-800/40">
+                  <div>
+                    <img src={row.item.imageUrl} alt="" className="w-24 h-24 object-cover rounded" />
+                    <p className="text-[10px] font-mono text-slate-500 mt-1 truncate">{row.item.metadata.component}</p>
+                  </div>
+                  <OutputCell output={row.a} differences={row.differences} />
+                  <OutputCell output={row.b} differences={row.differences} />
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { AnnotationRegion } from '../types';
+import { getBoxCorners } from '../services/annotationService';
+
+interface RegionOverlayProps {
+  regions: AnnotationRegion[];
+}
+
+// Read-only outline of annotation regions; place inside a relative container sized to the image
+export const RegionOverlay: React.FC<RegionOverlayProps> = ({ regions }) => (
+  <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+    {regions.map(region => {
+      const points = region.kind === 'box' ? getBoxCorners(region) : region.points;
+      return (
+        <polygon
+          key={region.id}
+          points={points.map(p => `${p.x},${p.y}`).join(' ')}
+          fill={region.source === 'ai' ? 'rgba(251,146,60,0.15)' : 'rgba(74,222,128,0.15)'}
+          stroke={region.source === 'ai' ? '#fb923c' : '#4ade80'}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      );
+    })}
+  </svg>
+);
@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { X, CheckCircle, XCircle, RotateCcw, ClipboardCheck, Square, Layers } from 'lucide-react';
+import { AnalysisResult, CapturedItem, ReviewStatus } from '../types';
+import { applyReview, REJECTION_REASONS } from '../services/reviewService';
+import { RegionOverlay } from './RegionOverlay';
+
+const SEVERITIES: AnalysisResult['severity'][] = ['Low', 'Medium', 'High', 'Critical'];
+const REVIEWER_STORAGE_KEY = 'fb-reviewer-name';
+
+interface ReviewPanelProps {
+  item: CapturedItem;
+  knownDefectTypes: string[];
+  onClose: () => void;
+  onSubmit: (item: CapturedItem) => void;
+  onAnnotate: () => void;
+}
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({ item, knownDefectTypes, onClose, onSubmit, onAnnotate }) => {
+  const [reviewer, setReviewer] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) || '');
+  const [defectType, setDefectType] = useState(item.analysis?.defectType || '');
+  const [severity, setSeverity] = useState<AnalysisResult['severity']>(item.analysis?.severity || 'Low');
+  const [reason, setReason] = useState(item.review?.reason || '');
+  const [notes, setNotes] = useState(item.review?.notes || '');
+  const [viewIndex, setViewIndex] = useState(0); // Session view on display; regions belong to the first
+
+  // Reset the form when the reviewer moves on to another item
+  useEffect(() => {
+    setDefectType(item.analysis?.defectType || '');
+    setSeverity(item.analysis?.severity || 'Low');
+    setReason(item.review?.reason || '');
+    setNotes(item.review?.notes || '');
+    setViewIndex(0);
+  }, [item.id]);
+
+  const handleDecision = (status: ReviewStatus) => {
+    localStorage.setItem(REVIEWER_STORAGE_KEY, reviewer);
+    onSubmit(applyReview(item, {
+      status,
+      reviewer: reviewer.trim() || 'Anonymous',
+      defectType: defectType.trim(),
+      severity,
+      // A reason only makes sense when the item is not approved
+      reason: status === 'approved' ? undefined : reason,
+      notes: notes.trim(),
+    }));
+  };
+
+  const shots = item.session?.shots ?? [];
+  const displayedImage = shots[viewIndex]?.imageUrl ?? item.imageUrl;
+
+  const canApprove = !!item.analysis && defectType.trim().length > 0;
+  const canReject = reason.length > 0;
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-full md:w-[420px] bg-slate-900 border-l border-slate-700 shadow-2xl z-50 flex flex-col">
+      <div className="p-4 bg-slate-800 border-b border-slate-700 flex justify-between items-center">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-cyan-400" />
+          Review Sample
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white">
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        <div className="relative">
+          <img src={displayedImage} alt="Sample under review" className="w-full rounded-lg border border-slate-700 bg-black" />
+          {viewIndex === 0 && <RegionOverlay regions={item.regions ?? item.analysis?.suggestedRegions ?? []} />}
+        </div>
+        {shots.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-[10px] font-mono text-purple-300 uppercase flex items-center gap-1.5">
+              <Layers className="w-3 h-3" /> Inspection session • {shots.length} views analyzed together
+            </p>
+            <div className="flex gap-2 overflow-x-auto">
+              {shots.map((shot, idx) => (
+                <button key={shot.id} onClick={() => setViewIndex(idx)} className="shrink-0 w-16 text-left">
+                  <img 
+                    src={shot.imageUrl} 
+                    alt={shot.angle || `View ${idx + 1}`} 
+                    className={`w-16 h-16 object-cover rounded border ${viewIndex === idx ? 'border-purple-400' : 'border-slate-700 opacity-70 hover:opacity-100'}`} 
+                  />
+                  <p className="text-[9px] font-mono text-slate-400 truncate mt-0.5">{shot.angle || `View ${idx + 1}`}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        <button
+          onClick={onAnnotate}
+          className="w-full py-2 rounded-lg border border-slate-700 text-slate-300 hover:bg-slate-800 text-xs font-bold flex items-center justify-center gap-2"
+        >
+          <Square className="w-3 h-3" />
+          Annotate Regions ({(item.regions ?? item.analysis?.suggestedRegions ?? []).length})
+        </button>
+
+        <div className="flex justify-between text-[10px] font-mono text-slate-400 uppercase">
+          <span>{item.metadata.component} • {item.metadata.machineId}</span>
+          <span>Status: <span className="text-white">{item.status}</span></span>
+        </div>
+        {item.quality && (
+          <p className="text-[10px] font-mono text-slate-500" title="Measured on the capturing device">
+            On-device quality • sharpness {item.quality.sharpness} • clipped {Math.round((item.quality.underexposed + item.quality.overexposed) * 100)}% • glare {(item.quality.glare * 100).toFixed(1)}% • fill {Math.round(item.quality.subjectFill * 100)}%
+          </p>
+        )}
+        {item.exif && (
+          <p className="text-[10px] font-mono text-slate-500">
+            Uploaded photo • taken {new Date(item.timestamp).toLocaleString()}
+            {(item.exif.cameraMake || item.exif.cameraModel) && ` • ${[item.exif.cameraMake, item.exif.cameraModel].filter(Boolean).join(' ')}`}
+            {item.exif.gps && ` • ${item.exif.gps.latitude.toFixed(5)}, ${item.exif.gps.longitude.toFixed(5)}`}
+          </p>
+        )}
+
+        {item.analysis ? (
+          <div className="bg-slate-950 p-3 rounded-lg border border-slate-800 text-xs space-y-1">
+            <p className="text-slate-500 font-bold uppercase tracking-wider text-[10px]">AI Label</p>
+            <p className="text-slate-200">
+              {item.review?.originalDefectType ?? item.analysis.defectType} • {item.review?.originalSeverity ?? item.analysis.severity} • {item.analysis.confidence}% confidence
+            </p>
+            <p className="text-slate-400">{item.analysis.instructions}</p>
+          </div>
+        ) : (
+          <p className="text-xs text-yellow-400 bg-yellow-950/30 border border-yellow-700/50 rounded p-3">Awaiting analysis. This sample can be rejected but not approved yet.</p>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="text-xs text-slate-400 space-y-1">
+            <span className="block font-bold uppercase tracking-wider text-[10px]">Defect Type</span>
+            <input
+              list="review-defect-types"
+              value={defectType}
+              onChange={(e) => setDefectType(e.target.value)}
+              className="w-full bg-slate-800 border border-slate-600 text-white rounded px-2 py-1.5 text-sm focus:outline-none focus:border-cyan-500"
+            />
+            <datalist id="review-defect-types">
+              {knownDefectTypes.map(type => <option key={type} value={type} />)}
+            </datalist>
+          </label>
+          <label className="text-xs text-slate-400 space-y-1">
+            <span className="block font-bold uppercase tracking-wider text-[10px]">Severity</span>
+            <select
+              value={severity}
+              onChange={(e) => setSeverity(e.target.value as AnalysisResult['severity'])}
+              className="w-full bg-slate-800 border border-slate-600 text-white rounded px-2 py-1.5 text-sm outline-none"
+            >
+              {SEVERITIES.map(s => <option key={s}>{s}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <label className="text-xs text-slate-400 space-y-1 block">
+          <span className="block font-bold uppercase tracking-wider text-[10px]">Reason (reject / send back)</span>
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full bg-slate-800 border border-slate-600 text-white rounded px-2 py-1.5 text-sm outline-none"
+          >
+            <option value="">Select a reason...</option>
+            {REJECTION_REASONS.map(r => <option key={r}>{r}</option>)}
+          </select>
+        </label>
+
+        <label className="text-xs text-slate-400 space-y-1 block">
+          <span className="block font-bold uppercase tracking-wider text-[10px]">Reviewer Notes</span>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            className="w-full bg-slate-800 border border-slate-600 text-white rounded px-2 py-1.5 text-sm focus:outline-none focus:border-cyan-500"
+          />
+        </label>
+
+        <label className="text-xs text-slate-400 space-y-1 block">
+          <span className="block font-bold uppercase tracking-wider text-[10px]">Reviewer</span>
+          <input
+            value={reviewer}
+            onChange={(e) => setReviewer(e.target.value)}
+            placeholder="Your name"
+            className="w-full bg-slate-800 border border-slate-600 text-white rounded px-2 py-1.5 text-sm focus:outline-none focus:border-cyan-500"
+          />
+        </label>
+
+        {item.review && (
+          <p className="text-[10px] text-slate-500 font-mono">
+            Last reviewed by {item.review.reviewer} on {new Date(item.review.reviewedAt).toLocaleString()}
+          </p>
+        )}
+      </div>
+
+      <div className="p-4 bg-slate-800 border-t border-slate-700 flex gap-2">
+        <button
+          onClick={() => handleDecision('rejected')}
+          disabled={!canReject}
+          className="flex-1 py-2.5 rounded-lg border border-red-500/50 text-red-400 hover:bg-red-950/40 text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <XCircle className="w-4 h-4" /> Reject
+        </button>
+        <button
+          onClick={() => handleDecision('pending')}
+          disabled={item.status === 'pending'}
+          className="py-2.5 px-3 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-700 text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Send back to pending"
+        >
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => handleDecision('approved')}
+          disabled={!canApprove}
+          className="flex-1 py-2.5 rounded-lg bg-green-600 hover:bg-green-500 text-white text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <CheckCircle className="w-4 h-4" /> Approve
+        </button>
+      </div>
+    </div>
+  );
+};
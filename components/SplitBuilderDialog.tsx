@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { X, Shuffle, AlertTriangle, Check, Eraser } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { CapturedItem, DatasetSplit } from '../types';
+import { DATASET_SPLITS, DEFAULT_SPLIT_RATIOS, getSplitDistribution, planSplits, SplitPlan, SplitRatios } from '../services/splitService';
+
+interface SplitBuilderDialogProps {
+  items: CapturedItem[];
+  eligibleItems: CapturedItem[]; // Approved, de-duplicated items; only these are assigned a split
+  onClose: () => void;
+  onApply: (updated: CapturedItem[]) => void;
+}
+
+const SPLIT_COLORS: Record<DatasetSplit, string> = {
+  train: '#22d3ee',
+  val: '#a78bfa',
+  test: '#f472b6',
+};
+
+export const SplitBuilderDialog: React.FC<SplitBuilderDialogProps> = ({ items, eligibleItems, onClose, onApply }) => {
+  const [percentages, setPercentages] = useState<SplitRatios>({
+    train: DEFAULT_SPLIT_RATIOS.train * 100,
+    val: DEFAULT_SPLIT_RATIOS.val * 100,
+    test: DEFAULT_SPLIT_RATIOS.test * 100,
+  });
+  const [plan, setPlan] = useState<SplitPlan | null>(null);
+
+  const total = DATASET_SPLITS.reduce((sum, split) => sum + percentages[split], 0);
+  const eligibleIds = useMemo(() => new Set(eligibleItems.map(i => i.id)), [eligibleItems]);
+
+  // Until a new plan is generated, the charts show the stored assignments
+  const preview = useMemo(
+    () => plan ? eligibleItems.map(item => ({ ...item, split: plan.assignments.get(item.id) })) : eligibleItems,
+    [plan, eligibleItems],
+  );
+  const distribution = useMemo(() => getSplitDistribution(preview), [preview]);
+  const classes = useMemo(() => [...new Set(preview.map(i => i.analysis?.defectType ?? 'Unknown'))].sort(), [preview]);
+  const unassignedCount = preview.filter(i => !i.split).length;
+
+  const handleGenerate = () => {
+    setPlan(planSplits(eligibleItems, {
+      train: percentages.train / total,
+      val: percentages.val / total,
+      test: percentages.test / total,
+    }));
+  };
+
+  // Items that are no longer eligible (rejected, or hidden as near-duplicates) lose their split
+  const applyAssignments = (assign: (item: CapturedItem) => DatasetSplit | undefined) => {
+    const updated = items
+      .map(item => ({ item, split: eligibleIds.has(item.id) ? assign(item) : undefined }))
+      .filter(({ item, split }) => item.split !== split)
+      .map(({ item, split }) => ({ ...item, split }));
+    onApply(updated);
+    onClose();
+  };
+
+  const handleClear = () => {
+    if (!confirm('Remove the split assignment from every item?')) return;
+    applyAssignments(() => undefined);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl w-full max-w-3xl max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Shuffle className="w-5 h-5 text-cyan-400" />
+            Train / Val / Test Split
+            <span className="text-xs font-mono text-slate-400">{eligibleItems.length} approved samples</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto space-y-4">
+          <p className="text-xs text-slate-400">
+            Stratified by defect type and severity. All captures of a machine, and every view of an inspection session, stay in one split so the model is never validated on equipment it was trained on.
+          </p>
+
+          <div className="flex items-end gap-3">
+            {DATASET_SPLITS.map(split => (
+              <label key={split} className="flex-1">
+                <span className="text-[10px] font-mono uppercase" style={{ color: SPLIT_COLORS[split] }}>{split} %</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={percentages[split]}
+                  onChange={e => { setPercentages(prev => ({ ...prev, [split]: Math.max(0, Number(e.target.value) || 0) })); setPlan(null); }}
+                  className="w-full bg-black/40 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                />
+              </label>
+            ))}
+            <button
+              onClick={handleGenerate}
+              disabled={total <= 0 || eligibleItems.length === 0}
+              className="px-4 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-600 text-white rounded-lg font-bold text-xs flex items-center gap-2"
+            >
+              <Shuffle className="w-4 h-4" /> Generate
+            </button>
+          </div>
+          {total !== 100 && total > 0 && <p className="text-[11px] text-slate-500">Ratios are normalized; they currently add up to {total}%.</p>}
+
+          {plan && (
+            <div className="text-[11px] font-mono text-slate-400">
+              {plan.groupCount} leakage group(s) •{' '}
+              {DATASET_SPLITS.map(split => `${split} ${preview.filter(i => i.split === split).length}`).join(' / ')}
+            </div>
+          )}
+          {plan?.warnings.map(warning => (
+            <p key={warning} className="text-[11px] text-amber-300 bg-amber-950/30 border border-amber-800/60 rounded p-2 flex items-start gap-2">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" /> {warning}
+            </p>
+          ))}
+          {!plan && unassignedCount > 0 && eligibleItems.length > unassignedCount && (
+            <p className="text-[11px] text-amber-300">{unassignedCount} approved sample(s) were added since the split was generated and have no split yet.</p>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            {DATASET_SPLITS.map(split => {
+              const data = classes.map(name => ({ name, value: distribution[split][name] ?? 0 }));
+              const count = data.reduce((sum, d) => sum + d.value, 0);
+              return (
+                <div key={split} className="bg-black/30 border border-slate-800 rounded-lg p-2">
+                  <p className="text-xs font-bold uppercase mb-1" style={{ color: SPLIT_COLORS[split] }}>
+                    {split} <span className="text-slate-500 font-mono">{count}</span>
+                  </p>
+                  <div className="h-36">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={data} layout="vertical" margin={{ left: 0, right: 8 }}>
+                        <XAxis type="number" hide allowDecimals={false} />
+                        <YAxis type="category" dataKey="name" width={70} tick={{ fontSize: 9, fill: '#94a3b8' }} />
+                        <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', fontSize: 11 }} />
+                        <Bar dataKey="value" fill={SPLIT_COLORS[split]} radius={[0, 3, 3, 0]} />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex gap-2">
+          <button
+            onClick={handleClear}
+            disabled={!items.some(i => i.split)}
+            className="px-4 py-2.5 rounded-lg border border-slate-600 text-slate-300 hover:bg-slate-800 disabled:opacity-50 font-bold text-xs flex items-center gap-2"
+          >
+            <Eraser className="w-4 h-4" /> Clear Splits
+          </button>
+          <button
+            onClick={() => plan && applyAssignments(item => plan.assignments.get(item.id))}
+            disabled={!plan}
+            className="flex-1 py-2.5 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded-lg font-bold text-xs flex items-center justify-center gap-2"
+          >
+            <Check className="w-4 h-4" /> Save Assignments
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
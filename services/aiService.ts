@@ -0,0 +1,108 @@
+import { AIProvider, AnalysisRecord, CapturedItem, ChatMessage, ModelAnalysis, PromptTemplate } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockAIService";
+
+const AI_PROVIDERS: AIProvider[] = [geminiProvider, mockProvider];
+
+// Explicit choice (AI_PROVIDER env), else Gemini only when a key is configured
+const resolveProvider = (): AIProvider => {
+  const match = AI_PROVIDERS.find(p => p.id === process.env.AI_PROVIDER);
+  if (match) return match;
+  return process.env.API_KEY ? geminiProvider : mockProvider;
+};
+
+const activeProvider: AIProvider = resolveProvider();
+
+export const getPreCaptureGuidance = async (base64Image: string): Promise<string[]> => {
+  try {
+    return await activeProvider.getPreCaptureGuidance(base64Image);
+  } catch (error) {
+    console.error("Guidance failed", error);
+    return ["Guidance unavailable"];
+  }
+};
+
+// Rejects on failure instead of returning the placeholder hint, for prompt evaluation
+export const tryGetPreCaptureGuidance = (base64Image: string, template?: PromptTemplate): Promise<string[]> => {
+  return activeProvider.getPreCaptureGuidance(base64Image, template);
+};
+
+/**
+ * Times a provider call and wraps its result with the provenance kept in an item's analysis history.
+ * The result is kept as the provider returned it; it is mapped onto the defect taxonomy when adopted as a label.
+ */
+const recordAnalysis = async (
+  run: (provider: AIProvider) => Promise<ModelAnalysis>,
+  contextPrompt: string,
+  imageCount: number,
+): Promise<AnalysisRecord> => {
+  const provider = activeProvider;
+  const createdAt = Date.now();
+  const startedAt = performance.now();
+  const analysis = await run(provider);
+  return {
+    ...analysis,
+    id: crypto.randomUUID(),
+    createdAt,
+    providerId: provider.id,
+    contextPrompt,
+    imageCount,
+    latencyMs: Math.round(performance.now() - startedAt),
+  };
+};
+
+/**
+ * Analyzes one image. Rejects on failure, so callers can queue the capture and retry later.
+ * Resolves to the full run record.
+ */
+export const tryAnalyzeFieldImage = (base64Image: string, contextPrompt: string, template?: PromptTemplate): Promise<AnalysisRecord> => {
+  return recordAnalysis(provider => provider.analyzeFieldImage(base64Image, contextPrompt, template), contextPrompt, 1);
+};
+
+/**
+ * Analyzes all views of an inspection session in one call; a single view goes through the
+ * regular per-image analysis. Rejects on failure like tryAnalyzeFieldImage.
+ */
+export const tryAnalyzeInspectionSession = (base64Images: string[], contextPrompt: string, template?: PromptTemplate): Promise<AnalysisRecord> => {
+  if (base64Images.length === 1) {
+    return tryAnalyzeFieldImage(base64Images[0], contextPrompt, template?.fn === 'field-analysis' ? template : undefined);
+  }
+  const sessionTemplate = template?.fn === 'session-analysis' ? template : undefined;
+  return recordAnalysis(provider => provider.analyzeInspectionSession(base64Images, contextPrompt, sessionTemplate), contextPrompt, base64Images.length);
+};
+
+export const generateAugmentedOverlay = async (base64Image: string, prompt: string): Promise<string | null> => {
+  try {
+    return await activeProvider.generateAugmentedOverlay(base64Image, prompt);
+  } catch (error) {
+    console.error("Augmentation failed", error);
+    return null;
+  }
+};
+
+export const generateInspectionVideo = async (base64Image: string, prompt: string): Promise<string | null> => {
+  try {
+    return await activeProvider.generateInspectionVideo(base64Image, prompt);
+  } catch (error) {
+    console.error("Video generation failed", error);
+    throw error;
+  }
+};
+
+export const generateDatasetReport = async (items: CapturedItem[]): Promise<string> => {
+  try {
+    return await activeProvider.generateDatasetReport(items);
+  } catch (error) {
+    console.error("Report generation failed", error);
+    return "Could not generate report at this time.";
+  }
+};
+
+export const sendChatMessage = async (history: ChatMessage[], newMessage: string): Promise<string> => {
+  try {
+    return await activeProvider.sendChatMessage(history, newMessage);
+  } catch (error) {
+    console.error("Chat error", error);
+    return "Connection to Central interrupted.";
+  }
+};
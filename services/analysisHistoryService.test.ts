@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisRecord, AnnotationRegion, CapturedItem } from '../types';
+import { adoptAnalysisRecord, appendAnalysisRecord, getCurrentAnalysisRecord } from './analysisHistoryService';
+import { DEFAULT_DEFECT_TAXONOMY as TAXONOMY } from './taxonomyService';
+
+const region = (label: string, source: AnnotationRegion['source']): AnnotationRegion =>
+  ({ id: `${label}-${source}`, label, source, kind: 'box', x: 0, y: 0, width: 1, height: 1 });
+
+const record = (defectType: string, suggestedRegions?: AnnotationRegion[]): AnalysisRecord => ({
+  id: crypto.randomUUID(),
+  createdAt: 0,
+  providerId: 'mock',
+  modelId: 'mock-deterministic',
+  promptVersion: 'v1',
+  rawResponse: '{}',
+  contextPrompt: 'Gearbox',
+  imageCount: 1,
+  latencyMs: 1,
+  result: { defectType, severity: 'Low', confidence: 70, instructions: '', isQualitySufficient: true, suggestedRegions },
+});
+
+const item = (regions?: AnnotationRegion[]): CapturedItem => ({
+  id: 'item-1',
+  timestamp: 0,
+  imageUrl: '',
+  analysis: null,
+  status: 'pending',
+  regions,
+  metadata: { machineId: 'M-1', component: 'Gearbox', location: 'Line 1' },
+});
+
+describe('appendAnalysisRecord', () => {
+  it('keeps each run once and leaves the label alone', () => {
+    const run = record('Rust');
+    const appended = appendAnalysisRecord(item(), run);
+    expect(appended.analysisHistory).toEqual([run]);
+    expect(appended.analysis).toBeNull();
+    expect(appendAnalysisRecord(appended, run)).toBe(appended);
+  });
+});
+
+describe('adoptAnalysisRecord', () => {
+  it('maps the label onto the taxonomy but keeps the run as the model returned it', () => {
+    const run = record('rust', [region('ding', 'ai')]);
+    const adopted = adoptAnalysisRecord(item(), run, TAXONOMY);
+    expect(adopted.analysis).toMatchObject({ defectType: 'Corrosion', severity: 'Low' });
+    expect(adopted.regions!.map(r => r.label)).toEqual(['Dent']);
+    expect(getCurrentAnalysisRecord(adopted)!.result.defectType).toBe('rust');
+  });
+
+  it('keeps regions a reviewer drew', () => {
+    const drawn = [region('Crack', 'human')];
+    expect(adoptAnalysisRecord(item(drawn), record('Crack', [region('Crack', 'ai')]), TAXONOMY).regions).toBe(drawn);
+  });
+});
@@ -0,0 +1,30 @@
+import { AnalysisRecord, CapturedItem, DefectTaxonomy } from "../types";
+import { normalizeAnalysisResult } from "./taxonomyService";
+
+export const getCurrentAnalysisRecord = (item: CapturedItem): AnalysisRecord | undefined =>
+  item.analysisHistory?.find(record => record.id === item.currentAnalysisId);
+
+/**
+ * Keeps a run in the item's history without touching its label.
+ */
+export const appendAnalysisRecord = (item: CapturedItem, record: AnalysisRecord): CapturedItem =>
+  item.analysisHistory?.some(r => r.id === record.id)
+    ? item
+    : { ...item, analysisHistory: [...(item.analysisHistory ?? []), record] };
+
+/**
+ * Makes a run the item's label, mapped onto the taxonomy; the history keeps the result as the
+ * model returned it. Regions drawn by a reviewer are kept; otherwise the run's suggested regions
+ * replace the previous ones. Review state is left to the caller.
+ */
+export const adoptAnalysisRecord = (item: CapturedItem, record: AnalysisRecord, taxonomy: DefectTaxonomy): CapturedItem => {
+  const withRecord = appendAnalysisRecord(item, record);
+  const analysis = normalizeAnalysisResult(taxonomy, record.result);
+  const hasHumanRegions = (item.regions ?? []).some(region => region.source === 'human');
+  return {
+    ...withRecord,
+    analysis,
+    currentAnalysisId: record.id,
+    regions: hasHumanRegions ? item.regions : analysis.suggestedRegions,
+  };
+};
@@ -0,0 +1,118 @@
+import { AnnotationRegion, BoxRegion, PolygonRegion, RegionPoint } from "../types";
+
+// Smallest box edge (as a fraction of the image) kept when drawing or resizing
+export const MIN_REGION_SIZE = 0.01;
+
+export const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+export interface RegionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Builds a normalized box from any two opposite corners.
+ */
+export const createBoxRegion = (label: string, a: RegionPoint, b: RegionPoint, source: AnnotationRegion['source'] = 'human'): BoxRegion => ({
+  id: crypto.randomUUID(),
+  kind: 'box',
+  label,
+  source,
+  x: clamp01(Math.min(a.x, b.x)),
+  y: clamp01(Math.min(a.y, b.y)),
+  width: Math.abs(clamp01(b.x) - clamp01(a.x)),
+  height: Math.abs(clamp01(b.y) - clamp01(a.y)),
+});
+
+export const createPolygonRegion = (label: string, points: RegionPoint[], source: AnnotationRegion['source'] = 'human'): PolygonRegion => ({
+  id: crypto.randomUUID(),
+  kind: 'polygon',
+  label,
+  source,
+  points: points.map(p => ({ x: clamp01(p.x), y: clamp01(p.y) })),
+});
+
+/**
+ * Converts a Gemini `box_2d` ([ymin, xmin, ymax, xmax] on a 0-1000 grid) into a region.
+ */
+export const fromGeminiBox = (label: string, box2d: number[]): BoxRegion | null => {
+  if (box2d.length !== 4 || box2d.some(v => typeof v !== 'number')) return null;
+  const [ymin, xmin, ymax, xmax] = box2d.map(v => v / 1000);
+  return createBoxRegion(label, { x: xmin, y: ymin }, { x: xmax, y: ymax }, 'ai');
+};
+
+export const getRegionBounds = (region: AnnotationRegion): RegionBounds => {
+  if (region.kind === 'box') {
+    return { x: region.x, y: region.y, width: region.width, height: region.height };
+  }
+  const xs = region.points.map(p => p.x);
+  const ys = region.points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Box corners in drawing order: top-left, top-right, bottom-right, bottom-left
+export const getBoxCorners = (box: BoxRegion): RegionPoint[] => [
+  { x: box.x, y: box.y },
+  { x: box.x + box.width, y: box.y },
+  { x: box.x + box.width, y: box.y + box.height },
+  { x: box.x, y: box.y + box.height },
+];
+
+// Ray casting point-in-polygon test
+const pointInPolygon = (points: RegionPoint[], p: RegionPoint): boolean => {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const regionContainsPoint = (region: AnnotationRegion, p: RegionPoint): boolean => {
+  if (region.kind === 'box') {
+    return p.x >= region.x && p.x <= region.x + region.width && p.y >= region.y && p.y <= region.y + region.height;
+  }
+  return pointInPolygon(region.points, p);
+};
+
+/**
+ * Translates a region, stopping at the image edges rather than distorting it.
+ */
+export const moveRegion = <T extends AnnotationRegion>(region: T, dx: number, dy: number): T => {
+  const bounds = getRegionBounds(region);
+  const cdx = Math.min(1 - (bounds.x + bounds.width), Math.max(-bounds.x, dx));
+  const cdy = Math.min(1 - (bounds.y + bounds.height), Math.max(-bounds.y, dy));
+  if (region.kind === 'box') {
+    return { ...region, x: region.x + cdx, y: region.y + cdy, source: 'human' };
+  }
+  return { ...region, points: region.points.map(p => ({ x: p.x + cdx, y: p.y + cdy })), source: 'human' };
+};
+
+/**
+ * Moves one corner of a box while the opposite corner stays fixed.
+ */
+export const resizeBox = (box: BoxRegion, corner: number, to: RegionPoint): BoxRegion => {
+  const anchor = getBoxCorners(box)[(corner + 2) % 4];
+  const resized = createBoxRegion(box.label, anchor, to);
+  return {
+    ...box,
+    ...resized,
+    id: box.id,
+    source: 'human',
+    width: Math.max(MIN_REGION_SIZE, resized.width),
+    height: Math.max(MIN_REGION_SIZE, resized.height),
+  };
+};
+
+export const moveVertex = (polygon: PolygonRegion, index: number, to: RegionPoint): PolygonRegion => ({
+  ...polygon,
+  source: 'human',
+  points: polygon.points.map((p, i) => i === index ? { x: clamp01(to.x), y: clamp01(to.y) } : p),
+});
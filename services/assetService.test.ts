@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { AssetRegistry } from '../types';
+import { DEFAULT_ASSET_REGISTRY, isWithinTagLock, listAssetContexts, resolveAssetTag } from './assetService';
+
+const registry: AssetRegistry = {
+  ...DEFAULT_ASSET_REGISTRY,
+  sites: [{
+    ...DEFAULT_ASSET_REGISTRY.sites[0],
+    areas: [
+      ...DEFAULT_ASSET_REGISTRY.sites[0].areas,
+      {
+        id: 'area-hangar-2',
+        name: 'Hangar 2',
+        kind: 'hangar',
+        machines: [{ id: 'A320-Y', name: 'Airbus A320', tags: ['FB-A320-Y'], components: [{ id: 'cmp-a320-gear', name: 'Nose Gear', zone: 'Fuselage' }] }],
+      },
+    ],
+  }],
+};
+
+const contexts = listAssetContexts(registry);
+const byComponent = (name: string) => contexts.find(c => c.component.name === name)!;
+
+describe('resolveAssetTag', () => {
+  it('locks a component tag to its component', () => {
+    const match = resolveAssetTag(registry, ' fb-b787-x-tail-vs ')!;
+    expect(match.context.component.name).toBe('Tail - Vertical Stabilizer');
+    expect(match.lock.componentKey).toBe(match.context.key);
+  });
+
+  it('locks a machine tag to the machine, keeping the current component when it belongs to it', () => {
+    const current = byComponent('Right Engine - Intake');
+    const match = resolveAssetTag(registry, 'FB-B787-X', current.key)!;
+    expect(match.context.key).toBe(current.key);
+    expect(match.lock).toEqual({ tagId: 'FB-B787-X', machineKey: 'site-main/area-hangar-1/B787-X' });
+
+    expect(resolveAssetTag(registry, 'FB-A320-Y', current.key)!.context.component.name).toBe('Nose Gear');
+  });
+
+  it('returns null for unknown tags', () => {
+    expect(resolveAssetTag(registry, 'FB-UNKNOWN')).toBeNull();
+  });
+});
+
+describe('isWithinTagLock', () => {
+  it('allows any component of a machine-locked machine and nothing else', () => {
+    const { lock } = resolveAssetTag(registry, 'FB-B787-X')!;
+    expect(isWithinTagLock(lock, byComponent('Left Wing - Flap Track'))).toBe(true);
+    expect(isWithinTagLock(lock, byComponent('Nose Gear'))).toBe(false);
+  });
+
+  it('allows only the tagged component of a component lock', () => {
+    const { lock } = resolveAssetTag(registry, 'FB-B787-X-LW-FLAP')!;
+    expect(isWithinTagLock(lock, byComponent('Left Wing - Flap Track'))).toBe(true);
+    expect(isWithinTagLock(lock, byComponent('Fuselage - Section 4A'))).toBe(false);
+  });
+});
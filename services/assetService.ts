@@ -0,0 +1,230 @@
+import { AssetArea, AssetComponent, AssetMachine, AssetRegistry, AssetSite, CapturedItem, CoverageZone } from "../types";
+import { parseCsv } from "./importService";
+
+export const COVERAGE_ZONES: CoverageZone[] = ['Fuselage', 'Wing', 'Engine', 'Tail'];
+
+// Seed registry; mirrors the context options the capture screen shipped with
+export const DEFAULT_ASSET_REGISTRY: AssetRegistry = {
+  updatedAt: 0,
+  sites: [{
+    id: 'site-main',
+    name: 'Main Base',
+    areas: [{
+      id: 'area-hangar-1',
+      name: 'Hangar 1',
+      kind: 'hangar',
+      machines: [{
+        id: 'B787-X',
+        name: 'Boeing 787',
+        tags: ['FB-B787-X'],
+        components: [
+          { id: 'cmp-fuselage-4a', name: 'Fuselage - Section 4A', zone: 'Fuselage', tags: ['FB-B787-X-FUS-4A'] },
+          { id: 'cmp-left-wing-flap', name: 'Left Wing - Flap Track', zone: 'Wing', tags: ['FB-B787-X-LW-FLAP'] },
+          { id: 'cmp-right-engine-intake', name: 'Right Engine - Intake', zone: 'Engine', tags: ['FB-B787-X-RE-INTAKE'] },
+          { id: 'cmp-tail-vstab', name: 'Tail - Vertical Stabilizer', zone: 'Tail', tags: ['FB-B787-X-TAIL-VS'] },
+        ],
+      }],
+    }],
+  }],
+};
+
+// One selectable capture context: a component with its full path in the hierarchy
+export interface AssetContext {
+  key: string;
+  site: AssetSite;
+  area: AssetArea;
+  machine: AssetMachine;
+  component: AssetComponent;
+}
+
+// Identifies a machine by its place in the hierarchy, since machine ids are only unique within an area
+export const getMachineKey = (context: Pick<AssetContext, 'site' | 'area' | 'machine'>): string =>
+  [context.site.id, context.area.id, context.machine.id].join('/');
+
+export const listAssetContexts = (registry: AssetRegistry): AssetContext[] => {
+  return registry.sites.flatMap(site => site.areas.flatMap(area => area.machines.flatMap(machine =>
+    machine.components.map(component => ({
+      key: [site.id, area.id, machine.id, component.id].join('/'),
+      site,
+      area,
+      machine,
+      component,
+    }))
+  )));
+};
+
+export const contextToMetadata = (context: AssetContext): CapturedItem['metadata'] => ({
+  machineId: context.machine.id,
+  component: context.component.name,
+  location: context.area.name,
+  site: context.site.name,
+});
+
+// Free-text context handed to the model alongside the image
+export const describeContext = (context: AssetContext): string => {
+  const base = `${context.machine.name} (${context.machine.id}) - ${context.component.name}`;
+  return context.component.description ? `${base}: ${context.component.description}` : base;
+};
+
+/**
+ * Maps a capture's component onto a digital-twin zone. Components missing from the registry
+ * (older captures, imports) fall back to matching the zone name inside the component label.
+ */
+export const getComponentZone = (registry: AssetRegistry, component: string): CoverageZone | undefined => {
+  const match = listAssetContexts(registry).find(c => c.component.name.toLowerCase() === component.toLowerCase());
+  if (match) return match.component.zone;
+  return COVERAGE_ZONES.find(zone => component.toLowerCase().includes(zone.toLowerCase()));
+};
+
+/**
+ * Zones that have at least one registered component, in twin order, with the components pinned to each.
+ */
+export const getRegistryParts = (registry: AssetRegistry): { zone: CoverageZone; components: string[] }[] => {
+  const components = listAssetContexts(registry).map(c => c.component);
+  return COVERAGE_ZONES
+    .map(zone => ({ zone, components: [...new Set(components.filter(c => c.zone === zone).map(c => c.name))] }))
+    .filter(part => part.components.length > 0);
+};
+
+const hasTag = (tags: string[] | undefined, tagId: string) =>
+  !!tags?.some(tag => tag.trim().toLowerCase() === tagId.trim().toLowerCase());
+
+// What a scanned tag vouches for: always the machine, and the component only for component tags
+export interface AssetTagLock {
+  tagId: string;
+  machineKey: string;
+  componentKey?: string;
+}
+
+/**
+ * Resolves a scanned tag to a capture context and the lock it places on it. Component tags win
+ * over machine tags; a machine tag keeps the current component if it belongs to that machine,
+ * otherwise picks its first one.
+ */
+export const resolveAssetTag = (registry: AssetRegistry, tagId: string, currentKey?: string): { context: AssetContext; lock: AssetTagLock } | null => {
+  const contexts = listAssetContexts(registry);
+  const byComponent = contexts.find(c => hasTag(c.component.tags, tagId));
+  if (byComponent) return { context: byComponent, lock: { tagId, machineKey: getMachineKey(byComponent), componentKey: byComponent.key } };
+  const machineContexts = contexts.filter(c => hasTag(c.machine.tags, tagId));
+  const context = machineContexts.find(c => c.key === currentKey) ?? machineContexts[0];
+  return context ? { context, lock: { tagId, machineKey: getMachineKey(context) } } : null;
+};
+
+export const isWithinTagLock = (lock: AssetTagLock, context: AssetContext): boolean =>
+  getMachineKey(context) === lock.machineKey && (!lock.componentKey || lock.componentKey === context.key);
+
+const newId = () => crypto.randomUUID();
+
+const asString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`Missing ${field}`);
+  return value.trim();
+};
+
+const asZone = (value: unknown): CoverageZone | undefined =>
+  COVERAGE_ZONES.find(zone => typeof value === 'string' && zone.toLowerCase() === value.trim().toLowerCase());
+
+// Loose shape accepted from hand-written registry files
+interface RawComponent { id?: string; name?: string; zone?: string; description?: string; tags?: string[] }
+interface RawMachine { id?: string; machineId?: string; name?: string; components?: (string | RawComponent)[]; tags?: string[] }
+interface RawArea { id?: string; name?: string; kind?: string; machines?: RawMachine[] }
+interface RawSite { id?: string; name?: string; areas?: RawArea[]; lines?: RawArea[]; hangars?: RawArea[] }
+
+/**
+ * Accepts either `{ sites: [...] }` or a bare array of sites. Ids are generated where missing
+ * and components may be given as plain names.
+ */
+export const parseRegistryJson = (text: string): AssetRegistry => {
+  const json = JSON.parse(text);
+  const sites = Array.isArray(json) ? json : json?.sites;
+  if (!Array.isArray(sites)) throw new Error('Expected an array of sites or an object with a "sites" array');
+
+  return {
+    updatedAt: Date.now(),
+    sites: (sites as RawSite[]).map((site): AssetSite => ({
+      id: site.id || newId(),
+      name: asString(site.name, 'site name'),
+      areas: (site.areas ?? site.lines ?? site.hangars ?? []).map((area): AssetArea => ({
+        id: area.id || newId(),
+        name: asString(area.name, `area name in ${site.name}`),
+        kind: area.kind === 'line' ? 'line' : 'hangar',
+        machines: (area.machines ?? []).map((machine): AssetMachine => ({
+          id: asString(machine.id ?? machine.machineId, `machine id in ${area.name}`),
+          name: machine.name || machine.id || machine.machineId || '',
+          tags: machine.tags,
+          components: (machine.components ?? []).map((component): AssetComponent =>
+            typeof component === 'string'
+              ? { id: newId(), name: asString(component, 'component name') }
+              : {
+                  id: component.id || newId(),
+                  name: asString(component.name, `component name on ${machine.id}`),
+                  zone: asZone(component.zone),
+                  description: component.description || undefined,
+                  tags: component.tags,
+                }
+          ),
+        })),
+      })),
+    })),
+  };
+};
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  site: ['site', 'site_name'],
+  area: ['area', 'line', 'hangar', 'location'],
+  kind: ['area_kind', 'kind', 'type'],
+  machineId: ['machine_id', 'machineid', 'machine', 'asset_id'],
+  machineName: ['machine_name', 'machinename', 'model'],
+  component: ['component', 'component_name', 'part'],
+  zone: ['zone'],
+  description: ['description', 'notes'],
+  tags: ['tags', 'tag', 'tag_id', 'tag_ids'],
+  machineTags: ['machine_tags', 'machine_tag'],
+};
+
+// Several tags can share a cell, separated by | or ;
+const splitTags = (value: string) => value.split(/[|;]/).map(t => t.trim()).filter(Boolean);
+
+/**
+ * One row per component: site, area, machine_id and component are required; area_kind,
+ * machine_name, zone, description, tags and machine_tags are optional.
+ */
+export const parseRegistryCsv = (text: string): AssetRegistry => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) throw new Error('CSV is empty');
+  const columns = header.map(h => h.trim().toLowerCase());
+  const indexOf = (key: string) => columns.findIndex(c => CSV_COLUMNS[key].includes(c));
+  ['site', 'area', 'machineId', 'component'].forEach(key => {
+    if (indexOf(key) < 0) throw new Error(`CSV has no ${CSV_COLUMNS[key][0]} column`);
+  });
+  const get = (row: string[], key: string) => {
+    const index = indexOf(key);
+    return index >= 0 ? row[index]?.trim() || '' : '';
+  };
+
+  const sites: AssetSite[] = [];
+  rows.forEach((row, i) => {
+    const siteName = get(row, 'site');
+    const areaName = get(row, 'area');
+    const machineId = get(row, 'machineId');
+    const componentName = get(row, 'component');
+    if (!siteName || !areaName || !machineId || !componentName) throw new Error(`Row ${i + 2} is missing a required value`);
+
+    let site = sites.find(s => s.name === siteName);
+    if (!site) sites.push(site = { id: newId(), name: siteName, areas: [] });
+    let area = site.areas.find(a => a.name === areaName);
+    if (!area) site.areas.push(area = { id: newId(), name: areaName, kind: get(row, 'kind').toLowerCase() === 'line' ? 'line' : 'hangar', machines: [] });
+    let machine = area.machines.find(m => m.id === machineId);
+    if (!machine) area.machines.push(machine = { id: machineId, name: get(row, 'machineName') || machineId, components: [] });
+    const machineTags = splitTags(get(row, 'machineTags'));
+    if (machineTags.length) machine.tags = [...new Set([...(machine.tags ?? []), ...machineTags])];
+    if (machine.components.some(c => c.name === componentName)) return;
+    machine.components.push({
+      id: newId(),
+      name: componentName,
+      zone: asZone(get(row, 'zone')),
+      description: get(row, 'description') || undefined,
+      tags: splitTags(get(row, 'tags')),
+    });
+  });
+  return { sites, updatedAt: Date.now() };
+};
@@ -0,0 +1,72 @@
+// Hands-free shutter: frames are reduced to tiny luma thumbnails so motion between samples
+// and similarity to the previous capture can be compared cheaply on every tick.
+
+const SIGNATURE_WIDTH = 32;
+const SIGNATURE_HEIGHT = 24;
+
+// Mean absolute luma difference (0-255) between consecutive samples below which the view counts as steady
+const STABLE_MOTION_THRESHOLD = 4;
+// A steady frame this close to the last capture is treated as the same view
+const SAME_VIEW_THRESHOLD = 10;
+
+export const AUTO_CAPTURE_DELAYS_MS = [1000, 2000, 3000, 5000];
+export const DEFAULT_AUTO_CAPTURE_DELAY_MS = 2000;
+
+export const frameSignature = (source: CanvasImageSource): Uint8Array | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SIGNATURE_WIDTH;
+  canvas.height = SIGNATURE_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+  const signature = new Uint8Array(SIGNATURE_WIDTH * SIGNATURE_HEIGHT);
+  for (let i = 0, p = 0; i < signature.length; i++, p += 4) {
+    signature[i] = Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]);
+  }
+  return signature;
+};
+
+export const signatureDistance = (a: Uint8Array, b: Uint8Array): number => {
+  if (a.length !== b.length) return Infinity;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / a.length;
+};
+
+export interface AutoCaptureState {
+  previous: Uint8Array | null; // Signature of the last sampled frame
+  stableSince: number | null;
+}
+
+export const INITIAL_AUTO_CAPTURE_STATE: AutoCaptureState = { previous: null, stableSince: null };
+
+export interface AutoCaptureStep {
+  state: AutoCaptureState;
+  phase: 'moving' | 'quality' | 'same-view' | 'counting' | 'fire';
+  remainingMs: number | null; // Countdown while 'counting'
+}
+
+/**
+ * Advances the auto-capture state machine by one sampled frame. The countdown restarts whenever
+ * the camera moves or the frame fails the quality checks, and never fires on the view captured last.
+ */
+export const stepAutoCapture = (
+  state: AutoCaptureState,
+  frame: { signature: Uint8Array; passesQuality: boolean; now: number },
+  options: { delayMs: number; lastCaptured: Uint8Array | null },
+): AutoCaptureStep => {
+  const isSteady = !!state.previous && signatureDistance(state.previous, frame.signature) < STABLE_MOTION_THRESHOLD;
+  if (!isSteady) return { state: { previous: frame.signature, stableSince: null }, phase: 'moving', remainingMs: null };
+  if (!frame.passesQuality) return { state: { previous: frame.signature, stableSince: null }, phase: 'quality', remainingMs: null };
+  if (options.lastCaptured && signatureDistance(options.lastCaptured, frame.signature) < SAME_VIEW_THRESHOLD) {
+    return { state: { previous: frame.signature, stableSince: null }, phase: 'same-view', remainingMs: null };
+  }
+
+  const stableSince = state.stableSince ?? frame.now;
+  const remainingMs = options.delayMs - (frame.now - stableSince);
+  const next = { previous: frame.signature, stableSince };
+  return remainingMs <= 0
+    ? { state: INITIAL_AUTO_CAPTURE_STATE, phase: 'fire', remainingMs: 0 }
+    : { state: next, phase: 'counting', remainingMs };
+};
@@ -0,0 +1,58 @@
+import { AngleChecklist, AngleRequest, CapturedItem } from "../types";
+
+export const checklistKey = (metadata: Pick<CapturedItem['metadata'], 'machineId' | 'component'>) =>
+  `${metadata.machineId}::${metadata.component}`;
+
+const sameAngle = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const getOutstandingAngles = (checklist: AngleChecklist | undefined) =>
+  checklist?.angles.filter(a => !a.fulfilledBy) ?? [];
+
+// A session covers the angle of each of its shots; a single capture only the one it was shot for
+const getCoveredAngles = (item: CapturedItem): string[] => {
+  const angles = item.session ? item.session.shots.map(shot => shot.angle) : [item.metadata.angle];
+  return angles.filter((angle): angle is string => !!angle?.trim());
+};
+
+/**
+ * Folds a saved capture into its component's checklist: the angles it was shot for are ticked
+ * off, and any angles its analysis still lists as missing are added unless already outstanding.
+ * Returns null when nothing changed.
+ */
+export const applyCaptureToChecklist = (checklist: AngleChecklist | undefined, item: CapturedItem): AngleChecklist | null => {
+  const base: AngleChecklist = checklist ?? {
+    id: checklistKey(item.metadata),
+    machineId: item.metadata.machineId,
+    component: item.metadata.component,
+    angles: [],
+  };
+  const covered = getCoveredAngles(item);
+  let changed = false;
+
+  let angles = base.angles.map(request => {
+    if (request.fulfilledBy || !covered.some(angle => sameAngle(request.angle, angle))) return request;
+    changed = true;
+    return { ...request, fulfilledBy: item.id, fulfilledAt: item.timestamp };
+  });
+
+  (item.analysis?.missingAngles ?? []).forEach(angle => {
+    if (!angle.trim() || angles.some(a => !a.fulfilledBy && sameAngle(a.angle, angle))) return;
+    changed = true;
+    angles = [...angles, { angle: angle.trim(), requestedAt: item.timestamp, requestedBy: item.id }];
+  });
+
+  return changed ? { ...base, angles } : null;
+};
+
+/**
+ * Manual override from the checklist UI, for angles covered outside the app or no longer needed.
+ */
+export const toggleAngle = (checklist: AngleChecklist, target: AngleRequest): AngleChecklist => ({
+  ...checklist,
+  angles: checklist.angles.map(request => {
+    if (request.angle !== target.angle || request.requestedBy !== target.requestedBy) return request;
+    return request.fulfilledBy
+      ? { ...request, fulfilledBy: undefined, fulfilledAt: undefined }
+      : { ...request, fulfilledBy: 'manual', fulfilledAt: Date.now() };
+  }),
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedItem } from '../types';
+import { clusterDuplicates, findNearDuplicates, getCountableItems, hammingDistance, mergeCluster } from './duplicateService';
+
+const capture = (id: string, phash: string | undefined, overrides: Partial<CapturedItem> = {}): CapturedItem => ({
+  id,
+  timestamp: 1000,
+  imageUrl: `data:image/jpeg;base64,${id}`,
+  analysis: null,
+  status: 'pending',
+  metadata: { machineId: 'M-1', component: 'Mount', location: 'Line 1' },
+  phash,
+  ...overrides,
+});
+
+// Hashes a given number of bits away from BASE
+const BASE = '0000000000000000';
+const flipped = (bits: number) => ((1n << BigInt(bits)) - 1n).toString(16).padStart(16, '0');
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance(BASE, BASE)).toBe(0);
+    expect(hammingDistance(BASE, flipped(5))).toBe(5);
+    expect(hammingDistance('ffffffffffffffff', BASE)).toBe(64);
+    expect(hammingDistance('f0', '0f')).toBe(8);
+  });
+
+  it('treats hashes of different lengths as unrelated', () => {
+    expect(hammingDistance('00', BASE)).toBe(Infinity);
+  });
+});
+
+describe('findNearDuplicates', () => {
+  it('returns items within the threshold, closest first, skipping the item itself', () => {
+    const items = [
+      capture('far', flipped(7)),
+      capture('near', flipped(4)),
+      capture('nearest', flipped(1)),
+      capture('self', BASE),
+      capture('unhashed', undefined),
+      capture('distinct', BASE, { distinctFromDuplicates: true }),
+    ];
+    expect(findNearDuplicates(BASE, items, 'self').map(i => i.id)).toEqual(['nearest', 'near']);
+  });
+});
+
+describe('clusterDuplicates', () => {
+  it('clusters transitively, so a drift of re-shoots ends up together', () => {
+    // a-b and b-c are within 6 bits, a-c is not
+    const items = [capture('a', BASE), capture('b', flipped(4)), capture('c', flipped(8)), capture('lone', 'ffffffffffffffff')];
+    const clusters = clusterDuplicates(items);
+    expect(clusters).toHaveLength(1);
+    expect([clusters[0].representative, ...clusters[0].duplicates].map(i => i.id).sort()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('keeps the reviewed, analyzed and sharpest member as representative', () => {
+    const analysis = { defectType: 'Rust', severity: 'Low' as const, confidence: 80, instructions: '', isQualitySufficient: true };
+    const quality = (sharpness: number) => ({ sharpness, meanLuma: 128, underexposed: 0, overexposed: 0, glare: 0, subjectFill: 0.5 });
+    const [cluster] = clusterDuplicates([
+      capture('unanalyzed', BASE),
+      capture('blurry', BASE, { analysis, quality: quality(10) }),
+      capture('sharp', BASE, { analysis, quality: quality(90) }),
+      capture('approved', BASE, { analysis, status: 'approved', quality: quality(5) }),
+    ]);
+    expect(cluster.representative.id).toBe('approved');
+    expect(cluster.duplicates.map(i => i.id)).toEqual(['sharp', 'blurry', 'unanalyzed']);
+  });
+
+  it('never clusters items a reviewer marked as distinct', () => {
+    expect(clusterDuplicates([capture('a', BASE), capture('b', BASE, { distinctFromDuplicates: true })])).toEqual([]);
+  });
+});
+
+describe('getCountableItems', () => {
+  it('collapses each cluster to its representative', () => {
+    const items = [capture('old', BASE, { timestamp: 1 }), capture('new', BASE, { timestamp: 2 }), capture('other', 'ffffffffffffffff')];
+    expect(getCountableItems(items).map(i => i.id)).toEqual(['old', 'other']);
+  });
+});
+
+describe('mergeCluster', () => {
+  it('folds every member image into the representative as session shots', () => {
+    const [cluster] = clusterDuplicates([
+      capture('keep', BASE, { status: 'approved', metadata: { machineId: 'M-1', component: 'Mount', location: 'Line 1', angle: 'Front' } }),
+      capture('reshoot', BASE),
+    ]);
+    const merged = mergeCluster(cluster);
+    expect(merged.id).toBe('keep');
+    expect(merged.status).toBe('approved');
+    expect(merged.session!.shots.map(s => s.id)).toEqual(['keep', 'reshoot']);
+    expect(merged.session!.shots[0]).toMatchObject({ imageUrl: merged.imageUrl, angle: 'Front' });
+  });
+});
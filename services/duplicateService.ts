@@ -0,0 +1,134 @@
+import { CapturedItem, SessionShot } from "../types";
+
+// dHash: the image is shrunk to 9x8 grey pixels and each bit records whether a pixel is brighter
+// than its right-hand neighbour. Re-shoots of the same view land within a few bits of each other.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Hashes at most this many bits apart (of 64) are treated as the same view
+export const NEAR_DUPLICATE_DISTANCE = 6;
+
+export const computeDHash = (source: CanvasImageSource): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const luma = (x: number, y: number) => {
+    const p = (y * HASH_WIDTH + x) * 4;
+    return 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  };
+
+  let hex = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) byte = (byte << 1) | (luma(x, y) > luma(x + 1, y) ? 1 : 0);
+    hex += byte.toString(16).padStart(2, '0');
+  }
+  return hex;
+};
+
+export const hashImageUrl = async (imageUrl: string): Promise<string> => {
+  const img = new Image();
+  img.src = imageUrl;
+  await img.decode();
+  return computeDHash(img);
+};
+
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+const isComparable = (item: CapturedItem) => !!item.phash && !item.distinctFromDuplicates;
+
+/**
+ * Items whose image is within NEAR_DUPLICATE_DISTANCE of the hash, closest first.
+ */
+export const findNearDuplicates = (phash: string, items: CapturedItem[], excludeId?: string): CapturedItem[] => {
+  return items
+    .filter(item => item.id !== excludeId && isComparable(item))
+    .map(item => ({ item, distance: hammingDistance(phash, item.phash!) }))
+    .filter(({ distance }) => distance <= NEAR_DUPLICATE_DISTANCE)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ item }) => item);
+};
+
+const STATUS_RANK: Record<CapturedItem['status'], number> = { approved: 2, pending: 1, rejected: 0 };
+
+/**
+ * Orders cluster members by how worth keeping they are: reviewed, analyzed, sharp, confident, oldest.
+ */
+const compareForKeeping = (a: CapturedItem, b: CapturedItem): number =>
+  STATUS_RANK[b.status] - STATUS_RANK[a.status]
+  || Number(!!b.analysis) - Number(!!a.analysis)
+  || (b.quality?.sharpness ?? 0) - (a.quality?.sharpness ?? 0)
+  || (b.analysis?.confidence ?? 0) - (a.analysis?.confidence ?? 0)
+  || a.timestamp - b.timestamp;
+
+export interface DuplicateCluster {
+  id: string; // Id of the representative
+  representative: CapturedItem; // The member to keep; the others are left out of statistics and exports
+  duplicates: CapturedItem[];
+}
+
+/**
+ * Groups near-duplicate items. Membership is transitive, so a slow drift of re-shoots ends up in
+ * one cluster. Items marked distinct by a reviewer are never clustered.
+ */
+export const clusterDuplicates = (items: CapturedItem[]): DuplicateCluster[] => {
+  const candidates = items.filter(isComparable);
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (hammingDistance(candidates[i].phash!, candidates[j].phash!) <= NEAR_DUPLICATE_DISTANCE) parent[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, CapturedItem[]>();
+  candidates.forEach((item, i) => groups.set(find(i), [...(groups.get(find(i)) ?? []), item]));
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => {
+      const [representative, ...duplicates] = [...group].sort(compareForKeeping);
+      return { id: representative.id, representative, duplicates };
+    });
+};
+
+/**
+ * The dataset with every duplicate cluster collapsed to its representative, for counts,
+ * class balance, goal progress and exports.
+ */
+export const getCountableItems = (items: CapturedItem[]): CapturedItem[] => {
+  const hidden = new Set(clusterDuplicates(items).flatMap(cluster => cluster.duplicates.map(d => d.id)));
+  return items.filter(item => !hidden.has(item.id));
+};
+
+const toShots = (item: CapturedItem): SessionShot[] =>
+  item.session?.shots ?? [{ id: item.id, imageUrl: item.imageUrl, timestamp: item.timestamp, angle: item.metadata.angle, quality: item.quality }];
+
+/**
+ * Folds every image of the cluster into the representative as an inspection session, keeping
+ * its labels and review. The caller deletes the other members.
+ */
+export const mergeCluster = (cluster: DuplicateCluster): CapturedItem => {
+  const { representative } = cluster;
+  const shots = [representative, ...cluster.duplicates].flatMap(toShots);
+  const unique = shots.filter((shot, i) => shots.findIndex(s => s.imageUrl === shot.imageUrl) === i);
+  return {
+    ...representative,
+    session: { id: representative.session?.id ?? crypto.randomUUID(), shots: unique },
+  };
+};
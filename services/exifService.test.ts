@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { readExif } from './exifService';
+
+// TIFF field types: 1 BYTE, 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL
+interface Field {
+  tag: number;
+  type: 1 | 2 | 3 | 4 | 5;
+  value: string | number | number[];
+}
+
+const valueSize = (f: Field) =>
+  f.type === 2 ? (f.value as string).length + 1
+  : ({ 1: 1, 3: 2, 4: 4, 5: 8 } as const)[f.type] * (Array.isArray(f.value) ? f.value.length : 1);
+
+const ifdSize = (fields: Field[]) =>
+  2 + fields.length * 12 + 4 + fields.reduce((sum, f) => sum + (valueSize(f) > 4 ? valueSize(f) : 0), 0);
+
+/**
+ * Builds a JPEG whose APP1 segment holds IFD0, an Exif IFD and a GPS IFD, in the given byte order.
+ * Pointers to the sub-IFDs are filled in here.
+ */
+const buildJpeg = (little: boolean, ifd0: Field[], exif: Field[], gps: Field[]): ArrayBuffer => {
+  const exifOffset = 8 + ifdSize([...ifd0, { tag: 0x8769, type: 4, value: 0 }, { tag: 0x8825, type: 4, value: 0 }]);
+  const gpsOffset = exifOffset + ifdSize(exif);
+  const ifds = [
+    [...ifd0, { tag: 0x8769, type: 4, value: exifOffset }, { tag: 0x8825, type: 4, value: gpsOffset }] as Field[],
+    exif,
+    gps,
+  ];
+  const tiffSize = gpsOffset + ifdSize(gps);
+  const tiffStart = 12; // SOI, APP1 marker and length, "Exif\0\0"
+  const buffer = new ArrayBuffer(tiffStart + tiffSize + 2);
+  const view = new DataView(buffer);
+
+  view.setUint16(0, 0xffd8);
+  view.setUint16(2, 0xffe1);
+  view.setUint16(4, 8 + tiffSize);
+  view.setUint32(6, 0x45786966); // "Exif"
+  view.setUint16(tiffStart, little ? 0x4949 : 0x4d4d);
+  view.setUint16(tiffStart + 2, 42, little);
+  view.setUint32(tiffStart + 4, 8, little);
+
+  let ifdOffset = 8;
+  ifds.forEach(fields => {
+    let dataOffset = ifdOffset + 2 + fields.length * 12 + 4;
+    view.setUint16(tiffStart + ifdOffset, fields.length, little);
+    fields.forEach((f, i) => {
+      const entry = tiffStart + ifdOffset + 2 + i * 12;
+      const size = valueSize(f);
+      view.setUint16(entry, f.tag, little);
+      view.setUint16(entry + 2, f.type, little);
+      view.setUint32(entry + 4, f.type === 2 ? size : Array.isArray(f.value) ? f.value.length : 1, little);
+      let at = entry + 8;
+      if (size > 4) {
+        view.setUint32(entry + 8, dataOffset, little);
+        at = tiffStart + dataOffset;
+        dataOffset += size;
+      }
+      const values = Array.isArray(f.value) ? f.value : [f.value];
+      if (f.type === 2) [...(f.value as string)].forEach((c, j) => view.setUint8(at + j, c.charCodeAt(0)));
+      else if (f.type === 1) view.setUint8(at, f.value as number);
+      else if (f.type === 3) view.setUint16(at, f.value as number, little);
+      else if (f.type === 4) view.setUint32(at, f.value as number, little);
+      else values.forEach((v, j) => {
+        // Rationals with a denominator of 1000 keep three decimals
+        view.setUint32(at + j * 8, Math.round((v as number) * 1000), little);
+        view.setUint32(at + j * 8 + 4, 1000, little);
+      });
+    });
+    ifdOffset += ifdSize(fields);
+  });
+  view.setUint16(tiffStart + tiffSize, 0xffd9);
+  return buffer;
+};
+
+const IFD0: Field[] = [
+  { tag: 0x010f, type: 2, value: 'Canon' },
+  { tag: 0x0110, type: 2, value: 'EOS R6' },
+  { tag: 0x0112, type: 3, value: 6 },
+  { tag: 0x0132, type: 2, value: '2024:01:01 00:00:00' },
+];
+const EXIF: Field[] = [
+  { tag: 0x9003, type: 2, value: '2025:03:14 09:26:53' },
+  { tag: 0x9011, type: 2, value: '+02:00' },
+];
+const GPS: Field[] = [
+  { tag: 0x0001, type: 2, value: 'S' },
+  { tag: 0x0002, type: 5, value: [33, 52, 4.5] },
+  { tag: 0x0003, type: 2, value: 'W' },
+  { tag: 0x0004, type: 5, value: [151, 12, 36] },
+  { tag: 0x0005, type: 1, value: 1 },
+  { tag: 0x0006, type: 5, value: [12.5] },
+];
+
+describe('readExif', () => {
+  it.each([
+    ['little-endian', true],
+    ['big-endian', false],
+  ])('reads camera, orientation, capture time and GPS from %s EXIF', (_, little) => {
+    const exif = readExif(buildJpeg(little, IFD0, EXIF, GPS));
+
+    expect(exif.cameraMake).toBe('Canon');
+    expect(exif.cameraModel).toBe('EOS R6');
+    expect(exif.orientation).toBe(6);
+    expect(exif.capturedAt).toBe(Date.parse('2025-03-14T09:26:53+02:00'));
+    expect(exif.gps!.latitude).toBeCloseTo(-(33 + 52 / 60 + 4.5 / 3600), 6);
+    expect(exif.gps!.longitude).toBeCloseTo(-(151 + 12 / 60 + 36 / 3600), 6);
+    expect(exif.gps!.altitude).toBe(-12.5);
+  });
+
+  it('falls back to the IFD0 date when the original capture time is missing', () => {
+    const exif = readExif(buildJpeg(true, IFD0, [], []));
+    expect(exif.capturedAt).toBe(new Date('2024-01-01T00:00:00').getTime());
+    expect(exif.gps).toBeUndefined();
+  });
+
+  it('returns nothing for files without EXIF', () => {
+    expect(readExif(new Uint8Array([0xff, 0xd8, 0xff, 0xda, 0x00, 0x02, 0xff, 0xd9]).buffer)).toEqual({});
+    expect(readExif(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toEqual({});
+    expect(readExif(new ArrayBuffer(0))).toEqual({});
+  });
+});
@@ -0,0 +1,137 @@
+import { PhotoExif } from "../types";
+
+// Minimal EXIF reader for JPEG uploads: only the handful of tags the dataset keeps.
+// HEIC/PNG and photos stripped by messaging apps simply come back without EXIF.
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LAT_REF = 0x0001;
+const TAG_GPS_LAT = 0x0002;
+const TAG_GPS_LON_REF = 0x0003;
+const TAG_GPS_LON = 0x0004;
+const TAG_GPS_ALT_REF = 0x0005;
+const TAG_GPS_ALT = 0x0006;
+
+// Bytes per component for the TIFF field types we may read
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type ExifValue = string | number | number[];
+
+const readIfd = (view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, ExifValue> => {
+  const tags = new Map<number, ExifValue>();
+  const start = tiffStart + ifdOffset;
+  if (start + 2 > view.byteLength) return tags;
+  const count = view.getUint16(start, little);
+
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const components = view.getUint32(entry + 4, little);
+    const size = (TYPE_SIZES[type] ?? 0) * components;
+    if (size === 0) continue;
+    // Values up to four bytes are stored inline, larger ones at an offset from the TIFF header
+    const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+    if (valueOffset + size > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < components; j++) {
+        const code = view.getUint8(valueOffset + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      tags.set(tag, text.trim());
+    } else if (type === 3) {
+      tags.set(tag, view.getUint16(valueOffset, little));
+    } else if (type === 4) {
+      tags.set(tag, view.getUint32(valueOffset, little));
+    } else if (type === 1 || type === 7) {
+      tags.set(tag, view.getUint8(valueOffset));
+    } else if (type === 5 || type === 10) {
+      const values: number[] = [];
+      for (let j = 0; j < components; j++) {
+        const at = valueOffset + j * 8;
+        const num = type === 5 ? view.getUint32(at, little) : view.getInt32(at, little);
+        const den = type === 5 ? view.getUint32(at + 4, little) : view.getInt32(at + 4, little);
+        values.push(den === 0 ? 0 : num / den);
+      }
+      tags.set(tag, values);
+    }
+  }
+  return tags;
+};
+
+// EXIF dates are "YYYY:MM:DD HH:MM:SS" in the camera's local time, optionally with a "+HH:MM" offset tag
+const parseExifDate = (value: ExifValue | undefined, offset: ExifValue | undefined): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  const time = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${zone}`).getTime();
+  return Number.isNaN(time) ? undefined : time;
+};
+
+const toDegrees = (value: ExifValue | undefined, ref: ExifValue | undefined, negativeRef: string): number | undefined => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === negativeRef ? -degrees : degrees;
+};
+
+/**
+ * Reads capture time, GPS position, camera and orientation from a JPEG's EXIF block.
+ * Returns an empty object when the file has none.
+ */
+export const readExif = (buffer: ArrayBuffer): PhotoExif => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return {};
+
+  // Walk the JPEG segments up to the APP1 "Exif" one
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      const little = view.getUint16(tiffStart) === 0x4949;
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+      const exifPointer = ifd0.get(TAG_EXIF_IFD);
+      const gpsPointer = ifd0.get(TAG_GPS_IFD);
+      const exif = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, little) : new Map<number, ExifValue>();
+      const gps = typeof gpsPointer === 'number' ? readIfd(view, tiffStart, gpsPointer, little) : new Map<number, ExifValue>();
+
+      const make = ifd0.get(TAG_MAKE);
+      const model = ifd0.get(TAG_MODEL);
+      const orientation = ifd0.get(TAG_ORIENTATION);
+      const latitude = toDegrees(gps.get(TAG_GPS_LAT), gps.get(TAG_GPS_LAT_REF), 'S');
+      const longitude = toDegrees(gps.get(TAG_GPS_LON), gps.get(TAG_GPS_LON_REF), 'W');
+      const altitude = gps.get(TAG_GPS_ALT);
+
+      return {
+        capturedAt: parseExifDate(exif.get(TAG_DATE_TIME_ORIGINAL), exif.get(TAG_OFFSET_TIME_ORIGINAL)) ?? parseExifDate(ifd0.get(TAG_DATE_TIME), undefined),
+        cameraMake: typeof make === 'string' && make ? make : undefined,
+        cameraModel: typeof model === 'string' && model ? model : undefined,
+        orientation: typeof orientation === 'number' ? orientation : undefined,
+        gps: latitude !== undefined && longitude !== undefined
+          ? {
+              latitude,
+              longitude,
+              altitude: Array.isArray(altitude) ? (gps.get(TAG_GPS_ALT_REF) === 1 ? -altitude[0] : altitude[0]) : undefined,
+            }
+          : undefined,
+      };
+    }
+    // Image data starts at SOS; EXIF never comes after it
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    offset += 2 + length;
+  }
+  return {};
+};
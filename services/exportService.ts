@@ -0,0 +1,324 @@
+import { CapturedItem, DatasetSnapshot, RegionPoint } from "../types";
+import { getRegionBounds, RegionBounds } from "./annotationService";
+import { getCurrentAnalysisRecord } from "./analysisHistoryService";
+import { createZip, ZipEntry } from "./zipService";
+
+export type ExportFormat = 'coco' | 'yolo' | 'voc';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; description: string }[] = [
+  { id: 'coco', label: 'COCO JSON', description: 'Single annotations.json with boxes, polygons and severity attributes' },
+  { id: 'yolo', label: 'YOLO TXT', description: 'One normalized label file per image plus data.yaml' },
+  { id: 'voc', label: 'Pascal VOC XML', description: 'One XML annotation per image in VOC directory layout' },
+];
+
+// One exported object; a capture with a defect but no drawn regions yields a single image-level label
+interface ExportLabel {
+  className: string;
+  bounds: RegionBounds; // normalized 0-1
+  polygon?: RegionPoint[];
+  imageLevel: boolean;
+}
+
+// A session shot other than the primary image; archived for reference, not as a training sample
+interface SessionViewFile {
+  path: string;
+  bytes: Uint8Array;
+  angle?: string;
+}
+
+interface PreparedSample {
+  item: CapturedItem;
+  fileName: string;
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+  labels: ExportLabel[];
+  sessionViews: SessionViewFile[];
+}
+
+export interface DatasetArchive {
+  blob: Blob;
+  filename: string;
+  sampleCount: number;
+  classes: string[];
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+export const dataUrlToBytes = (dataUrl: string): { bytes: Uint8Array; mimeType: string } => {
+  const [header, base64] = dataUrl.split(',');
+  const mimeType = header.match(/data:(.*?);base64/)?.[1] || 'image/jpeg';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return { bytes, mimeType };
+};
+
+export const getImageSize = (src: string): Promise<{ width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = src;
+  });
+};
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const getLabels = (item: CapturedItem): ExportLabel[] => {
+  const regions = item.regions ?? [];
+  if (regions.length > 0) {
+    return regions.map(region => ({
+      className: region.label,
+      bounds: getRegionBounds(region),
+      polygon: region.kind === 'polygon' ? region.points : undefined,
+      imageLevel: false,
+    }));
+  }
+  const defectType = item.analysis?.defectType;
+  if (!defectType || defectType === 'None') return [];
+  return [{ className: defectType, bounds: { x: 0, y: 0, width: 1, height: 1 }, imageLevel: true }];
+};
+
+// The first shot is the item's own image; the others go in a separate folder, listed under the item in the manifest
+const getSessionViews = (item: CapturedItem): SessionViewFile[] =>
+  (item.session?.shots.slice(1) ?? []).map(shot => {
+    const { bytes, mimeType } = dataUrlToBytes(shot.imageUrl);
+    return { path: `session_views/${item.id}-${shot.id}.${MIME_EXTENSIONS[mimeType] || 'jpg'}`, bytes, angle: shot.angle };
+  });
+
+const prepareSamples = async (items: CapturedItem[]): Promise<PreparedSample[]> => {
+  return Promise.all(items.map(async item => {
+    const { bytes, mimeType } = dataUrlToBytes(item.imageUrl);
+    const { width, height } = await getImageSize(item.imageUrl);
+    return {
+      item,
+      fileName: `${item.id}.${MIME_EXTENSIONS[mimeType] || 'jpg'}`,
+      bytes,
+      width,
+      height,
+      labels: getLabels(item),
+      sessionViews: getSessionViews(item),
+    };
+  }));
+};
+
+const toPixels = (b: RegionBounds, s: PreparedSample) => ({
+  x: Math.round(b.x * s.width),
+  y: Math.round(b.y * s.height),
+  width: Math.round(b.width * s.width),
+  height: Math.round(b.height * s.height),
+});
+
+// Samples grouped by their assigned split, or null when splits have not been generated.
+// Approved items added after the split was built are exported as 'unassigned' rather than guessed.
+const groupBySplit = (samples: PreparedSample[]): [string, PreparedSample[]][] | null => {
+  if (!samples.some(s => s.item.split)) return null;
+  const groups = new Map<string, PreparedSample[]>();
+  samples.forEach(s => {
+    const split = s.item.split ?? 'unassigned';
+    groups.set(split, [...(groups.get(split) ?? []), s]);
+  });
+  return [...groups];
+};
+
+const buildManifest = (samples: PreparedSample[], format: ExportFormat, classes: string[], version?: DatasetSnapshot) => ({
+  format,
+  exportedAt: new Date().toISOString(),
+  datasetVersion: version && {
+    id: version.id,
+    name: version.name,
+    createdAt: new Date(version.createdAt).toISOString(),
+    manifestHash: version.manifestHash,
+  },
+  sampleCount: samples.length,
+  classes,
+  items: samples.map(({ item, fileName, width, height, labels, sessionViews }) => ({
+    id: item.id,
+    file: fileName,
+    width,
+    height,
+    capturedAt: new Date(item.timestamp).toISOString(),
+    machineId: item.metadata.machineId,
+    component: item.metadata.component,
+    location: item.metadata.location,
+    angle: item.metadata.angle,
+    split: item.split,
+    sessionId: item.session?.id,
+    sessionViews: item.session && sessionViews.map(view => ({ file: view.path, angle: view.angle })),
+    camera: [item.exif?.cameraMake, item.exif?.cameraModel].filter(Boolean).join(' ') || undefined,
+    gps: item.exif?.gps,
+    quality: item.quality,
+    defectType: item.analysis?.defectType,
+    severity: item.analysis?.severity,
+    confidence: item.analysis?.confidence,
+    model: getCurrentAnalysisRecord(item)?.modelId,
+    promptVersion: getCurrentAnalysisRecord(item)?.promptVersion,
+    status: item.status,
+    reviewer: item.review?.reviewer,
+    reviewedAt: item.review ? new Date(item.review.reviewedAt).toISOString() : undefined,
+    localization: labels.some(l => l.imageLevel) ? 'image-level' : labels.length > 0 ? 'regions' : 'none',
+  })),
+});
+
+const buildCocoDocument = (samples: PreparedSample[], classes: string[]) => {
+  let annotationId = 1;
+  return {
+    info: { description: 'FactoryBridge XR dataset export', version: '1.0', year: new Date().getFullYear(), date_created: new Date().toISOString() },
+    licenses: [],
+    categories: classes.map((name, i) => ({ id: i + 1, name, supercategory: 'defect' })),
+    images: samples.map((s, i) => ({
+      id: i + 1,
+      file_name: s.fileName,
+      width: s.width,
+      height: s.height,
+      date_captured: new Date(s.item.timestamp).toISOString(),
+    })),
+    annotations: samples.flatMap((s, i) => s.labels.map(label => {
+      const px = toPixels(label.bounds, s);
+      return {
+        id: annotationId++,
+        image_id: i + 1,
+        category_id: classes.indexOf(label.className) + 1,
+        bbox: [px.x, px.y, px.width, px.height],
+        area: px.width * px.height,
+        iscrowd: 0,
+        segmentation: label.polygon ? [label.polygon.flatMap(p => [Math.round(p.x * s.width), Math.round(p.y * s.height)])] : [],
+        attributes: { severity: s.item.analysis?.severity, image_level: label.imageLevel },
+      };
+    })),
+  };
+};
+
+const buildCoco = (samples: PreparedSample[], classes: string[]): ZipEntry[] => {
+  const splits = groupBySplit(samples);
+  return [
+    ...samples.map(s => ({ path: `images/${s.fileName}`, data: s.bytes })),
+    ...(splits
+      ? splits.map(([split, group]) => ({ path: `annotations/instances_${split}.json`, data: JSON.stringify(buildCocoDocument(group, classes), null, 2) }))
+      : [{ path: 'annotations.json', data: JSON.stringify(buildCocoDocument(samples, classes), null, 2) }]),
+  ];
+};
+
+const buildYolo = (samples: PreparedSample[], classes: string[]): ZipEntry[] => {
+  const labelFile = (s: PreparedSample) => s.labels.map(label => {
+    const { x, y, width, height } = label.bounds;
+    const values = [x + width / 2, y + height / 2, width, height].map(v => v.toFixed(6));
+    return `${classes.indexOf(label.className)} ${values.join(' ')}`;
+  }).join('\n');
+
+  const splits = groupBySplit(samples);
+  const splitDir = (s: PreparedSample) => (splits ? `${s.item.split ?? 'unassigned'}/` : '');
+  const hasSplit = (split: string) => !!splits?.some(([name]) => name === split);
+
+  const dataYaml = [
+    'path: .',
+    ...(splits
+      ? ['train', 'val', 'test'].filter(hasSplit).map(split => `${split}: images/${split}`)
+      : ['train: images', 'val: images']),
+    // YOLO has no key for them, so trainers skip unassigned items; say so where people look
+    ...(hasSplit('unassigned') ? ['# images/unassigned: approved after the splits were built, not used until they are rebuilt'] : []),
+    `nc: ${classes.length}`,
+    `names: [${classes.map(c => JSON.stringify(c)).join(', ')}]`,
+  ].join('\n');
+
+  return [
+    ...samples.flatMap(s => [
+      { path: `images/${splitDir(s)}${s.fileName}`, data: s.bytes },
+      { path: `labels/${splitDir(s)}${s.fileName.replace(/\.\w+$/, '.txt')}`, data: labelFile(s) },
+    ]),
+    { path: 'classes.txt', data: classes.join('\n') },
+    { path: 'data.yaml', data: dataYaml },
+  ];
+};
+
+const buildVoc = (samples: PreparedSample[], classes: string[]): ZipEntry[] => {
+  const annotation = (s: PreparedSample) => {
+    const objects = s.labels.map(label => {
+      const px = toPixels(label.bounds, s);
+      return `  <object>
+    <name>${escapeXml(label.className)}</name>
+    <pose>Unspecified</pose>
+    <truncated>0</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${px.x}</xmin>
+      <ymin>${px.y}</ymin>
+      <xmax>${px.x + px.width}</xmax>
+      <ymax>${px.y + px.height}</ymax>
+    </bndbox>
+    <attributes>
+      <severity>${escapeXml(s.item.analysis?.severity || '')}</severity>
+      <image_level>${label.imageLevel ? 1 : 0}</image_level>
+    </attributes>
+  </object>`;
+    }).join('\n');
+
+    return `<annotation>
+  <folder>JPEGImages</folder>
+  <filename>${escapeXml(s.fileName)}</filename>
+  <source>
+    <database>FactoryBridge XR</database>
+    <machine>${escapeXml(s.item.metadata.machineId)}</machine>
+    <component>${escapeXml(s.item.metadata.component)}</component>
+    <location>${escapeXml(s.item.metadata.location)}</location>
+  </source>
+  <size>
+    <width>${s.width}</width>
+    <height>${s.height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+${objects}
+</annotation>`;
+  };
+
+  return [
+    ...samples.flatMap(s => [
+      { path: `JPEGImages/${s.fileName}`, data: s.bytes },
+      { path: `Annotations/${s.fileName.replace(/\.\w+$/, '.xml')}`, data: annotation(s) },
+    ]),
+    ...(groupBySplit(samples) ?? [['default', samples] as [string, PreparedSample[]]]).map(([split, group]) => ({
+      path: `ImageSets/Main/${split}.txt`,
+      data: group.map(s => s.fileName.replace(/\.\w+$/, '')).join('\n'),
+    })),
+    { path: 'labels.txt', data: classes.join('\n') },
+  ];
+};
+
+const BUILDERS: Record<ExportFormat, (samples: PreparedSample[], classes: string[]) => ZipEntry[]> = {
+  coco: buildCoco,
+  yolo: buildYolo,
+  voc: buildVoc,
+};
+
+/**
+ * Packages the given items, their images and labels into a downloadable training archive.
+ * Callers decide which items are eligible (normally human-approved ones only). When exporting a
+ * saved dataset version, it is recorded in the manifest so the archive can be traced back to it.
+ * The other views of a session are archived as well and carry the session's label in the manifest.
+ */
+export const buildDatasetArchive = async (items: CapturedItem[], format: ExportFormat, version?: DatasetSnapshot): Promise<DatasetArchive> => {
+  const samples = await prepareSamples(items);
+  const classes = [...new Set(samples.flatMap(s => s.labels.map(l => l.className)))].sort();
+  const entries = [
+    ...BUILDERS[format](samples, classes),
+    ...samples.flatMap(s => s.sessionViews.map(view => ({ path: view.path, data: view.bytes }))),
+    { path: 'manifest.json', data: JSON.stringify(buildManifest(samples, format, classes, version), null, 2) },
+  ];
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+  return {
+    blob: createZip(entries),
+    filename: version
+      ? `factorybridge-${format}-${version.name.replace(/[^\w.-]+/g, '_')}.zip`
+      : `factorybridge-${format}-${stamp}.zip`,
+    sampleCount: samples.length,
+    classes,
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedItem } from '../types';
+import {
+  applyGalleryFilters,
+  countActiveFilters,
+  EMPTY_GALLERY_FILTERS,
+  GalleryFilters,
+  isGalleryLink,
+  parseGalleryFilters,
+  toGallerySearch,
+  withoutGalleryParams,
+} from './galleryFilterService';
+
+const capture = (id: string, overrides: Partial<CapturedItem> = {}, analysis: Partial<NonNullable<CapturedItem['analysis']>> = {}): CapturedItem => ({
+  id,
+  timestamp: new Date('2025-04-02T12:00:00').getTime(),
+  imageUrl: '',
+  analysis: { defectType: 'Rust', severity: 'Medium', confidence: 80, instructions: 'Clean the mount and re-inspect', isQualitySufficient: true, ...analysis },
+  status: 'pending',
+  metadata: { machineId: 'M-1', component: 'Mount', location: 'Line 1' },
+  ...overrides,
+});
+
+const filters = (overrides: Partial<GalleryFilters>): GalleryFilters => ({ ...EMPTY_GALLERY_FILTERS, ...overrides });
+
+describe('gallery URL state', () => {
+  it('round-trips every filter through the query string', () => {
+    const state = filters({
+      search: 'weld seam',
+      severities: ['High', 'Critical'],
+      defectTypes: ['Crack'],
+      components: ['Mount'],
+      machines: ['M-1', 'M-2'],
+      statuses: ['approved'],
+      dateFrom: '2025-04-01',
+      dateTo: '2025-04-30',
+      minConfidence: 40,
+      maxConfidence: 90,
+      quality: 'flagged',
+      sort: 'confidence-asc',
+    });
+    expect(parseGalleryFilters(toGallerySearch(state))).toEqual(state);
+  });
+
+  it('leaves defaults out and keeps parameters that belong to the rest of the app', () => {
+    const search = toGallerySearch(filters({ severities: ['High'] }), '?debug=1&severity=Low');
+    expect(search).toBe('?debug=1&view=gallery&severity=High');
+    expect(isGalleryLink(search)).toBe(true);
+    expect(withoutGalleryParams(search)).toBe('?debug=1');
+    expect(withoutGalleryParams('?view=gallery')).toBe('');
+  });
+
+  it('drops unknown values from old or hand-edited links', () => {
+    expect(parseGalleryFilters('?severity=High&severity=Huge&status=maybe&quality=great&sort=random&minConf=150&maxConf=abc')).toEqual(
+      filters({ severities: ['High'], minConfidence: 100 }),
+    );
+  });
+});
+
+describe('countActiveFilters', () => {
+  it('counts every filter except the sort order', () => {
+    expect(countActiveFilters(filters({ sort: 'oldest' }))).toBe(0);
+    expect(countActiveFilters(filters({ search: 'x', machines: ['M-1'], minConfidence: 0 }))).toBe(3);
+  });
+});
+
+describe('applyGalleryFilters', () => {
+  const items = [
+    capture('rust', {}, { confidence: 95 }),
+    capture('crack', { status: 'approved', timestamp: new Date('2025-04-05T08:00:00').getTime() }, { defectType: 'Crack', severity: 'Critical', confidence: 60, instructions: 'Replace the bracket' }),
+    capture('blurry', { metadata: { machineId: 'M-2', component: 'Gear', location: 'Line 2' } }, { isQualitySufficient: false, confidence: 30 }),
+    capture('pending-analysis', { analysis: null, timestamp: new Date('2025-04-03T08:00:00').getTime() }),
+  ];
+  const ids = (f: Partial<GalleryFilters>) => applyGalleryFilters(items, filters(f)).map(i => i.id);
+
+  it('searches the repair instructions case-insensitively', () => {
+    expect(ids({ search: 'BRACKET' })).toEqual(['crack']);
+  });
+
+  it('combines facets, and analysis facets exclude unanalyzed items', () => {
+    expect(ids({ severities: ['Medium'], machines: ['M-1'] })).toEqual(['rust']);
+    expect(ids({ statuses: ['pending'] })).toEqual(['pending-analysis', 'rust', 'blurry']);
+    expect(ids({ minConfidence: 50, maxConfidence: 90 })).toEqual(['crack']);
+  });
+
+  it('includes the whole last day of a date range', () => {
+    expect(ids({ dateFrom: '2025-04-03', dateTo: '2025-04-05' })).toEqual(['crack', 'pending-analysis']);
+  });
+
+  it('filters on the quality flag', () => {
+    expect(ids({ quality: 'flagged' })).toEqual(['blurry']);
+    expect(ids({ quality: 'ok' })).not.toContain('blurry');
+  });
+
+  it('sorts by severity and by confidence, unanalyzed items last', () => {
+    expect(ids({ sort: 'severity' })[0]).toBe('crack');
+    expect(ids({ sort: 'confidence-desc' })).toEqual(['rust', 'crack', 'blurry', 'pending-analysis']);
+    expect(ids({ sort: 'confidence-asc' })).toEqual(['blurry', 'crack', 'rust', 'pending-analysis']);
+  });
+});
@@ -0,0 +1,182 @@
+import { AnalysisResult, CapturedItem, ReviewStatus } from "../types";
+import { passesQuality } from "./qualityService";
+
+type Severity = AnalysisResult['severity'];
+
+export const SEVERITIES: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
+export const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+export type QualityFilter = 'any' | 'ok' | 'flagged';
+
+export type GallerySort = 'newest' | 'oldest' | 'severity' | 'confidence-desc' | 'confidence-asc' | 'sharpness';
+
+export const GALLERY_SORTS: { id: GallerySort; label: string }[] = [
+  { id: 'newest', label: 'Newest first' },
+  { id: 'oldest', label: 'Oldest first' },
+  { id: 'severity', label: 'Most severe' },
+  { id: 'confidence-desc', label: 'Highest confidence' },
+  { id: 'confidence-asc', label: 'Lowest confidence' },
+  { id: 'sharpness', label: 'Sharpest' },
+];
+
+export interface GalleryFilters {
+  search: string; // Matched against the repair instructions
+  severities: Severity[];
+  defectTypes: string[];
+  components: string[];
+  machines: string[];
+  statuses: ReviewStatus[];
+  dateFrom: string; // yyyy-mm-dd, inclusive; empty for no bound
+  dateTo: string;
+  minConfidence: number | null; // 0-100
+  maxConfidence: number | null;
+  quality: QualityFilter;
+  sort: GallerySort;
+}
+
+export const EMPTY_GALLERY_FILTERS: GalleryFilters = {
+  search: '',
+  severities: [],
+  defectTypes: [],
+  components: [],
+  machines: [],
+  statuses: [],
+  dateFrom: '',
+  dateTo: '',
+  minConfidence: null,
+  maxConfidence: null,
+  quality: 'any',
+  sort: 'newest',
+};
+
+// URL parameter per filter; list filters repeat the parameter once per value
+const PARAMS = {
+  search: 'q',
+  severities: 'severity',
+  defectTypes: 'defect',
+  components: 'component',
+  machines: 'machine',
+  statuses: 'status',
+  dateFrom: 'from',
+  dateTo: 'to',
+  minConfidence: 'minConf',
+  maxConfidence: 'maxConf',
+  quality: 'quality',
+  sort: 'sort',
+} as const satisfies Record<keyof GalleryFilters, string>;
+
+// Present in shared links so the app opens straight on the gallery
+export const GALLERY_VIEW_PARAM = 'view';
+export const GALLERY_VIEW_VALUE = 'gallery';
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(100, Math.max(0, n)) : null;
+};
+
+/**
+ * Reads filters from a query string. Unknown values are dropped rather than rejected, so an
+ * old or hand-edited link still opens with whatever part of it is valid.
+ */
+export const parseGalleryFilters = (search: string): GalleryFilters => {
+  const params = new URLSearchParams(search);
+  const sort = params.get(PARAMS.sort) as GallerySort | null;
+  const quality = params.get(PARAMS.quality) as QualityFilter | null;
+  return {
+    search: params.get(PARAMS.search) ?? '',
+    severities: params.getAll(PARAMS.severities).filter((s): s is Severity => SEVERITIES.includes(s as Severity)),
+    defectTypes: params.getAll(PARAMS.defectTypes),
+    components: params.getAll(PARAMS.components),
+    machines: params.getAll(PARAMS.machines),
+    statuses: params.getAll(PARAMS.statuses).filter((s): s is ReviewStatus => REVIEW_STATUSES.includes(s as ReviewStatus)),
+    dateFrom: params.get(PARAMS.dateFrom) ?? '',
+    dateTo: params.get(PARAMS.dateTo) ?? '',
+    minConfidence: parseNumber(params.get(PARAMS.minConfidence)),
+    maxConfidence: parseNumber(params.get(PARAMS.maxConfidence)),
+    quality: quality && ['ok', 'flagged'].includes(quality) ? quality : 'any',
+    sort: sort && GALLERY_SORTS.some(s => s.id === sort) ? sort : 'newest',
+  };
+};
+
+export const isGalleryLink = (search: string): boolean =>
+  new URLSearchParams(search).get(GALLERY_VIEW_PARAM) === GALLERY_VIEW_VALUE;
+
+/**
+ * The query string for a filter state, with defaults left out so links stay short.
+ * Parameters that belong to other parts of the app are preserved.
+ */
+export const toGallerySearch = (filters: GalleryFilters, currentSearch = ''): string => {
+  const params = new URLSearchParams(currentSearch);
+  Object.values(PARAMS).forEach(param => params.delete(param));
+  params.set(GALLERY_VIEW_PARAM, GALLERY_VIEW_VALUE);
+
+  (Object.keys(PARAMS) as (keyof GalleryFilters)[]).forEach(key => {
+    const value = filters[key];
+    if (JSON.stringify(value) === JSON.stringify(EMPTY_GALLERY_FILTERS[key])) return;
+    if (Array.isArray(value)) value.forEach(v => params.append(PARAMS[key], v));
+    else params.set(PARAMS[key], String(value));
+  });
+  return `?${params.toString()}`;
+};
+
+// Drops the gallery state from the URL when the gallery is closed
+export const withoutGalleryParams = (currentSearch: string): string => {
+  const params = new URLSearchParams(currentSearch);
+  [...Object.values(PARAMS), GALLERY_VIEW_PARAM].forEach(param => params.delete(param));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+export const countActiveFilters = (filters: GalleryFilters): number =>
+  (Object.keys(EMPTY_GALLERY_FILTERS) as (keyof GalleryFilters)[])
+    .filter(key => key !== 'sort' && JSON.stringify(filters[key]) !== JSON.stringify(EMPTY_GALLERY_FILTERS[key]))
+    .length;
+
+// Flagged by the model as unusable, or failing the on-device checks
+const isQualityFlagged = (item: CapturedItem) =>
+  item.analysis?.isQualitySufficient === false || (!!item.quality && !passesQuality(item.quality));
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+const SORTERS: Record<GallerySort, (a: CapturedItem, b: CapturedItem) => number> = {
+  newest: (a, b) => b.timestamp - a.timestamp,
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  severity: (a, b) =>
+    SEVERITIES.indexOf(b.analysis?.severity as Severity) - SEVERITIES.indexOf(a.analysis?.severity as Severity) || b.timestamp - a.timestamp,
+  'confidence-desc': (a, b) => (b.analysis?.confidence ?? -1) - (a.analysis?.confidence ?? -1),
+  'confidence-asc': (a, b) => (a.analysis?.confidence ?? 101) - (b.analysis?.confidence ?? 101),
+  sharpness: (a, b) => (b.quality?.sharpness ?? -1) - (a.quality?.sharpness ?? -1),
+};
+
+/**
+ * Items matching every active filter, in the chosen order. Filters on analysis fields exclude
+ * items that have not been analyzed yet.
+ */
+export const applyGalleryFilters = (items: CapturedItem[], filters: GalleryFilters): CapturedItem[] => {
+  const search = filters.search.trim().toLowerCase();
+  const from = filters.dateFrom ? startOfDay(filters.dateFrom) : -Infinity;
+  const to = filters.dateTo ? startOfDay(filters.dateTo) + 24 * 60 * 60 * 1000 : Infinity;
+  const confidenceBounded = filters.minConfidence !== null || filters.maxConfidence !== null;
+
+  return items
+    .filter(item => {
+      const { analysis, metadata } = item;
+      if (search && !analysis?.instructions.toLowerCase().includes(search)) return false;
+      if (filters.severities.length > 0 && !(analysis && filters.severities.includes(analysis.severity))) return false;
+      if (filters.defectTypes.length > 0 && !(analysis && filters.defectTypes.includes(analysis.defectType))) return false;
+      if (filters.components.length > 0 && !filters.components.includes(metadata.component)) return false;
+      if (filters.machines.length > 0 && !filters.machines.includes(metadata.machineId)) return false;
+      if (filters.statuses.length > 0 && !filters.statuses.includes(item.status)) return false;
+      if (item.timestamp < from || item.timestamp >= to) return false;
+      if (confidenceBounded) {
+        if (!analysis) return false;
+        if (filters.minConfidence !== null && analysis.confidence < filters.minConfidence) return false;
+        if (filters.maxConfidence !== null && analysis.confidence > filters.maxConfidence) return false;
+      }
+      if (filters.quality === 'flagged' && !isQualityFlagged(item)) return false;
+      if (filters.quality === 'ok' && isQualityFlagged(item)) return false;
+      return true;
+    })
+    .sort(SORTERS[filters.sort]);
+};
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedItem, ProjectGoal } from '../types';
+import { describeCriteria, evaluateGoal, getAssignedGoals, matchesGoal } from './goalService';
+import { DEFAULT_DEFECT_TAXONOMY as TAXONOMY } from './taxonomyService';
+
+const at = (date: string) => new Date(`${date}T12:00:00`).getTime();
+
+const capture = (overrides: Partial<CapturedItem> = {}, analysis: Partial<NonNullable<CapturedItem['analysis']>> = {}): CapturedItem => ({
+  id: crypto.randomUUID(),
+  timestamp: at('2025-04-02'),
+  imageUrl: '',
+  analysis: { defectType: 'Rust', severity: 'Medium', confidence: 90, instructions: '', isQualitySufficient: true, ...analysis },
+  status: 'pending',
+  metadata: { machineId: 'M-1', component: 'Motor Mount', location: 'Line 1' },
+  ...overrides,
+});
+
+const goal = (overrides: Partial<ProjectGoal> = {}): ProjectGoal => ({
+  id: 'g1',
+  title: 'Rust on mounts',
+  targetCount: 10,
+  deadline: '2025-04-11',
+  createdAt: '2025-04-01',
+  description: '',
+  criteria: { defectTypes: ['rust'], components: ['Motor Mount'] },
+  priority: 'normal',
+  state: 'open',
+  assignees: [],
+  sites: [],
+  ...overrides,
+});
+
+describe('matchesGoal', () => {
+  it('compares defect types by taxonomy class', () => {
+    expect(matchesGoal(capture({}, { defectType: 'Corrosion' }), { defectTypes: ['Rust'] }, TAXONOMY)).toBe(true);
+    expect(matchesGoal(capture({}, { defectType: 'surface-corrosion' }), { defectTypes: ['Oxidation'] }, TAXONOMY)).toBe(true);
+    expect(matchesGoal(capture({}, { defectType: 'Pitting' }), { defectTypes: ['Rust'] }, TAXONOMY)).toBe(false);
+  });
+
+  it('compares labels and context case-insensitively', () => {
+    expect(matchesGoal(capture(), { defectTypes: ['RUST'], components: ['motor mount'], machineIds: ['m-1'] }, TAXONOMY)).toBe(true);
+    expect(matchesGoal(capture({}, { defectType: 'Crack' }), { defectTypes: ['Rust'] }, TAXONOMY)).toBe(false);
+  });
+
+  it('never counts rejected or unanalyzed captures', () => {
+    expect(matchesGoal(capture({ status: 'rejected' }), {}, TAXONOMY)).toBe(false);
+    expect(matchesGoal(capture({ analysis: null }), {}, TAXONOMY)).toBe(false);
+  });
+
+  it('applies the severity floor and the approved-only flag', () => {
+    expect(matchesGoal(capture({}, { severity: 'Low' }), { minSeverity: 'Medium' }, TAXONOMY)).toBe(false);
+    expect(matchesGoal(capture({}, { severity: 'Critical' }), { minSeverity: 'Medium' }, TAXONOMY)).toBe(true);
+    expect(matchesGoal(capture(), { approvedOnly: true }, TAXONOMY)).toBe(false);
+    expect(matchesGoal(capture({ status: 'approved' }), { approvedOnly: true }, TAXONOMY)).toBe(true);
+  });
+
+  it('treats the date window as whole days', () => {
+    const criteria = { from: '2025-04-02', until: '2025-04-02' };
+    expect(matchesGoal(capture({ timestamp: new Date('2025-04-02T00:00:00').getTime() }), criteria, TAXONOMY)).toBe(true);
+    expect(matchesGoal(capture({ timestamp: new Date('2025-04-02T23:59:00').getTime() }), criteria, TAXONOMY)).toBe(true);
+    expect(matchesGoal(capture({ timestamp: new Date('2025-04-03T00:00:00').getTime() }), criteria, TAXONOMY)).toBe(false);
+  });
+});
+
+describe('evaluateGoal', () => {
+  it('counts matching captures and projects the pace to the deadline', () => {
+    const items = [capture(), capture(), capture({ metadata: { machineId: 'M-1', component: 'Gearbox', location: 'Line 1' } })];
+    // Two matches over four days, six days to go
+    expect(evaluateGoal(goal(), items, TAXONOMY, at('2025-04-05'))).toEqual({ currentCount: 2, projectedCount: 5, status: 'at-risk' });
+  });
+
+  it('stays active until a full day of collection has passed', () => {
+    expect(evaluateGoal(goal(), [], TAXONOMY, new Date('2025-04-01T20:00:00').getTime()).status).toBe('active');
+  });
+
+  it('is completed once the target is reached, even after the deadline', () => {
+    const items = Array.from({ length: 10 }, () => capture());
+    expect(evaluateGoal(goal(), items, TAXONOMY, at('2025-05-01')).status).toBe('completed');
+  });
+
+  it('is overdue after the deadline day without reaching the target', () => {
+    expect(evaluateGoal(goal(), [capture()], TAXONOMY, at('2025-04-11')).status).toBe('at-risk');
+    expect(evaluateGoal(goal(), [capture()], TAXONOMY, at('2025-04-12')).status).toBe('overdue');
+  });
+
+  it('is on track when the pace reaches the target', () => {
+    const items = Array.from({ length: 5 }, () => capture());
+    expect(evaluateGoal(goal(), items, TAXONOMY, at('2025-04-05')).status).toBe('active');
+  });
+
+  it('reports a paused or closed goal as such, whatever its progress', () => {
+    expect(evaluateGoal(goal({ state: 'paused' }), [], TAXONOMY, at('2025-05-01')).status).toBe('paused');
+    expect(evaluateGoal(goal({ state: 'closed' }), [], TAXONOMY, at('2025-04-05'))).toMatchObject({ currentCount: 0, status: 'closed' });
+  });
+});
+
+describe('getAssignedGoals', () => {
+  it('shows open goals for the engineer and location, most urgent first', () => {
+    const goals = [
+      goal({ id: 'later', deadline: '2025-05-01' }),
+      goal({ id: 'sooner', deadline: '2025-04-20' }),
+      goal({ id: 'critical', priority: 'critical', deadline: '2025-06-01' }),
+      goal({ id: 'paused', state: 'paused' }),
+      goal({ id: 'someone-else', assignees: ['Ana'] }),
+      goal({ id: 'mine', assignees: ['jo'], priority: 'low' }),
+      goal({ id: 'elsewhere', sites: ['Hangar 9'] }),
+      goal({ id: 'this-site', sites: ['plant a'], priority: 'low', deadline: '2025-04-15' }),
+    ];
+    expect(getAssignedGoals(goals, 'Jo', ['Plant A', 'Line 1']).map(g => g.id)).toEqual(['critical', 'sooner', 'later', 'mine', 'this-site']);
+  });
+
+  it('hides assigned goals from an engineer who has not entered a name', () => {
+    expect(getAssignedGoals([goal({ assignees: ['Jo'] })], '', ['Line 1'])).toEqual([]);
+  });
+});
+
+describe('describeCriteria', () => {
+  it('summarizes the criteria that are set', () => {
+    expect(describeCriteria({ defectTypes: ['Rust', 'Corrosion'], minSeverity: 'High', approvedOnly: true, until: '2025-05-01' }))
+      .toBe('Rust / Corrosion • ≥ High • approved only • … → 2025-05-01');
+    expect(describeCriteria({})).toBe('Any capture');
+  });
+});
@@ -0,0 +1,118 @@
+import { AnalysisResult, CapturedItem, DefectTaxonomy, GoalCriteria, GoalPriority, GoalProgress, ProjectGoal } from "../types";
+import { canonicalDefectLabel } from "./taxonomyService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SEVERITY_RANK: Record<AnalysisResult['severity'], number> = {
+  Low: 0,
+  Medium: 1,
+  High: 2,
+  Critical: 3,
+};
+
+export const GOAL_PRIORITIES: GoalPriority[] = ['critical', 'high', 'normal', 'low'];
+
+const includesIgnoreCase = (list: string[] | undefined, value: string) =>
+  !list?.length || list.some(entry => entry.toLowerCase() === value.toLowerCase());
+
+// Date-only strings are treated as whole local days so "until 2025-04-10" includes that day
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+const endOfDay = (date: string) => startOfDay(date) + DAY_MS - 1;
+
+/**
+ * Whether a capture counts towards a goal. Rejected captures and captures still waiting for
+ * analysis never count, since their label is either wrong or unknown. Defect types are compared
+ * by taxonomy class, so a goal written for "Rust" keeps counting captures labelled "Corrosion".
+ */
+export const matchesGoal = (item: CapturedItem, criteria: GoalCriteria, taxonomy: DefectTaxonomy): boolean => {
+  if (!item.analysis || item.status === 'rejected') return false;
+  if (criteria.approvedOnly && item.status !== 'approved') return false;
+  const defectTypes = criteria.defectTypes?.map(type => canonicalDefectLabel(taxonomy, type));
+  if (!includesIgnoreCase(defectTypes, canonicalDefectLabel(taxonomy, item.analysis.defectType))) return false;
+  if (!includesIgnoreCase(criteria.components, item.metadata.component)) return false;
+  if (!includesIgnoreCase(criteria.machineIds, item.metadata.machineId)) return false;
+  if (criteria.minSeverity && SEVERITY_RANK[item.analysis.severity] < SEVERITY_RANK[criteria.minSeverity]) return false;
+  if (criteria.from && item.timestamp < startOfDay(criteria.from)) return false;
+  if (criteria.until && item.timestamp > endOfDay(criteria.until)) return false;
+  return true;
+};
+
+/**
+ * Counts matching captures and projects the current pace to the deadline. A goal is at risk
+ * once that projection falls short of the target; before a full day of collection there is
+ * no meaningful pace yet, so it stays active.
+ */
+export const evaluateGoal = (goal: ProjectGoal, items: CapturedItem[], taxonomy: DefectTaxonomy, now = Date.now()): GoalProgress => {
+  const currentCount = items.filter(item => matchesGoal(item, goal.criteria, taxonomy)).length;
+  const deadline = endOfDay(goal.deadline);
+  const start = goal.criteria.from ? Math.max(startOfDay(goal.createdAt), startOfDay(goal.criteria.from)) : startOfDay(goal.createdAt);
+  const elapsedDays = (Math.min(now, deadline) - start) / DAY_MS;
+  const remainingDays = Math.max(0, (deadline - now) / DAY_MS);
+  const projectedCount = elapsedDays > 0 ? Math.round(currentCount + (currentCount / elapsedDays) * remainingDays) : currentCount;
+
+  let status: GoalProgress['status'] = 'active';
+  if (goal.state !== 'open') status = goal.state;
+  else if (currentCount >= goal.targetCount) status = 'completed';
+  else if (now > deadline) status = 'overdue';
+  else if (elapsedDays >= 1 && projectedCount < goal.targetCount) status = 'at-risk';
+
+  return { currentCount, projectedCount, status };
+};
+
+export const evaluateGoals = (goals: ProjectGoal[], items: CapturedItem[], taxonomy: DefectTaxonomy, now = Date.now()): Record<string, GoalProgress> => {
+  return Object.fromEntries(goals.map(goal => [goal.id, evaluateGoal(goal, items, taxonomy, now)]));
+};
+
+export const createGoal = (): ProjectGoal => {
+  const today = new Date().toISOString().slice(0, 10);
+  return {
+    id: crypto.randomUUID(),
+    title: '',
+    targetCount: 20,
+    deadline: new Date(Date.now() + 30 * DAY_MS).toISOString().slice(0, 10),
+    createdAt: today,
+    description: '',
+    criteria: {},
+    priority: 'normal',
+    state: 'open',
+    assignees: [],
+    sites: [],
+  };
+};
+
+/**
+ * Open directives an engineer should see at a location, most urgent first. A goal's sites may
+ * name either the site or the line/hangar. Unassigned goals and goals without a site
+ * restriction apply to everyone.
+ */
+export const getAssignedGoals = (goals: ProjectGoal[], engineer: string, locations: string[]): ProjectGoal[] => {
+  return goals
+    .filter(goal => goal.state === 'open')
+    .filter(goal => !goal.assignees.length || (!!engineer && includesIgnoreCase(goal.assignees, engineer)))
+    .filter(goal => !goal.sites.length || locations.some(location => includesIgnoreCase(goal.sites, location)))
+    .sort((a, b) => GOAL_PRIORITIES.indexOf(a.priority) - GOAL_PRIORITIES.indexOf(b.priority) || a.deadline.localeCompare(b.deadline));
+};
+
+/**
+ * Whether captures in the given field context can count towards a goal at all, i.e. the
+ * goal's component and machine filters admit it. Defect and severity filters depend on the
+ * analysis, so they are not checked here.
+ */
+export const goalAppliesToContext = (goal: ProjectGoal, context: Pick<CapturedItem['metadata'], 'machineId' | 'component'>): boolean => {
+  return includesIgnoreCase(goal.criteria.components, context.component) && includesIgnoreCase(goal.criteria.machineIds, context.machineId);
+};
+
+/**
+ * Short human-readable summary of a goal's criteria, e.g. "Rust • Motor Mount • ≥ High • approved only".
+ */
+export const describeCriteria = (criteria: GoalCriteria): string => {
+  const parts = [
+    criteria.defectTypes?.join(' / '),
+    criteria.components?.join(' / '),
+    criteria.machineIds?.join(' / '),
+    criteria.minSeverity && `≥ ${criteria.minSeverity}`,
+    criteria.approvedOnly && 'approved only',
+    (criteria.from || criteria.until) && `${criteria.from ?? '…'} → ${criteria.until ?? '…'}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' • ') : 'Any capture';
+};
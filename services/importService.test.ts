@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedItem } from '../types';
+import { ImportFile, parseCsv, planImport, suggestLabelMapping } from './importService';
+import { DEFAULT_DEFECT_TAXONOMY as TAXONOMY } from './taxonomyService';
+
+const file = (path: string, content: string | object): ImportFile => ({
+  path,
+  blob: new Blob([typeof content === 'string' ? content : JSON.stringify(content)]),
+});
+
+const existingItem = (imageContent: string, defectType: string): CapturedItem => ({
+  id: 'existing-1',
+  timestamp: 0,
+  imageUrl: `data:image/jpeg;base64,${btoa(imageContent)}`,
+  analysis: { defectType, severity: 'Low', confidence: 90, instructions: '', isQualitySufficient: true },
+  status: 'approved',
+  metadata: { machineId: 'M1', component: 'Mount', location: 'Line 1' },
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and mixed line endings', () => {
+    expect(parseCsv('file,notes\r\na.jpg,"rust, heavy"\n\nb.jpg,"says ""ok"""')).toEqual([
+      ['file', 'notes'],
+      ['a.jpg', 'rust, heavy'],
+      ['b.jpg', 'says "ok"'],
+    ]);
+  });
+});
+
+describe('planImport', () => {
+  it('reads COCO boxes and polygons as normalized regions and the dominant class as the label', async () => {
+    const coco = {
+      images: [{ id: 1, file_name: 'imgs/a.jpg', width: 200, height: 100 }, { id: 2, file_name: 'b.jpg', width: 200, height: 100 }],
+      annotations: [
+        { image_id: 1, category_id: 7, bbox: [20, 10, 100, 50] },
+        { image_id: 1, category_id: 7, segmentation: [[0, 0, 200, 0, 200, 100]] },
+        { image_id: 1, category_id: 8, bbox: [0, 0, 10, 10] },
+      ],
+      categories: [{ id: 7, name: 'Crack' }, { id: 8, name: 'Dent' }],
+    };
+    const plan = await planImport([file('annotations.json', coco), file('images/a.jpg', 'A'), file('images/b.jpg', 'B')], [], TAXONOMY);
+
+    const [a, b] = plan.candidates;
+    expect(a.labels[0].defectType).toBe('Crack');
+    expect(a.labels[0].regions).toHaveLength(3);
+    expect(a.labels[0].regions![0]).toMatchObject({ kind: 'box', label: 'Crack', x: 0.1, y: 0.1, width: 0.5, height: 0.5 });
+    expect(a.labels[0].regions![1]).toMatchObject({ kind: 'polygon', points: [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }] });
+    expect(b.labels[0].defectType).toBe('None');
+    expect(plan.annotationFiles).toEqual(['annotations.json']);
+    expect(plan.importedLabels).toEqual(['Crack', 'Dent']);
+  });
+
+  it('reads CSV labels through column aliases', async () => {
+    const csv = 'Image,Defect_Type,Severity,Confidence,Machine,Part\nsub/a.jpg,Rust,high,87,M-7,Mount\n';
+    const plan = await planImport([file('labels.csv', csv), file('a.jpg', 'A')], [], TAXONOMY);
+
+    expect(plan.candidates[0].labels[0]).toMatchObject({
+      source: 'labels.csv',
+      defectType: 'Rust',
+      severity: 'high',
+      confidence: 87,
+      metadata: { machineId: 'M-7', component: 'Mount' },
+    });
+    expect(plan.issues).toEqual([]);
+  });
+
+  it('brings CSV confidences onto the 0-100 scale', async () => {
+    const confidences = async (values: string[]) => {
+      const csv = ['file,label,confidence', ...values.map((value, i) => `${i}.jpg,Rust,${value}`)].join('\n');
+      const plan = await planImport([file('labels.csv', csv), ...values.map((_, i) => file(`${i}.jpg`, String(i)))], [], TAXONOMY);
+      return plan.candidates.map(c => c.labels[0].confidence);
+    };
+    expect(await confidences(['0.87', '1', '0'])).toEqual([87, 100, 0]);
+    expect(await confidences(['87', '1', '0.5'])).toEqual([87, 1, 50]);
+  });
+
+  it('reads back the metadata of its own export manifest', async () => {
+    const manifest = { format: 'coco', items: [{ file: 'a.jpg', machineId: 'M-1', component: 'Gear', location: 'Line 2', defectType: 'Wear', severity: 'Low', status: 'approved', capturedAt: '2025-03-01T10:00:00.000Z' }] };
+    const plan = await planImport([file('manifest.json', manifest), file('a.jpg', 'A')], [], TAXONOMY);
+
+    expect(plan.candidates[0].labels[0]).toMatchObject({
+      defectType: 'Wear',
+      status: 'approved',
+      timestamp: Date.parse('2025-03-01T10:00:00.000Z'),
+      metadata: { machineId: 'M-1', component: 'Gear', location: 'Line 2' },
+    });
+  });
+
+  it('labels the archived views of an exported session like the session itself', async () => {
+    const manifest = { format: 'yolo', items: [{ file: 's.jpg', defectType: 'Dent', sessionViews: [{ file: 'session_views/s-2.jpg', angle: 'Close-up' }] }] };
+    const plan = await planImport([file('manifest.json', manifest), file('images/s.jpg', 'S'), file('session_views/s-2.jpg', 'S2')], [], TAXONOMY);
+
+    expect(plan.candidates.map(c => [c.path, c.labels[0]?.defectType])).toEqual([['images/s.jpg', 'Dent'], ['session_views/s-2.jpg', 'Dent']]);
+    expect(plan.issues).toEqual([]);
+  });
+
+  it('reports duplicates, conflicts, unknown values, missing images and unreadable files', async () => {
+    const plan = await planImport([
+      file('a.csv', 'file,label,severity\nx.jpg,Rust,Severe\nmissing.jpg,Crack,Low'),
+      file('b.csv', 'file,label\nx.jpg,Corrosion'),
+      file('broken.json', '{ not json'),
+      file('x.jpg', 'X'),
+      file('copy/y.jpg', 'X'),
+      file('old.jpg', 'OLD'),
+      file('__MACOSX/._x.jpg', 'junk'),
+    ], [existingItem('OLD', 'Rust')], TAXONOMY);
+
+    const kinds = plan.issues.map(issue => `${issue.kind}:${issue.path}`);
+    expect(kinds).toEqual(expect.arrayContaining([
+      'parse-error:broken.json',
+      'missing-image:missing.jpg',
+      'label-conflict:x.jpg',
+      'invalid-value:x.jpg',
+      'duplicate:copy/y.jpg',
+      'duplicate:old.jpg',
+    ]));
+    expect(plan.candidates.map(c => c.path)).toEqual(['x.jpg', 'copy/y.jpg', 'old.jpg']);
+    expect(plan.candidates.find(c => c.path === 'old.jpg')!.duplicateOf).toBe('existing-1');
+    expect(plan.candidates.find(c => c.path === 'copy/y.jpg')!.duplicateOf).toBe('x.jpg');
+  });
+});
+
+describe('suggestLabelMapping', () => {
+  it('maps labels onto taxonomy classes first, then existing dataset labels regardless of case', async () => {
+    const existing = [existingItem('OLD', 'Blistering')];
+    const plan = await planImport([file('labels.csv', 'file,label\na.jpg,RUST\nb.jpg,blistering\nc.jpg,Smudge'), file('a.jpg', 'A'), file('b.jpg', 'B'), file('c.jpg', 'C')], existing, TAXONOMY);
+    expect(suggestLabelMapping(plan, existing, TAXONOMY)).toEqual({ RUST: 'Corrosion', blistering: 'Blistering', Smudge: 'Smudge' });
+  });
+});
@@ -0,0 +1,414 @@
+import { AnalysisResult, AnnotationRegion, CapturedItem, DefectTaxonomy, ReviewStatus } from "../types";
+import { createBoxRegion, createPolygonRegion } from "./annotationService";
+import { dataUrlToBytes } from "./exportService";
+import { normalizeConfidence } from "./responseValidationService";
+import { blobToDataUrl } from "./storageService";
+import { enqueueCapture } from "./syncQueue";
+import { resolveDefectClass } from "./taxonomyService";
+import { crc32, readZip } from "./zipService";
+
+export interface ImportFile {
+  path: string;
+  blob: Blob;
+  lastModified?: number;
+}
+
+// Everything one annotation source says about one image
+interface SourceLabel {
+  source: string;
+  defectType?: string;
+  severity?: string;
+  confidence?: number;
+  status?: string;
+  timestamp?: number;
+  metadata?: Partial<CapturedItem['metadata']>;
+  regions?: AnnotationRegion[];
+}
+
+export interface ImportCandidate {
+  path: string;
+  blob: Blob;
+  lastModified?: number;
+  labels: SourceLabel[];
+  fingerprint: string;
+  duplicateOf?: string; // id of an existing item, or path of an earlier file in this import
+}
+
+export type ImportIssueKind = 'duplicate' | 'label-conflict' | 'missing-image' | 'invalid-value' | 'ambiguous-file' | 'parse-error';
+
+export interface ImportIssue {
+  kind: ImportIssueKind;
+  path: string;
+  message: string;
+}
+
+export interface ImportPlan {
+  candidates: ImportCandidate[];
+  annotationFiles: string[];
+  importedLabels: string[];
+  unmappedLabels: string[]; // Labels no taxonomy class or synonym covers
+  issues: ImportIssue[];
+}
+
+export interface ImportOptions {
+  sourceName: string;
+  labelMapping: Record<string, string>; // Imported label -> dataset label
+  skipDuplicates: boolean;
+  analyzeUnlabelled: boolean;
+  trustSourceStatus: boolean; // Keep 'approved' from the source instead of sending everything to review
+  defaults: CapturedItem['metadata'];
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  gif: 'image/gif',
+};
+
+const SEVERITIES: AnalysisResult['severity'][] = ['Low', 'Medium', 'High', 'Critical'];
+const STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+const extensionOf = (path: string) => path.split('.').pop()?.toLowerCase() || '';
+const baseName = (path: string) => path.split('/').pop()!.toLowerCase();
+const isImage = (path: string) => extensionOf(path) in IMAGE_TYPES;
+// macOS archives carry resource-fork shadows of every file
+const isJunk = (path: string) => path.includes('__MACOSX/') || baseName(path).startsWith('.');
+
+export const filesFromZip = async (blob: Blob): Promise<ImportFile[]> => {
+  const entries = await readZip(blob);
+  return entries.map(entry => ({
+    path: entry.path,
+    blob: new Blob([entry.data as BlobPart], { type: IMAGE_TYPES[extensionOf(entry.path)] || '' }),
+  }));
+};
+
+export const filesFromFileList = (files: FileList | File[]): ImportFile[] => {
+  return Array.from(files).map(file => ({
+    path: file.webkitRelativePath || file.name,
+    blob: file,
+    lastModified: file.lastModified,
+  }));
+};
+
+const normalizeSeverity = (value: string | undefined): AnalysisResult['severity'] | undefined => {
+  return SEVERITIES.find(s => s.toLowerCase() === value?.trim().toLowerCase());
+};
+
+const parseTimestamp = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// RFC 4180-ish: quoted fields, escaped quotes, CRLF or LF line endings
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === ',') { row.push(field); field = ''; }
+    else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(f => f.trim())) rows.push(row);
+      row = [];
+      field = '';
+    } else field += c;
+  }
+  row.push(field);
+  if (row.some(f => f.trim())) rows.push(row);
+  return rows;
+};
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  file: ['filename', 'file', 'file_name', 'image', 'image_path', 'path'],
+  label: ['label', 'defect', 'defect_type', 'defecttype', 'class', 'category'],
+  severity: ['severity'],
+  confidence: ['confidence'],
+  status: ['status'],
+  timestamp: ['timestamp', 'date', 'captured_at', 'capturedat', 'datetime'],
+  machineId: ['machine_id', 'machineid', 'machine', 'asset'],
+  component: ['component', 'part'],
+  location: ['location', 'site'],
+};
+
+const parseCsvLabels = (path: string, text: string): Map<string, SourceLabel> => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = header.map(h => h.trim().toLowerCase());
+  const indexOf = (key: string) => columns.findIndex(c => CSV_COLUMNS[key].includes(c));
+  const fileIndex = indexOf('file');
+  if (fileIndex < 0) throw new Error('CSV has no filename column');
+
+  const get = (row: string[], key: string) => {
+    const index = indexOf(key);
+    return index >= 0 ? row[index]?.trim() || undefined : undefined;
+  };
+
+  const labels = new Map<string, SourceLabel>();
+  rows.forEach(row => {
+    const file = row[fileIndex]?.trim();
+    if (!file) return;
+    const confidence = get(row, 'confidence');
+    labels.set(baseName(file), {
+      source: path,
+      defectType: get(row, 'label'),
+      severity: get(row, 'severity'),
+      confidence: confidence !== undefined ? Number(confidence) : undefined,
+      status: get(row, 'status'),
+      timestamp: parseTimestamp(get(row, 'timestamp')),
+      metadata: { machineId: get(row, 'machineId'), component: get(row, 'component'), location: get(row, 'location') },
+    });
+  });
+
+  // A column scoring 0-1 throughout is scaled as a whole, so its 1s become 100 rather than 1%
+  const confidences = [...labels.values()].map(l => l.confidence).filter((c): c is number => c !== undefined && !Number.isNaN(c));
+  const scale = confidences.length > 0 && confidences.every(c => c >= 0 && c <= 1) ? '0-1' : undefined;
+  labels.forEach((label, name) => {
+    if (label.confidence !== undefined) labels.set(name, { ...label, confidence: normalizeConfidence(label.confidence, scale) });
+  });
+  return labels;
+};
+
+interface CocoFile {
+  images: { id: number | string; file_name: string; width?: number; height?: number; date_captured?: string }[];
+  annotations: { image_id: number | string; category_id: number | string; bbox?: number[]; segmentation?: unknown; attributes?: { severity?: string } }[];
+  categories: { id: number | string; name: string }[];
+}
+
+const parseCocoLabels = (path: string, coco: CocoFile): Map<string, SourceLabel> => {
+  const categories = new Map(coco.categories.map(c => [c.id, c.name]));
+  const labels = new Map<string, SourceLabel>();
+
+  coco.images.forEach(image => {
+    const annotations = coco.annotations.filter(a => a.image_id === image.id);
+    const regions: AnnotationRegion[] = [];
+    const classCounts: Record<string, number> = {};
+    let severity: string | undefined;
+
+    annotations.forEach(a => {
+      const label = categories.get(a.category_id) || String(a.category_id);
+      classCounts[label] = (classCounts[label] || 0) + 1;
+      severity = severity ?? a.attributes?.severity;
+      if (!image.width || !image.height) return;
+      const polygon = Array.isArray(a.segmentation) && Array.isArray(a.segmentation[0]) ? a.segmentation[0] as number[] : null;
+      if (polygon && polygon.length >= 6) {
+        const points = [];
+        for (let i = 0; i + 1 < polygon.length; i += 2) points.push({ x: polygon[i] / image.width, y: polygon[i + 1] / image.height });
+        regions.push(createPolygonRegion(label, points));
+      } else if (a.bbox?.length === 4) {
+        const [x, y, w, h] = a.bbox;
+        regions.push(createBoxRegion(label, { x: x / image.width, y: y / image.height }, { x: (x + w) / image.width, y: (y + h) / image.height }));
+      }
+    });
+
+    // The dominant class becomes the image label; an image with no annotations is a negative
+    const defectType = Object.entries(classCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 'None';
+    labels.set(baseName(image.file_name), {
+      source: path,
+      defectType,
+      severity,
+      timestamp: parseTimestamp(image.date_captured),
+      regions,
+    });
+  });
+  return labels;
+};
+
+// Our own export manifest, so a round-tripped archive keeps its metadata
+interface ManifestFile {
+  format: string;
+  items: {
+    file: string; capturedAt?: string; machineId?: string; component?: string; location?: string;
+    defectType?: string; severity?: string; confidence?: number; status?: string; sessionViews?: { file: string }[];
+  }[];
+}
+
+// The other views of an exported session come back as items of their own with the session's label
+const parseManifestLabels = (path: string, manifest: ManifestFile): Map<string, SourceLabel> => {
+  return new Map(manifest.items.flatMap(entry => {
+    const label: SourceLabel = {
+      source: path,
+      defectType: entry.defectType,
+      severity: entry.severity,
+      confidence: entry.confidence,
+      status: entry.status,
+      timestamp: parseTimestamp(entry.capturedAt),
+      metadata: { machineId: entry.machineId, component: entry.component, location: entry.location },
+    };
+    return [entry.file, ...(entry.sessionViews ?? []).map(view => view.file)].map(file => [baseName(file), label] as const);
+  }));
+};
+
+const fingerprint = (bytes: Uint8Array) => `${bytes.length}:${crc32(bytes).toString(16)}`;
+
+/**
+ * Reads annotation files and images, matches them by file name and reports everything
+ * the user needs to decide on before anything is written to the dataset.
+ */
+export const planImport = async (files: ImportFile[], existingItems: CapturedItem[], taxonomy: DefectTaxonomy): Promise<ImportPlan> => {
+  const issues: ImportIssue[] = [];
+  const usable = files.filter(f => !isJunk(f.path));
+  const images = usable.filter(f => isImage(f.path));
+  const annotationFiles = usable.filter(f => ['json', 'csv'].includes(extensionOf(f.path)));
+  const labelMaps: Map<string, SourceLabel>[] = [];
+  const recognisedFiles: string[] = [];
+
+  for (const file of annotationFiles) {
+    try {
+      const text = await file.blob.text();
+      if (extensionOf(file.path) === 'csv') {
+        labelMaps.push(parseCsvLabels(file.path, text));
+        recognisedFiles.push(file.path);
+        continue;
+      }
+      const json = JSON.parse(text);
+      if (Array.isArray(json.images) && Array.isArray(json.annotations) && Array.isArray(json.categories)) {
+        labelMaps.push(parseCocoLabels(file.path, json));
+        recognisedFiles.push(file.path);
+      } else if (Array.isArray(json.items) && typeof json.format === 'string') {
+        labelMaps.push(parseManifestLabels(file.path, json));
+        recognisedFiles.push(file.path);
+      }
+    } catch (error) {
+      issues.push({ kind: 'parse-error', path: file.path, message: error instanceof Error ? error.message : 'Could not parse file' });
+    }
+  }
+
+  const imagesByName = new Map<string, ImportFile[]>();
+  images.forEach(image => {
+    const key = baseName(image.path);
+    imagesByName.set(key, [...(imagesByName.get(key) || []), image]);
+  });
+  imagesByName.forEach((matches, name) => {
+    if (matches.length > 1 && labelMaps.some(m => m.has(name))) {
+      issues.push({ kind: 'ambiguous-file', path: name, message: `${matches.length} images share this file name; labels were applied to all of them` });
+    }
+  });
+  labelMaps.forEach(map => map.forEach((label, name) => {
+    if (!imagesByName.has(name)) issues.push({ kind: 'missing-image', path: name, message: `Referenced by ${label.source} but not found` });
+  }));
+
+  const existingFingerprints = new Map(existingItems.map(item => [fingerprint(dataUrlToBytes(item.imageUrl).bytes), item.id]));
+  const seen = new Map<string, string>();
+  const candidates: ImportCandidate[] = [];
+
+  for (const image of images) {
+    const bytes = new Uint8Array(await image.blob.arrayBuffer());
+    const print = fingerprint(bytes);
+    const duplicateOf = existingFingerprints.get(print) ?? seen.get(print);
+    if (duplicateOf) issues.push({ kind: 'duplicate', path: image.path, message: existingFingerprints.has(print) ? 'Already in the dataset' : `Same image as ${duplicateOf}` });
+    else seen.set(print, image.path);
+
+    const labels = labelMaps.map(m => m.get(baseName(image.path))).filter((l): l is SourceLabel => !!l);
+    const types = [...new Set(labels.map(l => l.defectType).filter(Boolean))];
+    if (types.length > 1) {
+      issues.push({ kind: 'label-conflict', path: image.path, message: `Sources disagree: ${types.join(' vs ')}; using ${types[0]}` });
+    }
+    labels.forEach(l => {
+      if (l.severity && !normalizeSeverity(l.severity)) {
+        issues.push({ kind: 'invalid-value', path: image.path, message: `Unknown severity "${l.severity}" in ${l.source}` });
+      }
+    });
+
+    candidates.push({ path: image.path, blob: image.blob, lastModified: image.lastModified, labels, fingerprint: print, duplicateOf });
+  }
+
+  const importedLabels = [...new Set(candidates.flatMap(c => [
+    ...c.labels.map(l => l.defectType),
+    ...c.labels.flatMap(l => l.regions?.map(r => r.label) ?? []),
+  ]).filter((l): l is string => !!l && l !== 'None'))].sort();
+
+  return {
+    candidates,
+    annotationFiles: recognisedFiles,
+    importedLabels,
+    unmappedLabels: importedLabels.filter(l => !resolveDefectClass(taxonomy, l)),
+    issues,
+  };
+};
+
+/**
+ * Default mapping: taxonomy class for known terms and synonyms, then case-insensitive matches onto
+ * existing dataset labels, everything else kept as-is (and later listed for triage).
+ */
+export const suggestLabelMapping = (plan: ImportPlan, existingItems: CapturedItem[], taxonomy: DefectTaxonomy): Record<string, string> => {
+  const existing = [...new Set(existingItems.map(i => i.analysis?.defectType).filter((l): l is string => !!l))];
+  return Object.fromEntries(plan.importedLabels.map(label => [
+    label,
+    resolveDefectClass(taxonomy, label)?.name ?? existing.find(e => e.toLowerCase() === label.toLowerCase()) ?? label,
+  ]));
+};
+
+/**
+ * Turns an accepted plan into dataset items. Unlabelled images are optionally handed to
+ * the offline sync queue so they get analyzed like a deferred field capture.
+ */
+export const buildImportedItems = async (plan: ImportPlan, options: ImportOptions): Promise<CapturedItem[]> => {
+  const mapLabel = (label: string) => options.labelMapping[label] ?? label;
+  const items: CapturedItem[] = [];
+
+  for (const candidate of plan.candidates) {
+    if (candidate.duplicateOf && options.skipDuplicates) continue;
+
+    const [primary, ...rest] = candidate.labels;
+    const merged: SourceLabel | undefined = primary && {
+      ...primary,
+      severity: primary.severity ?? rest.find(l => l.severity)?.severity,
+      timestamp: primary.timestamp ?? rest.find(l => l.timestamp)?.timestamp,
+      status: primary.status ?? rest.find(l => l.status)?.status,
+      regions: candidate.labels.find(l => l.regions?.length)?.regions,
+    };
+
+    const fromSources = (field: keyof CapturedItem['metadata']) =>
+      candidate.labels.map(l => l.metadata?.[field]).find(Boolean) || options.defaults[field];
+    const metadata = {
+      machineId: fromSources('machineId'),
+      component: fromSources('component'),
+      location: fromSources('location'),
+    };
+    const sourceStatus = STATUSES.find(s => s === merged?.status?.toLowerCase());
+    const status: ReviewStatus = options.trustSourceStatus && sourceStatus ? sourceStatus : 'pending';
+    const confidence = merged?.confidence;
+
+    const analysis: AnalysisResult | null = merged?.defectType ? {
+      defectType: mapLabel(merged.defectType),
+      severity: normalizeSeverity(merged.severity) ?? 'Low',
+      // Human labels from a legacy dataset are treated as certain unless the source says otherwise
+      confidence: confidence !== undefined && !Number.isNaN(confidence) ? confidence : 100,
+      instructions: `Imported from ${options.sourceName} (${merged.source}).`,
+      isQualitySufficient: true,
+    } : null;
+
+    const item: CapturedItem = {
+      id: crypto.randomUUID(),
+      timestamp: merged?.timestamp ?? candidate.lastModified ?? Date.now(),
+      imageUrl: await blobToDataUrl(candidate.blob),
+      analysis,
+      regions: merged?.regions?.map(r => ({ ...r, label: mapLabel(r.label) })),
+      status,
+      review: status !== 'pending' ? {
+        reviewer: `Import: ${options.sourceName}`,
+        reviewedAt: Date.now(),
+        notes: `Status "${status}" taken from ${merged!.source}`,
+      } : undefined,
+      importSource: options.sourceName,
+      contextPrompt: metadata.component,
+      metadata,
+    };
+
+    items.push(!analysis && options.analyzeUnlabelled ? enqueueCapture(item) : item);
+  }
+  return items;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { mockProvider } from './mockAIService';
+
+const SEVERITIES = ['Low', 'Medium', 'High', 'Critical'];
+
+// Distinct stand-ins for base64 frames
+const frames = Array.from({ length: 40 }, (_, i) => btoa(`frame-${i}`.repeat(20)));
+
+describe('mockProvider', () => {
+  it('returns the same analysis for the same frame and context', async () => {
+    const first = await mockProvider.analyzeFieldImage(frames[0], 'Motor Mount');
+    const second = await mockProvider.analyzeFieldImage(frames[0], 'Motor Mount');
+    expect(second).toEqual(first);
+  });
+
+  it('returns well-formed analyses that vary across frames', async () => {
+    const results = (await Promise.all(frames.map(frame => mockProvider.analyzeFieldImage(frame, 'Motor Mount')))).map(run => run.result);
+    results.forEach(result => {
+      expect(SEVERITIES).toContain(result.severity);
+      expect(result.confidence).toBeGreaterThanOrEqual(0);
+      expect(result.confidence).toBeLessThanOrEqual(100);
+      expect(result.instructions).not.toBe('');
+    });
+    expect(new Set(results.map(r => r.defectType)).size).toBeGreaterThan(1);
+    expect(results.some(r => r.isQualitySufficient)).toBe(true);
+    expect(results.some(r => !r.isQualitySufficient)).toBe(true);
+  });
+
+  it('reports its model and the response it returned', async () => {
+    const run = await mockProvider.analyzeFieldImage(frames[0], 'Motor Mount');
+    expect(run.modelId).toBe('mock-deterministic');
+    expect(run.promptVersion).not.toBe('');
+    expect(JSON.parse(run.rawResponse)).toEqual(JSON.parse(JSON.stringify(run.result)));
+  });
+
+  it('gives at most one guidance hint per frame, and none for some', async () => {
+    const hints = await Promise.all(frames.map(frame => mockProvider.getPreCaptureGuidance(frame)));
+    hints.forEach(list => expect(list.length).toBeLessThanOrEqual(1));
+    expect(hints.some(list => list.length === 0)).toBe(true);
+  });
+
+  it('returns the source frame as the overlay outside a browser', async () => {
+    expect(await mockProvider.generateAugmentedOverlay(frames[0], 'rust')).toBe(`data:image/jpeg;base64,${frames[0]}`);
+  });
+
+  it('has no video model', async () => {
+    expect(await mockProvider.generateInspectionVideo(frames[0], 'rust')).toBeNull();
+  });
+
+  it('reports class balance for the dataset', async () => {
+    const report = await mockProvider.generateDatasetReport([
+      { id: 'a', timestamp: 1, imageUrl: '', status: 'pending', metadata: { machineId: 'M1', component: 'Mount', location: 'Line 1' }, analysis: { defectType: 'Rust', severity: 'Low', confidence: 80, instructions: '', isQualitySufficient: true } },
+      { id: 'b', timestamp: 2, imageUrl: '', status: 'pending', metadata: { machineId: 'M1', component: 'Mount', location: 'Line 1' }, analysis: { defectType: 'Rust', severity: 'Low', confidence: 80, instructions: '', isQualitySufficient: false } },
+    ]);
+    expect(report).toContain('Rust: 2 (100%)');
+    expect(report).toContain('1/2 samples passed the quality check');
+  });
+
+  it('answers chat without a backend', async () => {
+    const reply = await mockProvider.sendChatMessage([], ' Status? ');
+    expect(reply).toContain('"Status?"');
+  });
+});
@@ -0,0 +1,179 @@
+import { AIProvider, AnalysisResult, CapturedItem, ChatMessage, ModelAnalysis, PromptTemplate } from "../types";
+import { createBoxRegion, RegionBounds } from "./annotationService";
+import { getActivePrompt } from "./promptRegistry";
+
+// Deterministic local backend: the same input always yields the same output,
+// so the FieldView -> DataView flow can run offline and in automated tests.
+
+const DEFECTS: { defectType: string; severity: AnalysisResult['severity']; missingAngles: string[] }[] = [
+  { defectType: 'None', severity: 'Low', missingAngles: [] },
+  { defectType: 'Surface Corrosion', severity: 'Medium', missingAngles: ['Close-up', 'Oblique light'] },
+  { defectType: 'Crack', severity: 'High', missingAngles: ['Side view', 'Scale reference'] },
+  { defectType: 'Rust', severity: 'Low', missingAngles: ['Wide shot'] },
+  { defectType: 'Missing Fastener', severity: 'Critical', missingAngles: ['Adjacent fasteners', 'Wide shot'] },
+  { defectType: 'Dent', severity: 'Medium', missingAngles: ['Raking light'] },
+];
+
+const GUIDANCE = ['Move Closer', 'Hold Steady', 'Center the subject', 'Avoid Glare', 'Too Dark'];
+
+// FNV-1a over a sample of the input; cheap enough for multi-megabyte base64 frames
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(input.length / 4096));
+  for (let i = 0; i < input.length; i += step) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= input.length;
+  return hash >>> 0;
+};
+
+// The same box is suggested by analysis and drawn by the overlay, so both views agree
+const mockDefectBox = (base64Image: string): RegionBounds => {
+  const hash = hashString(base64Image);
+  return {
+    x: 0.7 * ((hash % 100) / 100),
+    y: 0.7 * (((hash >> 8) % 100) / 100),
+    width: 0.3,
+    height: 0.3,
+  };
+};
+
+// Edited prompt versions perturb the input, so comparing two versions offline shows differences;
+// the original versions keep the outputs this backend has always produced
+const promptSalt = (template: PromptTemplate) => (template.builtIn ? '' : template.template);
+
+const getPreCaptureGuidance = async (base64Image: string, template = getActivePrompt('guidance')): Promise<string[]> => {
+  const hash = hashString(base64Image + promptSalt(template));
+  // Roughly a third of frames come back clear
+  if (hash % 3 === 0) return [];
+  return [GUIDANCE[hash % GUIDANCE.length]];
+};
+
+const MOCK_MODEL_ID = 'mock-deterministic';
+
+const toModelAnalysis = (result: AnalysisResult, promptVersion: string): ModelAnalysis => ({
+  result,
+  modelId: MOCK_MODEL_ID,
+  promptVersion,
+  rawResponse: JSON.stringify(result),
+});
+
+const mockAnalysis = (base64Image: string, contextPrompt: string, template: PromptTemplate): AnalysisResult => {
+  const hash = hashString(base64Image + contextPrompt + promptSalt(template));
+  const defect = DEFECTS[hash % DEFECTS.length];
+  const isQualitySufficient = hash % 5 !== 0;
+  const box = mockDefectBox(base64Image);
+
+  return {
+    defectType: defect.defectType,
+    severity: defect.severity,
+    confidence: 60 + (hash % 40),
+    instructions: isQualitySufficient
+      ? `Offline analysis of ${contextPrompt}: ${defect.defectType === 'None' ? 'no defect detected' : `${defect.defectType.toLowerCase()} detected`}. Capture the listed angles to complete the set.`
+      : 'Image too soft for dataset inclusion. Move closer and hold steady.',
+    isQualitySufficient,
+    missingAngles: defect.missingAngles,
+    suggestedRegions: defect.defectType === 'None' ? [] : [
+      createBoxRegion(defect.defectType, { x: box.x, y: box.y }, { x: box.x + box.width, y: box.y + box.height }, 'ai'),
+    ],
+  };
+};
+
+const analyzeFieldImage = async (base64Image: string, contextPrompt: string, template = getActivePrompt('field-analysis')): Promise<ModelAnalysis> =>
+  toModelAnalysis(mockAnalysis(base64Image, contextPrompt, template), template.id);
+
+// Analyses the primary view; every extra view settles one of the angles it would still ask for
+const analyzeInspectionSession = async (
+  base64Images: string[],
+  contextPrompt: string,
+  template = getActivePrompt('session-analysis'),
+): Promise<ModelAnalysis> => {
+  const [primary, ...others] = base64Images;
+  const result = mockAnalysis(primary, contextPrompt, template);
+  return toModelAnalysis({
+    ...result,
+    confidence: Math.min(99, result.confidence + 5 * others.length),
+    missingAngles: result.missingAngles?.slice(others.length),
+  }, template.id);
+};
+
+/**
+ * Draws a fixed bounding box over the source frame. Outside a browser there is no
+ * canvas to draw on, so the source image is returned unchanged.
+ */
+const generateAugmentedOverlay = async (base64Image: string, prompt: string): Promise<string | null> => {
+  const source = `data:image/jpeg;base64,${base64Image}`;
+  if (typeof document === 'undefined') return source;
+
+  const img = new Image();
+  img.src = source;
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(img, 0, 0);
+  const box = mockDefectBox(base64Image);
+  const x = box.x * canvas.width;
+  const y = box.y * canvas.height;
+  const w = box.width * canvas.width;
+  const h = box.height * canvas.height;
+  ctx.strokeStyle = '#22d3ee';
+  ctx.lineWidth = Math.max(2, canvas.width / 200);
+  ctx.shadowColor = '#22d3ee';
+  ctx.shadowBlur = 12;
+  ctx.strokeRect(x, y, w, h);
+  ctx.font = `${Math.max(12, canvas.width / 50)}px monospace`;
+  ctx.fillStyle = '#22d3ee';
+  ctx.fillText(prompt.toUpperCase(), x, Math.max(16, y - 8));
+
+  return canvas.toDataURL('image/png');
+};
+
+// There is no offline video model; callers already treat null as "nothing generated".
+const generateInspectionVideo = async (): Promise<string | null> => null;
+
+const generateDatasetReport = async (items: CapturedItem[]): Promise<string> => {
+  const counts = items.reduce((acc, item) => {
+    const type = item.analysis?.defectType || 'Unknown';
+    acc[type] = (acc[type] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  const classes = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const quality = items.filter(i => i.analysis?.isQualitySufficient).length;
+  const rarest = classes[classes.length - 1];
+
+  return [
+    '**Offline Dataset Report**',
+    '',
+    '**1. Class balance**',
+    ...classes.map(([name, count]) => `- ${name}: ${count} (${Math.round((count / items.length) * 100)}%)`),
+    '',
+    '**2. Next captures**',
+    rarest ? `- Prioritise more samples of ${rarest[0]}, currently the smallest class.` : '- No samples yet.',
+    '',
+    '**3. Dataset health**',
+    `- ${quality}/${items.length} samples passed the quality check.`,
+  ].join('\n');
+};
+
+const sendChatMessage = async (history: ChatMessage[], newMessage: string): Promise<string> => {
+  const userTurns = history.filter(h => h.sender === 'user').length + 1;
+  return `[Offline] Central received message #${userTurns}: "${newMessage.trim()}". Live coordination resumes when the AI backend is reachable.`;
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock',
+  getPreCaptureGuidance,
+  analyzeFieldImage,
+  analyzeInspectionSession,
+  generateAugmentedOverlay,
+  generateInspectionVideo,
+  generateDatasetReport,
+  sendChatMessage,
+};
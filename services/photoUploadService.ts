@@ -0,0 +1,39 @@
+import { PhotoExif, QualityMetrics } from "../types";
+import { readExif } from "./exifService";
+import { measureSource } from "./qualityService";
+
+// Phone photos are often 12+ MP; the long edge is capped so uploads stay close to live-capture size
+const MAX_UPLOAD_EDGE = 2048;
+
+export interface PreparedPhoto {
+  imageUrl: string; // Upright JPEG data URL without EXIF
+  timestamp: number; // When the photo was taken, falling back to the file's modification time
+  exif: PhotoExif;
+  quality: QualityMetrics | null;
+}
+
+/**
+ * Reads a photo picked from the device and re-encodes it upright. Browsers apply the EXIF
+ * orientation while decoding, so drawing the bitmap bakes the rotation into the pixels and the
+ * stored image displays correctly everywhere, including in the model request.
+ */
+export const preparePhotoUpload = async (file: File): Promise<PreparedPhoto> => {
+  const exif = readExif(await file.arrayBuffer());
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_UPLOAD_EDGE / Math.max(bitmap.width, bitmap.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  return {
+    imageUrl: canvas.toDataURL('image/jpeg', 0.92),
+    timestamp: exif.capturedAt ?? file.lastModified,
+    exif,
+    quality: measureSource(canvas, canvas.width, canvas.height),
+  };
+};
@@ -0,0 +1,82 @@
+import { CapturedItem, PromptFunction, PromptTemplate } from "../types";
+import { tryAnalyzeInspectionSession, tryGetPreCaptureGuidance } from "./aiService";
+
+// Only prompts that run on a saved capture can be replayed against one
+export const EVALUABLE_PROMPT_FUNCTIONS: PromptFunction[] = ['field-analysis', 'session-analysis', 'guidance'];
+
+export const canEvaluateOn = (fn: PromptFunction, item: CapturedItem): boolean => {
+  if (fn === 'session-analysis') return (item.session?.shots.length ?? 0) > 1;
+  if (fn === 'field-analysis') return !item.session || item.session.shots.length <= 1;
+  return fn === 'guidance';
+};
+
+// Output reduced to comparable, displayable fields
+export type EvalOutput =
+  | { ok: true; fields: Record<string, string>; latencyMs: number }
+  | { ok: false; error: string };
+
+export interface PromptComparisonRow {
+  item: CapturedItem;
+  a: EvalOutput;
+  b: EvalOutput;
+  differences: string[]; // Field names whose values differ between the two versions
+}
+
+const toBase64 = (dataUrl: string) => dataUrl.split(',')[1];
+
+const runOnce = async (template: PromptTemplate, item: CapturedItem): Promise<EvalOutput> => {
+  const startedAt = performance.now();
+  try {
+    if (template.fn === 'guidance') {
+      const hints = await tryGetPreCaptureGuidance(toBase64(item.imageUrl), template);
+      return { ok: true, fields: { hints: hints.join(' | ') || '(none)' }, latencyMs: Math.round(performance.now() - startedAt) };
+    }
+    const images = item.session ? item.session.shots.map(shot => toBase64(shot.imageUrl)) : [toBase64(item.imageUrl)];
+    const record = await tryAnalyzeInspectionSession(images, item.contextPrompt || item.metadata.component, template);
+    const { result } = record;
+    return {
+      ok: true,
+      latencyMs: record.latencyMs,
+      fields: {
+        defectType: result.defectType,
+        severity: result.severity,
+        confidence: String(result.confidence),
+        quality: result.isQualitySufficient ? 'sufficient' : 'insufficient',
+        missingAngles: (result.missingAngles ?? []).join(', ') || '(none)',
+        regions: String(result.suggestedRegions?.length ?? 0),
+        instructions: result.instructions,
+      },
+    };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const diffOutputs = (a: EvalOutput, b: EvalOutput): string[] => {
+  if (!a.ok || !b.ok) return a.ok === b.ok ? [] : ['error'];
+  return Object.keys(a.fields).filter(field => a.fields[field] !== b.fields[field]);
+};
+
+/**
+ * Runs two versions of a prompt over the same captures, one request at a time to stay within
+ * rate limits. Results are for comparison only and are not added to the items' analysis history.
+ */
+export const comparePromptVersions = async (
+  items: CapturedItem[],
+  a: PromptTemplate,
+  b: PromptTemplate,
+  onRow: (row: PromptComparisonRow, done: number) => void,
+  isCancelled: () => boolean = () => false,
+): Promise<PromptComparisonRow[]> => {
+  if (a.fn !== b.fn) throw new Error('Both versions must belong to the same prompt');
+  const rows: PromptComparisonRow[] = [];
+  for (const item of items.filter(i => canEvaluateOn(a.fn, i))) {
+    if (isCancelled()) break;
+    const outputA = await runOnce(a, item);
+    const outputB = await runOnce(b, item);
+    const row = { item, a: outputA, b: outputB, differences: diffOutputs(outputA, outputB) };
+    rows.push(row);
+    onRow(row, rows.length);
+  }
+  return rows;
+};
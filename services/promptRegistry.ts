@@ -0,0 +1,140 @@
+import { PromptFunction, PromptTemplate } from "../types";
+
+export interface PromptFunctionInfo {
+  id: PromptFunction;
+  label: string;
+  description: string;
+  variables: string[]; // Placeholders the caller fills in; templates may not use any others
+}
+
+export const PROMPT_FUNCTIONS: PromptFunctionInfo[] = [
+  { id: 'guidance', label: 'Pre-capture guidance', description: 'Short HUD hints from the live viewfinder', variables: [] },
+  { id: 'field-analysis', label: 'Field analysis', description: 'Structured defect analysis of one capture', variables: ['context'] },
+  { id: 'session-analysis', label: 'Session analysis', description: 'Joint analysis of a multi-view inspection session', variables: ['context', 'imageCount'] },
+  { id: 'overlay', label: 'Overlay', description: 'Image edit that highlights the defect', variables: ['subject'] },
+  { id: 'video', label: 'Inspection video', description: 'Flyover video of the component', variables: ['prompt'] },
+  { id: 'report', label: 'Dataset report', description: 'Strategic report over all captures', variables: ['entries'] },
+  { id: 'chat-system', label: 'Central (chat)', description: 'System instruction of the shared chat assistant', variables: [] },
+];
+
+// Version 1 of every function is the wording the app has always used
+const BUILT_IN_TEXT: Record<PromptFunction, string> = {
+  'guidance': `You are an industrial camera assistant. Analyze this viewfinder frame.
+Provide 1-3 very short, punchy HUD (Heads-Up Display) instructions to help the engineer get a better photo for dataset collection.
+Examples: "Move Closer", "Too Dark", "Center the subject", "Avoid Glare", "Hold Steady".
+Return ONLY a JSON array of strings.`,
+  'field-analysis': `Analyze this industrial machinery image. Context: {{context}}. Provide structured feedback for the field engineer.`,
+  'session-analysis': `These {{imageCount}} images are different views (close-up, wide shot, other angles) of the same spot on an industrial machine. Context: {{context}}.
+Assess the defect using all views together and provide one structured result for the field engineer.
+Only list missing angles that none of the views cover. Bounding boxes refer to the first image.`,
+  'overlay': `Edit this image to visually highlight the following: {{subject}}. Draw clear neon bounding boxes or heatmaps over the defects. Keep the rest of the image photorealistic.`,
+  'video': `{{prompt}}`,
+  'report': `Act as a Lead Data Scientist. Analyze the following captured dataset entries for an industrial predictive maintenance model.
+
+Dataset Entries:
+{{entries}}
+
+Provide a concise strategic report covering:
+1. Class balance issues.
+2. Recommendations for the field team on what to capture next.
+3. Overall dataset health.`,
+  'chat-system': `You are 'Central', an advanced AI coordinator for an industrial factory. You bridge the gap between Field Engineers (on the floor) and Data Scientists (in the lab). Be concise, helpful, and professional. Focus on data quality, safety, and equipment context.`,
+};
+
+const BUILT_IN_TEMPLATES: PromptTemplate[] = PROMPT_FUNCTIONS.map(({ id }) => ({
+  id: `${id}/1`,
+  fn: id,
+  version: 1,
+  name: 'Original',
+  template: BUILT_IN_TEXT[id],
+  builtIn: true,
+  createdAt: 0,
+}));
+
+// Prompts are read synchronously on every AI call, so they live in localStorage like other settings
+const TEMPLATES_STORAGE_KEY = 'fb-prompt-templates';
+const ACTIVE_STORAGE_KEY = 'fb-active-prompts';
+// Highest version ever issued per function, so a deleted version's number is never reused
+const ISSUED_STORAGE_KEY = 'fb-prompt-issued-versions';
+
+const readJson = <T>(key: string, fallback: T): T => {
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : fallback;
+  } catch (error) {
+    console.error(`Ignoring unreadable ${key}`, error);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  if (typeof localStorage !== 'undefined') localStorage.setItem(key, JSON.stringify(value));
+};
+
+const loadCustomTemplates = (): PromptTemplate[] => readJson<PromptTemplate[]>(TEMPLATES_STORAGE_KEY, []);
+
+export const listPromptVersions = (fn: PromptFunction): PromptTemplate[] =>
+  [...BUILT_IN_TEMPLATES, ...loadCustomTemplates()]
+    .filter(t => t.fn === fn)
+    .sort((a, b) => a.version - b.version);
+
+export const getPromptTemplate = (id: string): PromptTemplate | undefined =>
+  [...BUILT_IN_TEMPLATES, ...loadCustomTemplates()].find(t => t.id === id);
+
+export const getActivePrompt = (fn: PromptFunction): PromptTemplate => {
+  const activeId = readJson<Partial<Record<PromptFunction, string>>>(ACTIVE_STORAGE_KEY, {})[fn];
+  const active = activeId ? getPromptTemplate(activeId) : undefined;
+  return active?.fn === fn ? active : BUILT_IN_TEMPLATES.find(t => t.fn === fn)!;
+};
+
+export const setActivePrompt = (fn: PromptFunction, id: string) => {
+  if (getPromptTemplate(id)?.fn !== fn) throw new Error(`Unknown ${fn} prompt version: ${id}`);
+  writeJson(ACTIVE_STORAGE_KEY, { ...readJson(ACTIVE_STORAGE_KEY, {}), [fn]: id });
+};
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const findUnknownVariables = (fn: PromptFunction, template: string): string[] => {
+  const allowed = PROMPT_FUNCTIONS.find(f => f.id === fn)?.variables ?? [];
+  const used = [...template.matchAll(VARIABLE_PATTERN)].map(match => match[1]);
+  return [...new Set(used.filter(name => !allowed.includes(name)))];
+};
+
+/**
+ * Stores a new version of a function's prompt. Existing versions are never edited, so every
+ * recorded result keeps pointing at the exact wording that produced it.
+ */
+export const savePromptVersion = (fn: PromptFunction, name: string, template: string): PromptTemplate => {
+  const unknown = findUnknownVariables(fn, template);
+  if (unknown.length > 0) throw new Error(`Unknown variable(s): ${unknown.map(v => `{{${v}}}`).join(', ')}`);
+  if (!template.trim()) throw new Error('The prompt is empty');
+
+  const issued = readJson<Partial<Record<PromptFunction, number>>>(ISSUED_STORAGE_KEY, {});
+  const version = Math.max(issued[fn] ?? 0, ...listPromptVersions(fn).map(t => t.version)) + 1;
+  const created: PromptTemplate = {
+    id: `${fn}/${version}`,
+    fn,
+    version,
+    name: name.trim() || `Version ${version}`,
+    template,
+    builtIn: false,
+    createdAt: Date.now(),
+  };
+  writeJson(TEMPLATES_STORAGE_KEY, [...loadCustomTemplates(), created]);
+  writeJson(ISSUED_STORAGE_KEY, { ...issued, [fn]: version });
+  return created;
+};
+
+// Deleting the active version falls back to the original wording
+export const deletePromptVersion = (id: string) => {
+  writeJson(TEMPLATES_STORAGE_KEY, loadCustomTemplates().filter(t => t.id !== id));
+  const active = readJson<Partial<Record<PromptFunction, string>>>(ACTIVE_STORAGE_KEY, {});
+  writeJson(ACTIVE_STORAGE_KEY, Object.fromEntries(Object.entries(active).filter(([, activeId]) => activeId !== id)));
+};
+
+export const renderPrompt = (template: PromptTemplate, variables: Record<string, string | number> = {}): string =>
+  template.template.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (!(name in variables)) throw new Error(`Prompt ${template.id} needs a value for {{${name}}}`);
+    return String(variables[name]);
+  });
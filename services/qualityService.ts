@@ -0,0 +1,99 @@
+import { QualityMetrics } from "../types";
+
+// Frames are measured at a fixed width so scores are comparable between live frames,
+// full-resolution captures and uploads
+const SAMPLE_WIDTH = 320;
+
+// Below this Laplacian variance (on 0-255 luma at SAMPLE_WIDTH) a frame reads as motion- or focus-blurred
+export const MIN_SHARPNESS = 60;
+const MAX_UNDEREXPOSED = 0.35; // Share of pixels crushed to black
+const MAX_OVEREXPOSED = 0.25; // Share of pixels blown to white
+const MAX_GLARE = 0.02; // Share of specular highlight pixels
+const MIN_SUBJECT_FILL = 0.2; // Share of the frame with visible structure
+
+const GRID_COLUMNS = 16;
+const GRID_ROWS = 12;
+const CELL_EDGE_THRESHOLD = 12; // Mean gradient magnitude for a cell to count as subject rather than background
+
+/**
+ * Computes objective quality scores from raw pixels: Laplacian-variance sharpness, histogram
+ * clipping at both ends, specular glare (near-white, unsaturated pixels) and subject fill
+ * (share of grid cells with edge detail).
+ */
+export const measureQuality = ({ data, width, height }: ImageData): QualityMetrics => {
+  const luma = new Float32Array(width * height);
+  let lumaSum = 0;
+  let under = 0;
+  let over = 0;
+  let glare = 0;
+
+  for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+    const r = data[p], g = data[p + 1], b = data[p + 2];
+    const y = 0.299 * r + 0.587 * g + 0.114 * b;
+    luma[i] = y;
+    lumaSum += y;
+    if (y <= 5) under++;
+    if (y >= 250) over++;
+    if (y >= 235 && Math.max(r, g, b) - Math.min(r, g, b) < 25) glare++;
+  }
+
+  // 4-neighbour Laplacian variance, plus per-cell gradient energy for subject fill
+  let lapSum = 0;
+  let lapSqSum = 0;
+  const cellEnergy = new Float32Array(GRID_COLUMNS * GRID_ROWS);
+  const cellCount = new Uint32Array(GRID_COLUMNS * GRID_ROWS);
+  for (let y = 1; y < height - 1; y++) {
+    const cellRow = Math.min(GRID_ROWS - 1, Math.floor((y / height) * GRID_ROWS)) * GRID_COLUMNS;
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i];
+      lapSum += lap;
+      lapSqSum += lap * lap;
+      const cell = cellRow + Math.min(GRID_COLUMNS - 1, Math.floor((x / width) * GRID_COLUMNS));
+      cellEnergy[cell] += Math.abs(luma[i + 1] - luma[i - 1]) + Math.abs(luma[i + width] - luma[i - width]);
+      cellCount[cell]++;
+    }
+  }
+  const inner = Math.max(1, (width - 2) * (height - 2));
+  const lapMean = lapSum / inner;
+  const busyCells = cellEnergy.filter((energy, cell) => cellCount[cell] > 0 && energy / cellCount[cell] >= CELL_EDGE_THRESHOLD).length;
+
+  const total = Math.max(1, luma.length);
+  return {
+    sharpness: Math.round(lapSqSum / inner - lapMean * lapMean),
+    meanLuma: Math.round(lumaSum / total),
+    underexposed: under / total,
+    overexposed: over / total,
+    glare: glare / total,
+    subjectFill: busyCells / (GRID_COLUMNS * GRID_ROWS),
+  };
+};
+
+/**
+ * Draws any image source at the sampling width and measures it.
+ */
+export const measureSource = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): QualityMetrics | null => {
+  if (!sourceWidth || !sourceHeight) return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_WIDTH;
+  canvas.height = Math.max(1, Math.round((sourceHeight / sourceWidth) * SAMPLE_WIDTH));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return measureQuality(ctx.getImageData(0, 0, canvas.width, canvas.height));
+};
+
+/**
+ * Turns metrics into HUD instructions, worst problem first. An empty list means the frame passes.
+ */
+export const getQualityIssues = (metrics: QualityMetrics): string[] => {
+  const issues: string[] = [];
+  if (metrics.underexposed > MAX_UNDEREXPOSED || metrics.meanLuma < 40) issues.push('Too Dark');
+  if (metrics.overexposed > MAX_OVEREXPOSED) issues.push('Too Bright');
+  else if (metrics.glare > MAX_GLARE) issues.push('Avoid Glare');
+  if (metrics.sharpness < MIN_SHARPNESS) issues.push('Hold Steady');
+  if (metrics.subjectFill < MIN_SUBJECT_FILL) issues.push('Move Closer');
+  return issues;
+};
+
+export const passesQuality = (metrics: QualityMetrics): boolean => getQualityIssues(metrics).length === 0;
@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ModelResponseError,
+  parseModelJson,
+  requestValidated,
+  validateAnalysisResponse,
+  validateGuidanceResponse,
+} from './responseValidationService';
+
+const analysis = (overrides: Record<string, unknown> = {}) => JSON.stringify({
+  defectType: 'Crack',
+  severity: 'High',
+  confidence: 82,
+  instructions: 'Move closer to the weld',
+  isQualitySufficient: true,
+  ...overrides,
+});
+
+const rejection = (run: () => unknown): ModelResponseError => {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof ModelResponseError) return error;
+    throw error;
+  }
+  throw new Error('Expected a ModelResponseError');
+};
+
+describe('parseModelJson', () => {
+  it('parses clean JSON without repairs', () => {
+    expect(parseModelJson('{"a":1}')).toEqual({ value: { a: 1 }, repairs: [] });
+  });
+
+  it('extracts JSON from code fences and surrounding prose, dropping trailing commas', () => {
+    const raw = 'Here is the result:\n```json\n{"a": [1, 2,], "b": {"c": true,},}\n```\nLet me know.';
+    const { value, repairs } = parseModelJson(raw);
+    expect(value).toEqual({ a: [1, 2], b: { c: true } });
+    expect(repairs).toHaveLength(1);
+  });
+
+  it('reports unparseable text with the raw response', () => {
+    const error = rejection(() => parseModelJson('I cannot see a defect.'));
+    expect(error.kind).toBe('unparseable');
+    expect(error.rawResponse).toBe('I cannot see a defect.');
+  });
+});
+
+describe('validateAnalysisResponse', () => {
+  it('accepts a well-formed response as is', () => {
+    const { value, repairs } = validateAnalysisResponse(analysis({ regions: [{ label: 'Crack', box_2d: [1, 2, 3, 4] }] }));
+    expect(value.result).toEqual({ defectType: 'Crack', severity: 'High', confidence: 82, instructions: 'Move closer to the weld', isQualitySufficient: true, missingAngles: undefined });
+    expect(value.regions).toEqual([{ label: 'Crack', box_2d: [1, 2, 3, 4] }]);
+    expect(repairs).toEqual([]);
+  });
+
+  it('repairs recoverable deviations and reports each one', () => {
+    const { value, repairs } = validateAnalysisResponse(analysis({
+      severity: 'high',
+      confidence: '75%',
+      isQualitySufficient: 'false',
+      instructions: '',
+      missingAngles: ['Side', 3],
+      regions: [{ label: 'Crack', box_2d: [1, 2, 3, 4] }, { label: 'Crack', box_2d: [1, 2] }],
+    }));
+    expect(value.result).toMatchObject({ severity: 'High', confidence: 75, isQualitySufficient: false, instructions: 'No guidance returned.', missingAngles: ['Side'] });
+    expect(value.regions).toHaveLength(1);
+    expect(repairs).toHaveLength(5);
+  });
+
+  it('reads fractional confidences below 1 as 0-1 scores', () => {
+    expect(validateAnalysisResponse(analysis({ confidence: 0.82 })).value.result.confidence).toBe(82);
+    expect(validateAnalysisResponse(analysis({ confidence: 0.5 })).value.result.confidence).toBe(50);
+  });
+
+  it('keeps whole-number confidences on the 0-100 scale the schema asks for', () => {
+    const { value, repairs } = validateAnalysisResponse(analysis({ confidence: 1 }));
+    expect(value.result.confidence).toBe(1);
+    expect(repairs).toEqual([]);
+  });
+
+  it('collects every problem that cannot be repaired', () => {
+    const error = rejection(() => validateAnalysisResponse(analysis({ defectType: ' ', severity: 'Severe', confidence: 140, isQualitySufficient: 'maybe' })));
+    expect(error.kind).toBe('invalid');
+    expect(error.issues).toHaveLength(4);
+  });
+
+  it('rejects responses that are not an object', () => {
+    expect(rejection(() => validateAnalysisResponse('[1, 2]')).issues).toEqual(['Expected a JSON object']);
+  });
+});
+
+describe('validateGuidanceResponse', () => {
+  it('accepts a list of hints, keeping at most three', () => {
+    expect(validateGuidanceResponse('["a", "b"]')).toEqual({ value: ['a', 'b'], repairs: [] });
+    expect(validateGuidanceResponse('["a", "b", "c", "d"]').value).toEqual(['a', 'b', 'c']);
+  });
+
+  it('unwraps a single hint or a wrapping object', () => {
+    expect(validateGuidanceResponse('"Hold steady"').value).toEqual(['Hold steady']);
+    expect(validateGuidanceResponse('{"hints": ["Tilt left"]}').value).toEqual(['Tilt left']);
+  });
+
+  it('rejects anything else', () => {
+    expect(rejection(() => validateGuidanceResponse('42')).kind).toBe('invalid');
+  });
+});
+
+describe('requestValidated', () => {
+  it('asks again with the validation issues until a response passes', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const request = vi.fn<(feedback?: string) => Promise<string>>()
+      .mockResolvedValueOnce(analysis({ severity: 'Severe' }))
+      .mockResolvedValueOnce(analysis());
+
+    const { value, rawResponse } = await requestValidated(request, validateAnalysisResponse, 2);
+    expect(value.result.severity).toBe('High');
+    expect(rawResponse).toBe(analysis());
+    expect(request.mock.calls[0][0]).toBeUndefined();
+    expect(request.mock.calls[1][0]).toContain('severity "Severe"');
+  });
+
+  it('throws the last error once the attempts run out', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const request = vi.fn(async () => 'not json');
+    await expect(requestValidated(request, validateAnalysisResponse, 2)).rejects.toBeInstanceOf(ModelResponseError);
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,186 @@
+import { AnalysisResult } from "../types";
+
+type Severity = AnalysisResult['severity'];
+
+const SEVERITIES: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
+
+/**
+ * A model response that could not be parsed or does not match the expected shape, even after repair.
+ * Carries every problem found and the raw text, so failures can be logged and inspected.
+ */
+export class ModelResponseError extends Error {
+  constructor(
+    readonly kind: 'unparseable' | 'invalid',
+    readonly issues: string[],
+    readonly rawResponse: string,
+  ) {
+    super(`Model response ${kind === 'unparseable' ? 'is not valid JSON' : 'failed validation'}: ${issues.join('; ')}`);
+    this.name = 'ModelResponseError';
+  }
+}
+
+// A validated value plus the fixes that were needed to get it, for the analysis history
+export interface Validated<T> {
+  value: T;
+  repairs: string[];
+}
+
+/**
+ * Parses JSON, repairing the usual ways models break it: Markdown code fences, prose around
+ * the JSON, and trailing commas.
+ */
+export const parseModelJson = (raw: string): Validated<unknown> => {
+  try {
+    return { value: JSON.parse(raw), repairs: [] };
+  } catch {
+    // Fall through to repair
+  }
+
+  const unfenced = raw.replace(/```(?:json)?/gi, '');
+  const start = unfenced.search(/[[{]/);
+  const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+  const candidate = start >= 0 && end > start
+    ? unfenced.slice(start, end + 1).replace(/,\s*([}\]])/g, '$1')
+    : unfenced;
+  try {
+    return { value: JSON.parse(candidate), repairs: ['Extracted JSON from a malformed response'] };
+  } catch (error) {
+    throw new ModelResponseError('unparseable', [error instanceof Error ? error.message : String(error)], raw);
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Booleans sometimes arrive as "true"/"false"
+const toBoolean = (value: unknown): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && ['true', 'false'].includes(value.trim().toLowerCase())) return value.trim().toLowerCase() === 'true';
+  return undefined;
+};
+
+const toNumber = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? Number(value.replace('%', '').trim()) : value;
+  return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+};
+
+const toStringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : undefined;
+
+/**
+ * Brings a confidence onto the 0-100 scale. Values from a source known to score 0-1 are scaled
+ * outright; otherwise only values strictly between 0 and 1 are read as fractions, since a whole 1
+ * is as likely to mean 1% as 100%.
+ */
+export const normalizeConfidence = (confidence: number, scale?: '0-1'): number =>
+  scale === '0-1' || (confidence > 0 && confidence < 1) ? Math.round(confidence * 100) : confidence;
+
+export interface RawRegion {
+  label: string;
+  box_2d: number[];
+}
+
+/**
+ * Checks an analysis response against AnalysisResult. Recoverable deviations are repaired and
+ * reported; a missing or meaningless label, severity, confidence or quality flag is an error.
+ * The schema asks for confidence on the 0-100 scale; fractional values below 1 are read as 0-1 scores.
+ */
+export const validateAnalysisResponse = (raw: string): Validated<{ result: Omit<AnalysisResult, 'suggestedRegions'>; regions: RawRegion[] }> => {
+  const { value, repairs } = parseModelJson(raw);
+  if (!isRecord(value)) throw new ModelResponseError('invalid', ['Expected a JSON object'], raw);
+  const issues: string[] = [];
+
+  const defectType = typeof value.defectType === 'string' ? value.defectType.trim() : '';
+  if (!defectType) issues.push('defectType is missing');
+
+  const severity = SEVERITIES.find(s => typeof value.severity === 'string' && s.toLowerCase() === value.severity.trim().toLowerCase());
+  if (!severity) issues.push(`severity ${JSON.stringify(value.severity)} is not one of ${SEVERITIES.join(', ')}`);
+  else if (severity !== value.severity) repairs.push(`Severity "${value.severity}" read as ${severity}`);
+
+  let confidence = toNumber(value.confidence);
+  if (confidence === undefined) {
+    issues.push(`confidence ${JSON.stringify(value.confidence)} is not a number`);
+  } else if (normalizeConfidence(confidence) !== confidence) {
+    repairs.push(`Confidence ${confidence} rescaled from 0-1 to ${normalizeConfidence(confidence)}`);
+    confidence = normalizeConfidence(confidence);
+  } else if (confidence < 0 || confidence > 100) {
+    issues.push(`confidence ${confidence} is outside 0-100`);
+  }
+
+  const isQualitySufficient = toBoolean(value.isQualitySufficient);
+  if (isQualitySufficient === undefined) issues.push(`isQualitySufficient ${JSON.stringify(value.isQualitySufficient)} is not a boolean`);
+  else if (typeof value.isQualitySufficient !== 'boolean') repairs.push('isQualitySufficient converted from text');
+
+  let instructions = typeof value.instructions === 'string' ? value.instructions.trim() : '';
+  if (!instructions) {
+    instructions = 'No guidance returned.';
+    repairs.push('Missing instructions replaced with a placeholder');
+  }
+
+  const missingAngles = value.missingAngles === undefined ? undefined : toStringList(value.missingAngles);
+  if (value.missingAngles !== undefined && (!missingAngles || missingAngles.length !== (value.missingAngles as unknown[]).length)) {
+    repairs.push('Dropped malformed missing angles');
+  }
+
+  const rawRegions = Array.isArray(value.regions) ? value.regions : [];
+  const regions = rawRegions.filter((r): r is RawRegion =>
+    isRecord(r) && typeof r.label === 'string' && Array.isArray(r.box_2d) && r.box_2d.length === 4 && r.box_2d.every(n => typeof n === 'number' && Number.isFinite(n))
+  );
+  if (value.regions !== undefined && !Array.isArray(value.regions)) repairs.push('Ignored regions that were not a list');
+  else if (regions.length < rawRegions.length) repairs.push(`Dropped ${rawRegions.length - regions.length} malformed region(s)`);
+
+  if (issues.length > 0) throw new ModelResponseError('invalid', issues, raw);
+  return {
+    value: {
+      result: { defectType, severity: severity!, confidence: confidence!, instructions, isQualitySufficient: isQualitySufficient!, missingAngles },
+      regions,
+    },
+    repairs,
+  };
+};
+
+const MAX_GUIDANCE_HINTS = 3;
+
+/**
+ * Checks a guidance response: a list of short hints, possibly empty when the frame needs no
+ * correction. A single string or an object wrapping the list is accepted; anything else is an error.
+ */
+export const validateGuidanceResponse = (raw: string): Validated<string[]> => {
+  const { value, repairs } = parseModelJson(raw);
+  let hints: string[] | undefined;
+  if (Array.isArray(value)) {
+    hints = toStringList(value);
+    if (hints!.length !== value.length) repairs.push('Dropped non-text hints');
+  } else if (typeof value === 'string') {
+    hints = [value.trim()].filter(Boolean);
+    repairs.push('Wrapped a single hint in a list');
+  } else if (isRecord(value)) {
+    hints = Object.values(value).map(toStringList).find(list => list !== undefined);
+    if (hints) repairs.push('Unwrapped hints from an object');
+  }
+  if (!hints) throw new ModelResponseError('invalid', ['Expected an array of hint strings'], raw);
+  if (hints.length > MAX_GUIDANCE_HINTS) repairs.push(`Kept the first ${MAX_GUIDANCE_HINTS} of ${hints.length} hints`);
+  return { value: hints.slice(0, MAX_GUIDANCE_HINTS), repairs };
+};
+
+/**
+ * Requests and validates a response, asking the model again with the validation issues when the
+ * output cannot be repaired. Throws the last ModelResponseError once the attempts run out.
+ */
+export const requestValidated = async <T>(
+  request: (feedback?: string) => Promise<string>,
+  validate: (raw: string) => Validated<T>,
+  attempts: number,
+): Promise<Validated<T> & { rawResponse: string }> => {
+  let feedback: string | undefined;
+  for (let attempt = 1; ; attempt++) {
+    const rawResponse = await request(feedback);
+    try {
+      return { ...validate(rawResponse), rawResponse };
+    } catch (error) {
+      if (!(error instanceof ModelResponseError) || attempt >= attempts) throw error;
+      console.warn(`Retrying invalid model response (attempt ${attempt} of ${attempts})`, error.issues);
+      feedback = `Your previous response was rejected: ${error.issues.join('; ')}. Respond again with JSON that follows the schema exactly.`;
+    }
+  }
+};
@@ -0,0 +1,77 @@
+import { AnalysisRecord, AnalysisResult, CapturedItem, DefectTaxonomy, ReviewStatus } from "../types";
+import { adoptAnalysisRecord } from "./analysisHistoryService";
+
+export const REJECTION_REASONS = [
+  'Blurry or out of focus',
+  'Poor exposure',
+  'Wrong component',
+  'Defect not visible',
+  'Duplicate',
+  'Other',
+];
+
+export interface ReviewDecision {
+  status: ReviewStatus;
+  reviewer: string;
+  defectType?: string;
+  severity?: AnalysisResult['severity'];
+  reason?: string;
+  notes?: string;
+}
+
+/**
+ * Applies a reviewer's decision to an item. Label corrections overwrite the analysis so
+ * statistics reflect them, while the first AI value is kept on the review record.
+ */
+export const applyReview = (item: CapturedItem, decision: ReviewDecision): CapturedItem => {
+  const { analysis, review: previous } = item;
+  let updatedAnalysis = analysis;
+  let originalDefectType = previous?.originalDefectType;
+  let originalSeverity = previous?.originalSeverity;
+
+  if (analysis) {
+    if (decision.defectType && decision.defectType !== analysis.defectType) {
+      originalDefectType = originalDefectType ?? analysis.defectType;
+    }
+    if (decision.severity && decision.severity !== analysis.severity) {
+      originalSeverity = originalSeverity ?? analysis.severity;
+    }
+    updatedAnalysis = {
+      ...analysis,
+      defectType: decision.defectType || analysis.defectType,
+      severity: decision.severity || analysis.severity,
+    };
+  }
+
+  return {
+    ...item,
+    analysis: updatedAnalysis,
+    status: decision.status,
+    review: {
+      reviewer: decision.reviewer,
+      reviewedAt: Date.now(),
+      reason: decision.reason || undefined,
+      notes: decision.notes || undefined,
+      originalDefectType,
+      originalSeverity,
+    },
+  };
+};
+
+/**
+ * Replaces the label with another model run. The new label has not been checked by anyone,
+ * so the item goes back into the review queue.
+ */
+export const applyReanalysis = (item: CapturedItem, record: AnalysisRecord, taxonomy: DefectTaxonomy): CapturedItem => ({
+  ...adoptAnalysisRecord(item, record, taxonomy),
+  contextPrompt: record.contextPrompt,
+  status: 'pending',
+  review: undefined,
+});
+
+/**
+ * Only items a human has approved are eligible for training.
+ */
+export const isTrainingReady = (item: CapturedItem): boolean => {
+  return item.status === 'approved' && !!item.review && !!item.analysis;
+};
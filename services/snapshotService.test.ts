@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedItem, SnapshotEntry } from '../types';
+import { createSnapshot, diffSnapshots } from './snapshotService';
+
+const image = (content: string) => `data:image/jpeg;base64,${btoa(content)}`;
+
+const capture = (id: string, overrides: Partial<CapturedItem> = {}): CapturedItem => ({
+  id,
+  timestamp: 1000,
+  imageUrl: image(id),
+  analysis: { defectType: 'Rust', severity: 'Low', confidence: 80, instructions: '', isQualitySufficient: true },
+  status: 'pending',
+  metadata: { machineId: 'M-1', component: 'Mount', location: 'Line 1' },
+  ...overrides,
+});
+
+const entry = (id: string, contentHash: string, overrides: Partial<CapturedItem> = {}): SnapshotEntry => {
+  const { imageUrl, session, ...item } = capture(id, overrides);
+  return { contentHash, item };
+};
+
+describe('createSnapshot', () => {
+  it('stores each image once per content hash and leaves image data out of the entries', async () => {
+    const { snapshot, images } = await createSnapshot(' v1 ', [capture('a'), capture('b', { imageUrl: image('a'), annotatedImageUrl: image('overlay') })]);
+
+    expect(snapshot.name).toBe('v1');
+    expect(images).toHaveLength(1);
+    expect(snapshot.entries[0].contentHash).toBe(images[0].hash);
+    expect(snapshot.entries[1].contentHash).toBe(images[0].hash);
+    expect(snapshot.entries[1].item).not.toHaveProperty('annotatedImageUrl');
+  });
+
+  it('versions every session view by content hash', async () => {
+    const session = { id: 's1', shots: [{ id: 'a', imageUrl: image('a'), timestamp: 1 }, { id: 'a2', imageUrl: image('side'), timestamp: 2, angle: 'Side' }] };
+    const { snapshot, images } = await createSnapshot('v1', [capture('a', { session })]);
+
+    expect(images).toHaveLength(2);
+    const shots = snapshot.entries[0].item.session!.shots;
+    expect(shots[0].contentHash).toBe(snapshot.entries[0].contentHash);
+    expect(shots[1]).toMatchObject({ id: 'a2', angle: 'Side' });
+    expect(shots[1]).not.toHaveProperty('imageUrl');
+    expect(images.map(i => i.hash)).toContain(shots[1].contentHash);
+  });
+
+  it('gives the same manifest hash for the same images and labels, whatever the order', async () => {
+    const a = await createSnapshot('one', [capture('a'), capture('b')]);
+    const b = await createSnapshot('two', [capture('b', { timestamp: 5, metadata: { machineId: 'M-9', component: 'Other', location: 'Line 2' } }), capture('a')]);
+    const relabelled = await createSnapshot('three', [capture('a'), capture('b', { status: 'approved' })]);
+    const reshotView = await createSnapshot('four', [capture('a', { session: { id: 's', shots: [{ id: 'a', imageUrl: image('a'), timestamp: 1 }] } }), capture('b')]);
+
+    expect(b.snapshot.manifestHash).toBe(a.snapshot.manifestHash);
+    expect(relabelled.snapshot.manifestHash).not.toBe(a.snapshot.manifestHash);
+    expect(reshotView.snapshot.manifestHash).not.toBe(a.snapshot.manifestHash);
+  });
+});
+
+describe('diffSnapshots', () => {
+  it('reports added, removed, relabelled and unchanged items', () => {
+    const base = [entry('same', 'h1'), entry('relabel', 'h2'), entry('gone', 'h3')];
+    const target = [
+      entry('same', 'h1', { metadata: { machineId: 'M-2', component: 'Mount', location: 'Line 1' } }),
+      entry('relabel', 'h2', { status: 'approved', analysis: { defectType: 'Crack', severity: 'Low', confidence: 80, instructions: '', isQualitySufficient: true } }),
+      entry('new', 'h4'),
+    ];
+    const diff = diffSnapshots(base, target);
+
+    expect(diff.added.map(e => e.item.id)).toEqual(['new']);
+    expect(diff.removed.map(e => e.item.id)).toEqual(['gone']);
+    expect(diff.relabelled).toHaveLength(1);
+    expect(diff.relabelled[0].changes).toEqual(['defectType', 'status']);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('treats a replaced image as a removed and an added sample', () => {
+    const diff = diffSnapshots([entry('a', 'old')], [entry('a', 'new')]);
+    expect(diff.added.map(e => e.contentHash)).toEqual(['new']);
+    expect(diff.removed.map(e => e.contentHash)).toEqual(['old']);
+    expect(diff.relabelled).toEqual([]);
+  });
+
+  it('notices region edits', () => {
+    const region = { id: 'r1', kind: 'box' as const, label: 'Rust', x: 0, y: 0, width: 0.5, height: 0.5, source: 'human' as const };
+    const diff = diffSnapshots([entry('a', 'h')], [entry('a', 'h', { regions: [region] })]);
+    expect(diff.relabelled[0].changes).toEqual(['regions']);
+  });
+});
@@ -0,0 +1,155 @@
+import { CapturedItem, DatasetSnapshot, SessionShot, SnapshotEntry, SnapshotItem } from "../types";
+import { blobToDataUrl, dataUrlToBlob, loadSnapshotImages, SnapshotImage } from "./storageService";
+
+const toHex = (buffer: ArrayBuffer) => [...new Uint8Array(buffer)].map(b => b.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource | string): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data));
+
+// The fields that define a label; everything else on an item is context
+const labelOf = (item: SnapshotItem) => ({
+  defectType: item.analysis?.defectType ?? null,
+  severity: item.analysis?.severity ?? null,
+  status: item.status,
+  regions: item.regions ?? [],
+});
+
+/**
+ * Hashes over the entries sorted by id, so the same images with the same labels always give
+ * the same manifest hash regardless of capture order or unrelated metadata.
+ */
+const computeManifestHash = (entries: SnapshotEntry[]): Promise<string> => {
+  const canonical = [...entries]
+    .sort((a, b) => a.item.id.localeCompare(b.item.id))
+    .map(entry => ({
+      id: entry.item.id,
+      contentHash: entry.contentHash,
+      ...(entry.item.session && { sessionHashes: entry.item.session.shots.map(shot => shot.contentHash) }),
+      ...labelOf(entry.item),
+    }));
+  return sha256(JSON.stringify(canonical));
+};
+
+/**
+ * Freezes the given items into a named version, including every view of a session. The returned
+ * images are keyed by content hash; the storage layer keeps one copy per hash no matter how many
+ * versions (or session views) reference it.
+ */
+export const createSnapshot = async (
+  name: string,
+  items: CapturedItem[],
+  notes?: string,
+): Promise<{ snapshot: DatasetSnapshot; images: SnapshotImage[] }> => {
+  const images = new Map<string, Blob>();
+  const addImage = async (dataUrl: string): Promise<string> => {
+    const image = await dataUrlToBlob(dataUrl);
+    const contentHash = await sha256(await image.arrayBuffer());
+    images.set(contentHash, image);
+    return contentHash;
+  };
+
+  const entries: SnapshotEntry[] = [];
+  for (const { imageUrl, annotatedImageUrl, session, sync, ...versioned } of items) {
+    const contentHash = await addImage(imageUrl);
+    const shots = [];
+    for (const { imageUrl: shotUrl, ...shot } of session?.shots ?? []) {
+      shots.push({ ...shot, contentHash: await addImage(shotUrl) });
+    }
+    entries.push({ contentHash, item: session ? { ...versioned, session: { id: session.id, shots } } : versioned });
+  }
+
+  return {
+    snapshot: {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      notes: notes?.trim() || undefined,
+      createdAt: Date.now(),
+      entries,
+      manifestHash: await computeManifestHash(entries),
+    },
+    images: [...images].map(([hash, image]) => ({ hash, image })),
+  };
+};
+
+export type LabelChange = 'defectType' | 'severity' | 'status' | 'regions';
+
+export interface RelabelledEntry {
+  before: SnapshotEntry;
+  after: SnapshotEntry;
+  changes: LabelChange[];
+}
+
+export interface SnapshotDiff {
+  added: SnapshotEntry[];
+  removed: SnapshotEntry[];
+  relabelled: RelabelledEntry[];
+  unchanged: number;
+}
+
+/**
+ * Compares two versions item by item. An item whose image was replaced counts as removed and
+ * re-added, since it is no longer the same training sample.
+ */
+export const diffSnapshots = (base: SnapshotEntry[], target: SnapshotEntry[]): SnapshotDiff => {
+  const key = (entry: SnapshotEntry) => `${entry.item.id}:${entry.contentHash}`;
+  const baseByKey = new Map(base.map(entry => [key(entry), entry]));
+  const targetKeys = new Set(target.map(key));
+  const diff: SnapshotDiff = { added: [], removed: base.filter(entry => !targetKeys.has(key(entry))), relabelled: [], unchanged: 0 };
+
+  target.forEach(after => {
+    const before = baseByKey.get(key(after));
+    if (!before) {
+      diff.added.push(after);
+      return;
+    }
+    const a = labelOf(before.item);
+    const b = labelOf(after.item);
+    const changes = (Object.keys(a) as LabelChange[]).filter(field => JSON.stringify(a[field]) !== JSON.stringify(b[field]));
+    if (changes.length > 0) diff.relabelled.push({ before, after, changes });
+    else diff.unchanged++;
+  });
+  return diff;
+};
+
+/**
+ * The working set in snapshot form, for diffing unsaved changes against a version.
+ * Nothing is written to storage.
+ */
+export const describeWorkingSet = async (items: CapturedItem[]): Promise<SnapshotEntry[]> =>
+  (await createSnapshot('Working set', items)).snapshot.entries;
+
+/**
+ * Rebuilds full items, session views included, from a version's stored images. Context that is
+ * not versioned (the annotated preview, sync state) is taken from the current item when its image
+ * is unchanged.
+ */
+export const materializeSnapshot = async (snapshot: DatasetSnapshot, current: CapturedItem[] = []): Promise<CapturedItem[]> => {
+  const hashes = snapshot.entries.flatMap(entry => [entry.contentHash, ...(entry.item.session?.shots.map(shot => shot.contentHash) ?? [])]);
+  const images = await loadSnapshotImages([...new Set(hashes)]);
+  const currentById = new Map(current.map(item => [item.id, item]));
+
+  const toDataUrl = (contentHash: string) => {
+    const image = images.get(contentHash);
+    if (!image) throw new Error(`Image ${contentHash.slice(0, 8)} of version "${snapshot.name}" is missing from storage`);
+    return blobToDataUrl(image);
+  };
+
+  const items: CapturedItem[] = [];
+  for (const { contentHash, item: { session, ...item } } of snapshot.entries) {
+    const existing = currentById.get(item.id);
+    const imageUrl = await toDataUrl(contentHash);
+    const keepsContext = existing?.imageUrl === imageUrl;
+    const shots: SessionShot[] = [];
+    for (const { contentHash: shotHash, ...shot } of session?.shots ?? []) {
+      shots.push({ ...shot, imageUrl: await toDataUrl(shotHash) });
+    }
+    items.push({
+      ...item,
+      imageUrl,
+      annotatedImageUrl: keepsContext ? existing.annotatedImageUrl : undefined,
+      session: session && { id: session.id, shots },
+      sync: keepsContext ? existing.sync : undefined,
+    });
+  }
+  return items;
+};
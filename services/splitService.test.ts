@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CapturedItem } from '../types';
+import { DEFAULT_SPLIT_RATIOS, getSplitDistribution, groupForLeakage, planSplits } from './splitService';
+
+let nextId = 0;
+const capture = (machineId: string, defectType = 'Rust', overrides: Partial<CapturedItem> = {}): CapturedItem => ({
+  id: `item-${nextId++}`,
+  timestamp: 1000,
+  imageUrl: '',
+  analysis: { defectType, severity: 'Medium', confidence: 80, instructions: '', isQualitySufficient: true },
+  status: 'approved',
+  metadata: { machineId, component: 'Mount', location: 'Line 1' },
+  ...overrides,
+});
+
+// 20 machines with 5 captures each, alternating between two defect classes
+const dataset = () => Array.from({ length: 20 }, (_, m) =>
+  Array.from({ length: 5 }, (_, i) => capture(`M-${m}`, (m + i) % 2 ? 'Rust' : 'Crack'))).flat();
+
+describe('groupForLeakage', () => {
+  it('keeps each machine together and joins machines that share a session', () => {
+    const session = { id: 's1', shots: [] };
+    const items = [capture('A'), capture('A'), capture('B', 'Rust', { session }), capture('C', 'Rust', { session }), capture('D')];
+    const groups = groupForLeakage(items).map(group => [...new Set(group.map(i => i.metadata.machineId))].sort());
+    expect(groups.sort()).toEqual([['A'], ['B', 'C'], ['D']]);
+  });
+});
+
+describe('planSplits', () => {
+  it('never puts one machine in two splits', () => {
+    const items = dataset();
+    const { assignments } = planSplits(items, DEFAULT_SPLIT_RATIOS);
+    const splitsPerMachine = new Map<string, Set<string>>();
+    items.forEach(item => {
+      const splits = splitsPerMachine.get(item.metadata.machineId) ?? new Set();
+      splits.add(assignments.get(item.id)!);
+      splitsPerMachine.set(item.metadata.machineId, splits);
+    });
+    expect(assignments.size).toBe(items.length);
+    splitsPerMachine.forEach(splits => expect(splits.size).toBe(1));
+  });
+
+  it('approximates the requested ratios and covers every class in every split', () => {
+    const items = dataset();
+    const { assignments, warnings } = planSplits(items, DEFAULT_SPLIT_RATIOS);
+    const count = (split: string) => [...assignments.values()].filter(s => s === split).length;
+
+    expect(count('train')).toBeGreaterThanOrEqual(65);
+    expect(count('train')).toBeLessThanOrEqual(75);
+    expect(count('val')).toBeGreaterThanOrEqual(10);
+    expect(count('test')).toBeGreaterThanOrEqual(10);
+    expect(warnings).toEqual([]);
+
+    const withSplits = items.map(item => ({ ...item, split: assignments.get(item.id) }));
+    const distribution = getSplitDistribution(withSplits);
+    (['train', 'val', 'test'] as const).forEach(split => expect(Object.keys(distribution[split]).sort()).toEqual(['Crack', 'Rust']));
+  });
+
+  it('is deterministic for the same items, whatever their order', () => {
+    const items = dataset();
+    expect(Object.fromEntries(planSplits([...items].reverse(), DEFAULT_SPLIT_RATIOS).assignments))
+      .toEqual(Object.fromEntries(planSplits(items, DEFAULT_SPLIT_RATIOS).assignments));
+  });
+
+  it('leaves out splits with a zero ratio', () => {
+    const { assignments } = planSplits(dataset(), { train: 0.8, val: 0.2, test: 0 });
+    expect([...new Set(assignments.values())].sort()).toEqual(['train', 'val']);
+  });
+
+  it('warns when there are fewer machines than splits', () => {
+    const { groupCount, warnings } = planSplits([capture('A'), capture('B')], DEFAULT_SPLIT_RATIOS);
+    expect(groupCount).toBe(2);
+    expect(warnings[0]).toContain('Only 2 machine group(s) for 3 splits');
+  });
+
+  it('warns when a split is missing a class', () => {
+    const items = [...dataset(), capture('Rare', 'Dent')];
+    const { warnings } = planSplits(items, DEFAULT_SPLIT_RATIOS);
+    expect(warnings.filter(w => w.includes('Dent · Medium'))).toHaveLength(2);
+  });
+});
@@ -0,0 +1,105 @@
+import { CapturedItem, DatasetSplit } from "../types";
+
+export const DATASET_SPLITS: DatasetSplit[] = ['train', 'val', 'test'];
+
+export type SplitRatios = Record<DatasetSplit, number>;
+
+export const DEFAULT_SPLIT_RATIOS: SplitRatios = { train: 0.7, val: 0.15, test: 0.15 };
+
+// Items are balanced on defect class and severity together
+const stratumOf = (item: CapturedItem) => `${item.analysis?.defectType ?? 'Unknown'}|${item.analysis?.severity ?? 'Unknown'}`;
+
+/**
+ * Groups items that must land in the same split: everything shot on one machine, and every
+ * item that belongs to the same inspection session. A model validated on a machine it was
+ * trained on looks better than it is.
+ */
+export const groupForLeakage = (items: CapturedItem[]): CapturedItem[][] => {
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    const p = parent.get(key) ?? key;
+    if (p === key) return key;
+    const root = find(p);
+    parent.set(key, root);
+    return root;
+  };
+  const union = (a: string, b: string) => parent.set(find(a), find(b));
+
+  items.forEach(item => {
+    const machine = `machine:${item.metadata.machineId}`;
+    if (item.session) union(`session:${item.session.id}`, machine);
+    else find(machine);
+  });
+
+  const groups = new Map<string, CapturedItem[]>();
+  items.forEach(item => {
+    const root = find(`machine:${item.metadata.machineId}`);
+    groups.set(root, [...(groups.get(root) ?? []), item]);
+  });
+  return [...groups.values()];
+};
+
+export interface SplitPlan {
+  assignments: Map<string, DatasetSplit>; // Item id to split
+  groupCount: number;
+  warnings: string[];
+}
+
+/**
+ * Assigns whole leakage groups to splits, largest group first, each to the split that is
+ * furthest below its target share of the group's strata. Deterministic for the same items and ratios,
+ * so regenerating does not reshuffle a dataset that has not changed.
+ */
+export const planSplits = (items: CapturedItem[], ratios: SplitRatios): SplitPlan => {
+  const ratioSum = DATASET_SPLITS.reduce((sum, split) => sum + Math.max(0, ratios[split]), 0);
+  const share = (split: DatasetSplit) => (ratioSum > 0 ? Math.max(0, ratios[split]) / ratioSum : 0);
+  const activeSplits = DATASET_SPLITS.filter(split => share(split) > 0);
+
+  const totals: Record<string, number> = {};
+  items.forEach(item => { totals[stratumOf(item)] = (totals[stratumOf(item)] ?? 0) + 1; });
+  const assigned = Object.fromEntries(DATASET_SPLITS.map(split => [split, {} as Record<string, number>])) as Record<DatasetSplit, Record<string, number>>;
+  const sizes: Record<DatasetSplit, number> = { train: 0, val: 0, test: 0 };
+
+  const groups = groupForLeakage(items).sort((a, b) =>
+    b.length - a.length || a[0].metadata.machineId.localeCompare(b[0].metadata.machineId));
+
+  const assignments = new Map<string, DatasetSplit>();
+  groups.forEach(group => {
+    const counts: Record<string, number> = {};
+    group.forEach(item => { counts[stratumOf(item)] = (counts[stratumOf(item)] ?? 0) + 1; });
+
+    // How much the split still needs what this group holds, relative to each stratum's size
+    const need = (split: DatasetSplit) =>
+      Object.entries(counts).reduce((sum, [stratum, count]) =>
+        sum + count * (share(split) * totals[stratum] - (assigned[split][stratum] ?? 0)) / totals[stratum], 0)
+      + (share(split) * items.length - sizes[split]) / Math.max(1, items.length);
+
+    const best = activeSplits.reduce((a, b) => (need(b) > need(a) + 1e-9 ? b : a));
+    group.forEach(item => assignments.set(item.id, best));
+    Object.entries(counts).forEach(([stratum, count]) => { assigned[best][stratum] = (assigned[best][stratum] ?? 0) + count; });
+    sizes[best] += group.length;
+  });
+
+  const warnings: string[] = [];
+  if (items.length > 0 && groups.length < activeSplits.length) {
+    warnings.push(`Only ${groups.length} machine group(s) for ${activeSplits.length} splits; some splits will be empty. Capture more machines.`);
+  }
+  activeSplits.forEach(split => {
+    const missing = Object.keys(totals).filter(stratum => !assigned[split][stratum]).map(s => s.replace('|', ' · '));
+    if (sizes[split] > 0 && missing.length > 0) warnings.push(`${split} has no ${missing.join(', ')} samples.`);
+  });
+  return { assignments, groupCount: groups.length, warnings };
+};
+
+/**
+ * Defect class counts per split, for the distribution charts.
+ */
+export const getSplitDistribution = (items: CapturedItem[]): Record<DatasetSplit, Record<string, number>> => {
+  const distribution: Record<DatasetSplit, Record<string, number>> = { train: {}, val: {}, test: {} };
+  items.forEach(item => {
+    if (!item.split) return;
+    const type = item.analysis?.defectType ?? 'Unknown';
+    distribution[item.split][type] = (distribution[item.split][type] ?? 0) + 1;
+  });
+  return distribution;
+};
@@ -0,0 +1,44 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { DB_VERSION, loadGoals } from './storageService';
+import { evaluateGoal } from './goalService';
+import { DEFAULT_DEFECT_TAXONOMY } from './taxonomyService';
+
+// The schema as version 1 created it, with a goal in its original shape
+const seedVersion1 = () => new Promise<void>((resolve, reject) => {
+  const request = indexedDB.open('factorybridge-xr', 1);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    db.createObjectStore('captures', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+    db.createObjectStore('goals', { keyPath: 'id' }).put({
+      id: 'g2',
+      title: 'Motor Mounting Rust',
+      targetCount: 20,
+      currentCount: 12,
+      deadline: '2025-04-05',
+      description: 'High priority: Identifying corrosion on Unit A-4 mounts.',
+      status: 'active',
+    });
+    db.createObjectStore('messages', { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  };
+  request.onsuccess = () => {
+    request.result.close();
+    resolve();
+  };
+  request.onerror = () => reject(request.error);
+});
+
+describe('storageService migrations', () => {
+  it(`upgrades a version 1 goal to version ${DB_VERSION}`, async () => {
+    await seedVersion1();
+
+    const [goal] = await loadGoals();
+
+    expect(goal).not.toHaveProperty('currentCount');
+    expect(goal).not.toHaveProperty('status');
+    expect(goal.criteria).toEqual({ defectTypes: ['Rust', 'Surface Corrosion'], components: ['Motor Mount'], minSeverity: 'Medium' });
+    expect(goal.createdAt).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    expect(goal).toMatchObject({ priority: 'normal', state: 'open', assignees: [], sites: [] });
+    expect(() => evaluateGoal(goal, [], DEFAULT_DEFECT_TAXONOMY)).not.toThrow();
+  });
+});
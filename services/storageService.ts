@@ -0,0 +1,306 @@
+import { AngleChecklist, AssetRegistry, CapturedItem, ChatMessage, DatasetSnapshot, GoalCriteria, ProjectGoal } from "../types";
+
+const DB_NAME = 'factorybridge-xr';
+
+/**
+ * Current IndexedDB schema version. Bump this and add an entry to `migrations`
+ * whenever a store, an index or the persisted shape of a record changes.
+ */
+export const DB_VERSION = 7;
+
+const STORES = {
+  captures: 'captures',
+  goals: 'goals',
+  messages: 'messages',
+  checklists: 'checklists',
+  assets: 'assets',
+  snapshots: 'snapshots',
+  snapshotImages: 'snapshotImages',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+// Persisted shape of a CapturedItem: images live in IndexedDB as Blobs rather than data URLs.
+interface StoredCapture extends Omit<CapturedItem, 'imageUrl' | 'annotatedImageUrl'> {
+  image: Blob;
+  annotatedImage?: Blob;
+}
+
+// Goals before v3 carried a hand-incremented count and a fixed status
+type LegacyGoal = Omit<ProjectGoal, 'criteria' | 'createdAt'> & { currentCount?: number; status?: string; criteria?: GoalCriteria; createdAt?: string };
+
+// Criteria for the two goals seeded before v3, matching the seeds in App.tsx
+const LEGACY_GOAL_CRITERIA: Record<string, GoalCriteria> = {
+  g1: { defectTypes: ['Belt Wear', 'Fraying'], components: ['Belt'] },
+  g2: { defectTypes: ['Rust', 'Surface Corrosion'], components: ['Motor Mount'], minSeverity: 'Medium' },
+};
+
+// Rewrites one record; returning null leaves it untouched
+type RecordRewrite<T = unknown> = (record: T) => T | null;
+
+type Migration = (db: IDBDatabase, rewriteRecords: <T>(store: StoreName, rewrite: RecordRewrite<T>) => void) => void;
+
+/**
+ * Walks every record in a store once, passing each through the rewrites in order. Cursors on
+ * the same store would interleave, so later migrations could overwrite earlier ones.
+ */
+const applyRewrites = (tx: IDBTransaction, store: StoreName, rewrites: RecordRewrite<unknown>[]) => {
+  const request = tx.objectStore(store).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    let record: unknown = cursor.value;
+    let changed = false;
+    rewrites.forEach(rewrite => {
+      const updated = rewrite(record);
+      if (updated) {
+        record = updated;
+        changed = true;
+      }
+    });
+    if (changed) cursor.update(record);
+    cursor.continue();
+  };
+};
+
+/**
+ * Schema migrations keyed by the version they upgrade to. Each one runs inside the
+ * versionchange transaction, so it can create stores as well as queue record rewrites,
+ * which are applied per store in version order after all migrations have run.
+ */
+const migrations: Record<number, Migration> = {
+  1: (db) => {
+    db.createObjectStore(STORES.captures, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+    db.createObjectStore(STORES.goals, { keyPath: 'id' });
+    db.createObjectStore(STORES.messages, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+  },
+  // Captures used to be auto-approved from the AI quality flag; approval now requires a human review
+  2: (_db, rewriteRecords) => {
+    rewriteRecords<StoredCapture>(STORES.captures, capture =>
+      capture.status === 'approved' && !capture.review ? { ...capture, status: 'pending' } : null
+    );
+  },
+  // Goal counts and status are now derived from the dataset via matching criteria
+  3: (_db, rewriteRecords) => {
+    rewriteRecords<LegacyGoal>(STORES.goals, ({ currentCount, status, ...goal }) => ({
+      ...goal,
+      createdAt: goal.createdAt ?? new Date().toISOString().slice(0, 10),
+      criteria: goal.criteria ?? LEGACY_GOAL_CRITERIA[goal.id] ?? {},
+    }));
+  },
+  // Goals became editable: priority, lifecycle state and assignment
+  4: (_db, rewriteRecords) => {
+    rewriteRecords<ProjectGoal>(STORES.goals, goal => ({
+      ...goal,
+      priority: goal.priority ?? 'normal',
+      state: goal.state ?? 'open',
+      assignees: goal.assignees ?? [],
+      sites: goal.sites ?? [],
+    }));
+  },
+  5: (db) => {
+    db.createObjectStore(STORES.checklists, { keyPath: 'id' });
+  },
+  // Single-record store holding the whole asset registry
+  6: (db) => {
+    db.createObjectStore(STORES.assets, { keyPath: 'id' });
+  },
+  // Dataset versions, with their images stored once per content hash
+  7: (db) => {
+    db.createObjectStore(STORES.snapshots, { keyPath: 'id' });
+    db.createObjectStore(STORES.snapshotImages, { keyPath: 'hash' });
+  },
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const tx = request.transaction!;
+      const rewrites = new Map<StoreName, RecordRewrite<unknown>[]>();
+      const queueRewrite = <T>(store: StoreName, rewrite: RecordRewrite<T>) => {
+        rewrites.set(store, [...(rewrites.get(store) ?? []), rewrite as RecordRewrite<unknown>]);
+      };
+      for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+        migrations[version]?.(db, queueRewrite);
+      }
+      rewrites.forEach((storeRewrites, store) => applyRewrites(tx, store, storeRewrites));
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgraded the schema; release our handle so it can proceed.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn("Database upgrade blocked by another open tab");
+  });
+
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const getAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>;
+};
+
+const putAll = async <T>(store: StoreName, values: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  values.forEach(value => objectStore.put(value));
+  return transactionDone(tx);
+};
+
+const remove = async (store: StoreName, id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(id);
+  return transactionDone(tx);
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => {
+  const response = await fetch(dataUrl);
+  return response.blob();
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+const toStoredCapture = async (item: CapturedItem): Promise<StoredCapture> => {
+  const { imageUrl, annotatedImageUrl, ...rest } = item;
+  return {
+    ...rest,
+    image: await dataUrlToBlob(imageUrl),
+    annotatedImage: annotatedImageUrl ? await dataUrlToBlob(annotatedImageUrl) : undefined,
+  };
+};
+
+const fromStoredCapture = async (stored: StoredCapture): Promise<CapturedItem> => {
+  const { image, annotatedImage, ...rest } = stored;
+  return {
+    ...rest,
+    imageUrl: await blobToDataUrl(image),
+    annotatedImageUrl: annotatedImage ? await blobToDataUrl(annotatedImage) : undefined,
+  };
+};
+
+// --- Captures ---
+
+export const loadCaptures = async (): Promise<CapturedItem[]> => {
+  const stored = await getAll<StoredCapture>(STORES.captures);
+  const items = await Promise.all(stored.map(fromStoredCapture));
+  return items.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveCapture = async (item: CapturedItem): Promise<void> => {
+  // Blob conversion is async, so it has to finish before the transaction opens.
+  const stored = await toStoredCapture(item);
+  return putAll(STORES.captures, [stored]);
+};
+
+export const deleteCapture = (id: string): Promise<void> => remove(STORES.captures, id);
+
+// --- Goals ---
+
+export const loadGoals = (): Promise<ProjectGoal[]> => getAll<ProjectGoal>(STORES.goals);
+
+export const saveGoals = (goals: ProjectGoal[]): Promise<void> => putAll(STORES.goals, goals);
+
+export const deleteGoal = (id: string): Promise<void> => remove(STORES.goals, id);
+
+// --- Angle checklists ---
+
+export const loadChecklists = (): Promise<AngleChecklist[]> => getAll<AngleChecklist>(STORES.checklists);
+
+export const saveChecklists = (checklists: AngleChecklist[]): Promise<void> => putAll(STORES.checklists, checklists);
+
+// --- Asset registry ---
+
+const ASSET_REGISTRY_ID = 'registry';
+
+export const loadAssetRegistry = async (): Promise<AssetRegistry | undefined> => {
+  const [stored] = await getAll<AssetRegistry & { id: string }>(STORES.assets);
+  if (!stored) return undefined;
+  const { id, ...registry } = stored;
+  return registry;
+};
+
+export const saveAssetRegistry = (registry: AssetRegistry): Promise<void> =>
+  putAll(STORES.assets, [{ id: ASSET_REGISTRY_ID, ...registry }]);
+
+// --- Dataset snapshots ---
+
+export interface SnapshotImage {
+  hash: string;
+  image: Blob;
+}
+
+export const loadSnapshots = async (): Promise<DatasetSnapshot[]> => {
+  const snapshots = await getAll<DatasetSnapshot>(STORES.snapshots);
+  return snapshots.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/**
+ * Writes a snapshot and its images in one transaction, so a version never references
+ * an image that failed to save. Images already stored under the same hash are rewritten as-is.
+ */
+export const saveSnapshot = async (snapshot: DatasetSnapshot, images: SnapshotImage[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.snapshots, STORES.snapshotImages], 'readwrite');
+  images.forEach(image => tx.objectStore(STORES.snapshotImages).put(image));
+  tx.objectStore(STORES.snapshots).put(snapshot);
+  return transactionDone(tx);
+};
+
+export const loadSnapshotImages = async (hashes: string[]): Promise<Map<string, Blob>> => {
+  const db = await openDatabase();
+  const store = db.transaction(STORES.snapshotImages, 'readonly').objectStore(STORES.snapshotImages);
+  const records = await Promise.all([...new Set(hashes)].map(hash => requestToPromise(store.get(hash)) as Promise<SnapshotImage | undefined>));
+  return new Map(records.filter((r): r is SnapshotImage => !!r).map(r => [r.hash, r.image]));
+};
+
+// --- Chat ---
+
+export const loadMessages = async (): Promise<ChatMessage[]> => {
+  const messages = await getAll<ChatMessage>(STORES.messages);
+  return messages.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+export const saveMessage = (message: ChatMessage): Promise<void> => putAll(STORES.messages, [message]);
@@ -0,0 +1,141 @@
+import { CapturedItem, DefectTaxonomy } from "../types";
+import { generateAugmentedOverlay, tryAnalyzeInspectionSession } from "./aiService";
+import { adoptAnalysisRecord } from "./analysisHistoryService";
+
+// After this many automatic attempts a capture is marked failed and waits for a manual retry
+export const MAX_SYNC_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY_MS = 5_000;
+const MAX_RETRY_DELAY_MS = 5 * 60_000;
+const POLL_INTERVAL_MS = 5_000;
+
+/**
+ * Exponential backoff: 5s, 10s, 20s ... capped at 5 minutes.
+ */
+export const getRetryDelay = (attempts: number): number => {
+  return Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+};
+
+/**
+ * Wraps a capture that could not be analyzed yet so the queue picks it up.
+ */
+export const enqueueCapture = (item: CapturedItem, lastError?: string): CapturedItem => ({
+  ...item,
+  analysis: null,
+  sync: { status: 'queued', attempts: 0, nextAttemptAt: Date.now(), lastError },
+});
+
+/**
+ * Resets a failed capture so the queue retries it on its next pass.
+ */
+export const retryCapture = (item: CapturedItem): CapturedItem => ({
+  ...item,
+  sync: { status: 'queued', attempts: 0, nextAttemptAt: Date.now(), lastError: item.sync?.lastError },
+});
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const isDue = (item: CapturedItem, inFlight: Set<string>, now: number): boolean => {
+  if (!item.sync || inFlight.has(item.id)) return false;
+  // 'analyzing' without an in-flight request means the page was closed mid-attempt
+  if (item.sync.status === 'analyzing') return true;
+  return item.sync.status === 'queued' && (item.sync.nextAttemptAt ?? 0) <= now;
+};
+
+/**
+ * Runs one analysis attempt for a queued capture and returns the updated item:
+ * analyzed and 'done' on success, otherwise re-queued with backoff or 'failed'.
+ */
+export const processQueuedCapture = async (item: CapturedItem, taxonomy: DefectTaxonomy): Promise<CapturedItem> => {
+  const attempts = (item.sync?.attempts ?? 0) + 1;
+  const base64 = item.imageUrl.split(',')[1];
+  // Sessions are analyzed jointly, once for the whole group
+  const images = item.session ? item.session.shots.map(shot => shot.imageUrl.split(',')[1]) : [base64];
+
+  try {
+    const record = await tryAnalyzeInspectionSession(images, item.contextPrompt || item.metadata.component);
+    const adopted = adoptAnalysisRecord(item, record, taxonomy);
+    const analysis = adopted.analysis!;
+    const annotatedImageUrl = analysis.defectType !== 'None' && analysis.isQualitySufficient
+      ? await generateAugmentedOverlay(base64, `defect: ${analysis.defectType}`)
+      : null;
+
+    return {
+      ...adopted,
+      annotatedImageUrl: annotatedImageUrl || item.annotatedImageUrl,
+      sync: { status: 'done', attempts },
+    };
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+    const exhausted = attempts >= MAX_SYNC_ATTEMPTS;
+    return {
+      ...item,
+      sync: exhausted
+        ? { status: 'failed', attempts, lastError }
+        : { status: 'queued', attempts, lastError, nextAttemptAt: Date.now() + getRetryDelay(attempts) },
+    };
+  }
+};
+
+/**
+ * Applies an attempt's outcome to the latest copy of its capture, so edits made in the meantime
+ * (metadata, review, notes) are kept. A failed attempt only changes the sync state.
+ */
+const mergeAttempt = (latest: CapturedItem, updated: CapturedItem): CapturedItem => updated.sync?.status !== 'done'
+  ? { ...latest, sync: updated.sync }
+  : {
+    ...latest,
+    analysis: updated.analysis,
+    analysisHistory: updated.analysisHistory,
+    currentAnalysisId: updated.currentAnalysisId,
+    regions: updated.regions,
+    annotatedImageUrl: updated.annotatedImageUrl,
+    sync: updated.sync,
+  };
+
+interface SyncQueueOptions {
+  getItems: () => CapturedItem[];
+  getTaxonomy: () => DefectTaxonomy;
+  onUpdate: (item: CapturedItem) => void;
+}
+
+/**
+ * Starts the background worker that drains the analysis queue one capture at a time.
+ * It polls while the page is open and wakes immediately when connectivity returns.
+ * Returns a function that stops the worker.
+ */
+export const startSyncQueue = ({ getItems, getTaxonomy, onUpdate }: SyncQueueOptions): (() => void) => {
+  const inFlight = new Set<string>();
+  let stopped = false;
+  let running = false;
+
+  const drain = async () => {
+    if (running || stopped || !isOnline()) return;
+    running = true;
+    try {
+      let next: CapturedItem | undefined;
+      while (!stopped && isOnline() && (next = getItems().find(i => isDue(i, inFlight, Date.now())))) {
+        const item = next;
+        inFlight.add(item.id);
+        onUpdate({ ...item, sync: { ...item.sync!, status: 'analyzing' } });
+        const updated = await processQueuedCapture(item, getTaxonomy());
+        inFlight.delete(item.id);
+        // The capture may have been edited or deleted while the attempt ran
+        const latest = getItems().find(i => i.id === item.id);
+        if (!stopped && latest) onUpdate(mergeAttempt(latest, updated));
+      }
+    } finally {
+      running = false;
+    }
+  };
+
+  const interval = window.setInterval(drain, POLL_INTERVAL_MS);
+  window.addEventListener('online', drain);
+  drain();
+
+  return () => {
+    stopped = true;
+    window.clearInterval(interval);
+    window.removeEventListener('online', drain);
+  };
+};
@@ -0,0 +1,47 @@
+// Thin wrapper around the Shape Detection API's BarcodeDetector, which is not yet part of
+// TypeScript's DOM typings. Supported natively in Chromium-based browsers on Android and desktop.
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+export const TAG_FORMATS = ['qr_code', 'data_matrix'];
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export interface TagScanner {
+  scan(source: HTMLVideoElement): Promise<string | null>;
+}
+
+/**
+ * Resolves to a scanner for QR and DataMatrix tags, or null when the browser cannot decode
+ * either format natively.
+ */
+export const createTagScanner = async (): Promise<TagScanner | null> => {
+  const Detector = getBarcodeDetector();
+  if (!Detector) return null;
+  const supported = await Detector.getSupportedFormats();
+  const formats = TAG_FORMATS.filter(f => supported.includes(f));
+  if (formats.length === 0) return null;
+
+  const detector = new Detector({ formats });
+  return {
+    scan: async (source) => {
+      // Detecting on a video that has no frame yet throws in some implementations
+      if (source.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return null;
+      const [first] = await detector.detect(source);
+      return first?.rawValue.trim() || null;
+    },
+  };
+};
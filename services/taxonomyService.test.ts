@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, AnnotationRegion, CapturedItem, DefectTaxonomy } from '../types';
+import {
+  DEFAULT_DEFECT_TAXONOMY as TAXONOMY,
+  findTriageTerms,
+  getClassPath,
+  normalizeAnalysisResult,
+  normalizeItemLabels,
+  resolveDefectClass,
+  validateTaxonomy,
+} from './taxonomyService';
+
+const result = (overrides: Partial<AnalysisResult> = {}): AnalysisResult => ({
+  defectType: 'Rust',
+  severity: 'Medium',
+  confidence: 80,
+  instructions: '',
+  isQualitySufficient: true,
+  ...overrides,
+});
+
+const region = (label: string): AnnotationRegion => ({ id: label, label, source: 'ai', kind: 'box', x: 0, y: 0, width: 1, height: 1 });
+
+const item = (id: string, defectType: string, regionLabels: string[] = []): CapturedItem => ({
+  id,
+  imageUrl: '',
+  timestamp: 0,
+  status: 'pending',
+  metadata: { machineId: '', component: '', location: '' },
+  analysis: result({ defectType }),
+  regions: regionLabels.map(region),
+});
+
+describe('resolveDefectClass', () => {
+  it('matches names and synonyms ignoring case and punctuation', () => {
+    expect(resolveDefectClass(TAXONOMY, 'corrosion')?.id).toBe('corrosion');
+    expect(resolveDefectClass(TAXONOMY, 'SURFACE_CORROSION ')?.id).toBe('corrosion');
+    expect(resolveDefectClass(TAXONOMY, 'missing-rivet')?.id).toBe('missing-fastener');
+    expect(resolveDefectClass(TAXONOMY, 'Smudge')).toBeUndefined();
+    expect(resolveDefectClass(TAXONOMY, '  ')).toBeUndefined();
+  });
+
+  it('describes a class by its path from the root', () => {
+    expect(getClassPath(TAXONOMY, resolveDefectClass(TAXONOMY, 'Pitting')!)).toBe('Corrosion › Pitting Corrosion');
+  });
+});
+
+describe('normalizeAnalysisResult', () => {
+  it('uses class names for the label and the region labels', () => {
+    const normalized = normalizeAnalysisResult(TAXONOMY, result({ suggestedRegions: [region('ding'), region('Smudge')] }));
+    expect(normalized.defectType).toBe('Corrosion');
+    expect(normalized.suggestedRegions!.map(r => r.label)).toEqual(['Dent', 'Smudge']);
+  });
+
+  it('moves the severity to the closest one the class allows, rounding up on a tie', () => {
+    expect(normalizeAnalysisResult(TAXONOMY, result({ defectType: 'Crack', severity: 'Low' })).severity).toBe('Medium');
+    expect(normalizeAnalysisResult(TAXONOMY, result({ defectType: 'Scratch', severity: 'Critical' })).severity).toBe('High');
+    expect(normalizeAnalysisResult(TAXONOMY, result({ defectType: 'Fatigue Crack', severity: 'Low' })).severity).toBe('High');
+  });
+
+  it('keeps terms the taxonomy does not know', () => {
+    expect(normalizeAnalysisResult(TAXONOMY, result({ defectType: 'Smudge', severity: 'Low' }))).toMatchObject({ defectType: 'Smudge', severity: 'Low' });
+  });
+});
+
+describe('normalizeItemLabels', () => {
+  it('rewrites labels but leaves the reviewed severity alone', () => {
+    const normalized = normalizeItemLabels(TAXONOMY, { ...item('a', 'rust', ['pits']), analysis: result({ defectType: 'rust', severity: 'Low' }) });
+    expect(normalized.analysis).toMatchObject({ defectType: 'Corrosion', severity: 'Low' });
+    expect(normalized.regions!.map(r => r.label)).toEqual(['Pitting Corrosion']);
+  });
+
+  it('returns the same object when nothing changes', () => {
+    const unchanged = item('a', 'Corrosion', ['Smudge']);
+    expect(normalizeItemLabels(TAXONOMY, unchanged)).toBe(unchanged);
+  });
+});
+
+describe('findTriageTerms', () => {
+  it('groups unknown spellings and orders them by how many items use them', () => {
+    const items = [item('a', 'Smudge', ['smudge']), item('b', 'SMUDGE'), item('c', 'Bubble', ['Rust'])];
+    expect(findTriageTerms(TAXONOMY, items)).toEqual([
+      { term: 'Smudge', itemIds: ['a', 'b'] },
+      { term: 'Bubble', itemIds: ['c'] },
+    ]);
+  });
+});
+
+describe('validateTaxonomy', () => {
+  it('accepts the default taxonomy', () => {
+    expect(validateTaxonomy(TAXONOMY)).toBeNull();
+  });
+
+  it('rejects unnamed classes, classes without severities and shared terms', () => {
+    const withClass = (overrides: Partial<DefectTaxonomy['classes'][number]>): DefectTaxonomy => ({
+      ...TAXONOMY,
+      classes: [...TAXONOMY.classes, { id: 'extra', name: 'Extra', description: '', synonyms: [], allowedSeverities: ['Low'], ...overrides }],
+    });
+    expect(validateTaxonomy(withClass({ name: ' ' }))).toBe('Every class needs a name');
+    expect(validateTaxonomy(withClass({ allowedSeverities: [] }))).toBe('Extra needs at least one allowed severity');
+    expect(validateTaxonomy(withClass({ synonyms: ['rust'] }))).toBe('"rust" is used by more than one class');
+  });
+});
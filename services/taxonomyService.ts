@@ -0,0 +1,160 @@
+import { AnalysisResult, CapturedItem, DefectClass, DefectTaxonomy } from "../types";
+
+type Severity = AnalysisResult['severity'];
+
+const ALL_SEVERITIES: Severity[] = ['Low', 'Medium', 'High', 'Critical'];
+
+// Seed vocabulary; covers the labels the model and the offline provider have produced so far
+export const DEFAULT_DEFECT_TAXONOMY: DefectTaxonomy = {
+  updatedAt: 0,
+  classes: [
+    { id: 'none', name: 'None', description: 'No defect visible', synonyms: ['No Defect', 'No Damage', 'Clean', 'OK'], allowedSeverities: ['Low'] },
+    { id: 'corrosion', name: 'Corrosion', description: 'Oxidation or chemical attack of a metal surface', synonyms: ['Rust', 'Surface Corrosion', 'Oxidation', 'Corroded'], allowedSeverities: ALL_SEVERITIES },
+    { id: 'pitting-corrosion', name: 'Pitting Corrosion', parentId: 'corrosion', description: 'Localized corrosion forming pits or cavities', synonyms: ['Pitting', 'Pits'], allowedSeverities: ['Medium', 'High', 'Critical'] },
+    { id: 'crack', name: 'Crack', description: 'Linear fracture through or into the material', synonyms: ['Cracking', 'Fracture', 'Hairline Crack'], allowedSeverities: ['Medium', 'High', 'Critical'] },
+    { id: 'fatigue-crack', name: 'Fatigue Crack', parentId: 'crack', description: 'Crack grown from cyclic loading, typically at fastener holes or fillets', synonyms: ['Fatigue Cracking'], allowedSeverities: ['High', 'Critical'] },
+    { id: 'impact-damage', name: 'Impact Damage', description: 'Damage from a strike or collision', synonyms: ['Impact'], allowedSeverities: ALL_SEVERITIES },
+    { id: 'dent', name: 'Dent', parentId: 'impact-damage', description: 'Smooth depression without loss of material', synonyms: ['Dents', 'Ding', 'Dimple'], allowedSeverities: ALL_SEVERITIES },
+    { id: 'scratch', name: 'Scratch', parentId: 'impact-damage', description: 'Surface scoring or material removed by abrasion', synonyms: ['Scratches', 'Gouge', 'Scuff', 'Abrasion'], allowedSeverities: ['Low', 'Medium', 'High'] },
+    { id: 'fastener-defect', name: 'Fastener Defect', description: 'Problem with a rivet, bolt, screw or clip', synonyms: ['Fastener Issue'], allowedSeverities: ALL_SEVERITIES },
+    { id: 'missing-fastener', name: 'Missing Fastener', parentId: 'fastener-defect', description: 'Fastener absent from its hole or mount', synonyms: ['Missing Rivet', 'Missing Bolt', 'Missing Screw'], allowedSeverities: ['High', 'Critical'] },
+    { id: 'loose-fastener', name: 'Loose Fastener', parentId: 'fastener-defect', description: 'Fastener present but not seated or torqued', synonyms: ['Loose Rivet', 'Loose Bolt', 'Working Rivet'], allowedSeverities: ['Medium', 'High', 'Critical'] },
+    { id: 'leak', name: 'Leak', description: 'Fluid escaping a seal, line or joint', synonyms: ['Fluid Leak', 'Oil Leak', 'Hydraulic Leak', 'Leakage', 'Seepage'], allowedSeverities: ALL_SEVERITIES },
+    { id: 'wear', name: 'Wear', description: 'Gradual material loss from friction or erosion', synonyms: ['Worn', 'Erosion', 'Chafing', 'Belt Wear', 'Fraying'], allowedSeverities: ALL_SEVERITIES },
+    { id: 'misalignment', name: 'Misalignment', description: 'Part out of its intended position or angle', synonyms: ['Misaligned', 'Offset'], allowedSeverities: ALL_SEVERITIES },
+    { id: 'coating-damage', name: 'Coating Damage', description: 'Paint, sealant or protective coating chipped, peeled or delaminated', synonyms: ['Paint Damage', 'Peeling Paint', 'Paint Chipping', 'Delamination'], allowedSeverities: ['Low', 'Medium', 'High'] },
+  ],
+};
+
+// Read synchronously when building the model's response schema, so it lives in localStorage like the prompts
+const TAXONOMY_STORAGE_KEY = 'fb-defect-taxonomy';
+
+export const loadDefectTaxonomy = (): DefectTaxonomy => {
+  if (typeof localStorage === 'undefined') return DEFAULT_DEFECT_TAXONOMY;
+  try {
+    const raw = localStorage.getItem(TAXONOMY_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as DefectTaxonomy : DEFAULT_DEFECT_TAXONOMY;
+  } catch (error) {
+    console.error("Ignoring unreadable defect taxonomy", error);
+    return DEFAULT_DEFECT_TAXONOMY;
+  }
+};
+
+export const saveDefectTaxonomy = (taxonomy: DefectTaxonomy) => {
+  localStorage.setItem(TAXONOMY_STORAGE_KEY, JSON.stringify(taxonomy));
+};
+
+// "Surface-corrosion ", "surface corrosion" and "SURFACE_CORROSION" compare equal
+const normalizeTerm = (term: string) => term.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const resolveDefectClass = (taxonomy: DefectTaxonomy, label: string): DefectClass | undefined => {
+  const term = normalizeTerm(label);
+  if (!term) return undefined;
+  return taxonomy.classes.find(c => normalizeTerm(c.name) === term)
+    ?? taxonomy.classes.find(c => c.synonyms.some(s => normalizeTerm(s) === term));
+};
+
+// The class name for a known term; unmapped terms are returned unchanged so no label is lost
+export const canonicalDefectLabel = (taxonomy: DefectTaxonomy, label: string): string =>
+  resolveDefectClass(taxonomy, label)?.name ?? label;
+
+// "Corrosion › Pitting Corrosion"
+export const getClassPath = (taxonomy: DefectTaxonomy, defectClass: DefectClass): string => {
+  const path = [defectClass.name];
+  let parent = taxonomy.classes.find(c => c.id === defectClass.parentId);
+  while (parent && !path.includes(parent.name)) {
+    path.unshift(parent.name);
+    parent = taxonomy.classes.find(c => c.id === parent!.parentId);
+  }
+  return path.join(' › ');
+};
+
+// Classes in tree order (each parent followed by its children), with their depth for indentation
+export const flattenTaxonomy = (taxonomy: DefectTaxonomy): { defectClass: DefectClass; depth: number }[] => {
+  const ids = new Set(taxonomy.classes.map(c => c.id));
+  const visit = (parentId: string | undefined, depth: number): { defectClass: DefectClass; depth: number }[] =>
+    taxonomy.classes
+      .filter(c => parentId === undefined ? !c.parentId || !ids.has(c.parentId) : c.parentId === parentId)
+      .flatMap(c => [{ defectClass: c, depth }, ...(depth < ids.size ? visit(c.id, depth + 1) : [])]);
+  return visit(undefined, 0);
+};
+
+// Closest allowed severity, rounding up on a tie so a constraint never downplays a defect
+const clampSeverity = (defectClass: DefectClass, severity: Severity): Severity => {
+  if (defectClass.allowedSeverities.length === 0 || defectClass.allowedSeverities.includes(severity)) return severity;
+  const index = ALL_SEVERITIES.indexOf(severity);
+  return [...defectClass.allowedSeverities].sort((a, b) =>
+    Math.abs(ALL_SEVERITIES.indexOf(a) - index) - Math.abs(ALL_SEVERITIES.indexOf(b) - index)
+    || ALL_SEVERITIES.indexOf(b) - ALL_SEVERITIES.indexOf(a)
+  )[0];
+};
+
+/**
+ * Maps a model result onto the taxonomy: canonical class names for the label and region labels,
+ * and a severity the class allows. Terms the taxonomy does not know are kept for triage.
+ */
+export const normalizeAnalysisResult = (taxonomy: DefectTaxonomy, result: AnalysisResult): AnalysisResult => {
+  const defectClass = resolveDefectClass(taxonomy, result.defectType);
+  return {
+    ...result,
+    defectType: defectClass?.name ?? result.defectType,
+    severity: defectClass ? clampSeverity(defectClass, result.severity) : result.severity,
+    suggestedRegions: result.suggestedRegions?.map(r => ({ ...r, label: canonicalDefectLabel(taxonomy, r.label) })),
+  };
+};
+
+/**
+ * Rewrites an item's stored labels to their class names. Severities are left alone here: on
+ * existing items they may be a reviewer's call. Returns the same object when nothing changes.
+ */
+export const normalizeItemLabels = (taxonomy: DefectTaxonomy, item: CapturedItem): CapturedItem => {
+  const defectType = item.analysis && canonicalDefectLabel(taxonomy, item.analysis.defectType);
+  const regions = item.regions?.map(r => ({ ...r, label: canonicalDefectLabel(taxonomy, r.label) }));
+  const regionsChanged = regions?.some((r, i) => r.label !== item.regions![i].label) ?? false;
+  if (defectType === item.analysis?.defectType && !regionsChanged) return item;
+  return {
+    ...item,
+    analysis: item.analysis && { ...item.analysis, defectType: defectType! },
+    regions: regionsChanged ? regions : item.regions,
+  };
+};
+
+export interface TriageTerm {
+  term: string;
+  itemIds: string[];
+}
+
+/**
+ * Labels on items (image labels and region labels) that no class or synonym covers, most frequent first.
+ * Spellings that only differ in case or punctuation are grouped under the first one seen.
+ */
+export const findTriageTerms = (taxonomy: DefectTaxonomy, items: CapturedItem[]): TriageTerm[] => {
+  const terms = new Map<string, TriageTerm>();
+  items.forEach(item => {
+    const labels = [item.analysis?.defectType, ...(item.regions ?? []).map(r => r.label)];
+    labels.forEach(label => {
+      if (!label || resolveDefectClass(taxonomy, label)) return;
+      const key = normalizeTerm(label);
+      if (!key) return;
+      const entry = terms.get(key) ?? { term: label, itemIds: [] };
+      if (!entry.itemIds.includes(item.id)) entry.itemIds.push(item.id);
+      terms.set(key, entry);
+    });
+  });
+  return [...terms.values()].sort((a, b) => b.itemIds.length - a.itemIds.length || a.term.localeCompare(b.term));
+};
+
+export const validateTaxonomy = (taxonomy: DefectTaxonomy): string | null => {
+  const owners = new Map<string, string>();
+  for (const c of taxonomy.classes) {
+    if (!c.name.trim()) return 'Every class needs a name';
+    if (c.allowedSeverities.length === 0) return `${c.name} needs at least one allowed severity`;
+    for (const term of [c.name, ...c.synonyms]) {
+      const key = normalizeTerm(term);
+      const owner = owners.get(key);
+      if (owner && owner !== c.id) return `"${term}" is used by more than one class`;
+      owners.set(key, c.id);
+    }
+  }
+  return null;
+};
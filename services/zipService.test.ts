@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip } from './zipService';
+
+const encoder = new TextEncoder();
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encoder.encode('123456789'))).toBe(0xcbf43926);
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZip', () => {
+  it('stores each entry uncompressed after a local header', async () => {
+    const blob = createZip([
+      { path: 'labels/a.txt', data: '0 0.5 0.5 1 1' },
+      { path: 'images/a.jpg', data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]) },
+    ]);
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    expect(blob.type).toBe('application/zip');
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0); // stored
+    expect(view.getUint32(14, true)).toBe(crc32(encoder.encode('0 0.5 0.5 1 1')));
+    const nameLength = view.getUint16(26, true);
+    expect(new TextDecoder().decode(bytes.subarray(30, 30 + nameLength))).toBe('labels/a.txt');
+    expect(new TextDecoder().decode(bytes.subarray(30 + nameLength, 30 + nameLength + 13))).toBe('0 0.5 0.5 1 1');
+  });
+
+  it('ends with a central directory that lists every entry', async () => {
+    const blob = createZip([{ path: 'a.txt', data: 'a' }, { path: 'b.txt', data: 'bb' }, { path: 'c.txt', data: '' }]);
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer);
+    const eocd = bytes.length - 22;
+
+    expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+    expect(view.getUint16(eocd + 10, true)).toBe(3);
+    const centralOffset = view.getUint32(eocd + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    expect(centralOffset + view.getUint32(eocd + 12, true)).toBe(eocd);
+  });
+});
+
+// A one-entry archive with a deflated entry, the way common zip tools write them
+const deflatedZip = async (path: string, text: string): Promise<Blob> => {
+  const data = encoder.encode(text);
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+  const name = encoder.encode(path);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(14, crc32(data), true);
+  local.setUint32(18, compressed.length, true);
+  local.setUint32(22, data.length, true);
+  local.setUint16(26, name.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(16, crc32(data), true);
+  central.setUint32(20, compressed.length, true);
+  central.setUint32(24, data.length, true);
+  central.setUint16(28, name.length, true);
+
+  const centralOffset = 30 + name.length + compressed.length;
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + name.length, true);
+  end.setUint32(16, centralOffset, true);
+
+  return new Blob([local.buffer, name, compressed, central.buffer, name, end.buffer]);
+};
+
+describe('readZip', () => {
+  it('reads back what createZip wrote', async () => {
+    const image = new Uint8Array([0xff, 0xd8, 0x00, 0x01, 0xff, 0xd9]);
+    const entries = await readZip(createZip([
+      { path: 'annotations.json', data: '{"images":[]}' },
+      { path: 'images/ü.jpg', data: image },
+    ]));
+
+    expect(entries.map(e => e.path)).toEqual(['annotations.json', 'images/ü.jpg']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('{"images":[]}');
+    expect(entries[1].data).toEqual(image);
+  });
+
+  it('inflates deflated entries', async () => {
+    const text = 'filename,label\n'.repeat(50);
+    const [entry] = await readZip(await deflatedZip('labels.csv', text));
+    expect(entry.path).toBe('labels.csv');
+    expect(new TextDecoder().decode(entry.data)).toBe(text);
+  });
+
+  it('skips directory entries', async () => {
+    const entries = await readZip(createZip([{ path: 'images/', data: '' }, { path: 'images/a.jpg', data: 'x' }]));
+    expect(entries.map(e => e.path)).toEqual(['images/a.jpg']);
+  });
+
+  it('rejects files that are not zip archives', async () => {
+    await expect(readZip(new Blob(['not a zip at all, just some text']))).rejects.toThrow('Not a zip archive');
+  });
+});
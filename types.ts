@@ -10,22 +10,168 @@ export interface AnalysisResult {
   instructions: string;
   isQualitySufficient: boolean;
   missingAngles?: string[];
+  suggestedRegions?: AnnotationRegion[]; // Model-proposed localization, for the reviewer to adjust
 }
 
+// What a provider returns for one analysis call
+export interface ModelAnalysis {
+  result: AnalysisResult;
+  modelId: string;
+  promptVersion: string; // Identifies the prompt template, so results can be compared across prompt changes
+  rawResponse: string; // Model output before parsing, for auditing
+  repairs?: string[]; // Fixes applied to the response before it passed validation
+}
+
+// One analysis run kept on an item; the item's label comes from one of these
+export interface AnalysisRecord extends ModelAnalysis {
+  id: string;
+  createdAt: number;
+  providerId: string;
+  contextPrompt: string;
+  imageCount: number; // More than one for jointly analyzed sessions
+  latencyMs: number;
+}
+
+// Region coordinates are normalized to 0-1 of the image width/height
+export interface RegionPoint {
+  x: number;
+  y: number;
+}
+
+interface RegionBase {
+  id: string;
+  label: string;
+  source: 'ai' | 'human'; // 'ai' until a reviewer edits the region
+}
+
+export interface BoxRegion extends RegionBase {
+  kind: 'box';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PolygonRegion extends RegionBase {
+  kind: 'polygon';
+  points: RegionPoint[];
+}
+
+export type AnnotationRegion = BoxRegion | PolygonRegion;
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+// A data scientist's decision on a capture, including any corrections to the AI label
+export interface ReviewRecord {
+  reviewer: string;
+  reviewedAt: number;
+  reason?: string; // Why the item was rejected or sent back to pending
+  notes?: string;
+  originalDefectType?: string; // AI output before correction; absent if the label was kept
+  originalSeverity?: AnalysisResult['severity'];
+}
+
+export type SyncStatus = 'queued' | 'analyzing' | 'done' | 'failed';
+
+// Offline analysis queue bookkeeping for a capture saved before it could be analyzed
+export interface SyncState {
+  status: SyncStatus;
+  attempts: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+}
+
+// Objective on-device image quality scores, measured at a fixed 320px sampling width
+export interface QualityMetrics {
+  sharpness: number; // Laplacian variance of luma; higher is sharper
+  meanLuma: number; // 0-255
+  underexposed: number; // Share of pixels clipped to black, 0-1
+  overexposed: number; // Share of pixels clipped to white, 0-1
+  glare: number; // Share of specular highlight pixels, 0-1
+  subjectFill: number; // Share of the frame with edge detail, 0-1
+}
+
+// One view of a defect within a multi-shot inspection session
+export interface SessionShot {
+  id: string;
+  imageUrl: string;
+  timestamp: number;
+  angle?: string; // View the shot covers, e.g. a checklist angle or "Close-up"
+  quality?: QualityMetrics;
+}
+
+// Several captures of the same defect, analyzed together and stored as one item
+export interface InspectionSession {
+  id: string;
+  shots: SessionShot[]; // In capture order; the first shot is the item's imageUrl
+}
+
+// Read from photos uploaded from the device; live camera frames carry no EXIF
+export interface PhotoExif {
+  capturedAt?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+  orientation?: number; // EXIF orientation 1-8 of the original file; the stored image is already upright
+  gps?: { latitude: number; longitude: number; altitude?: number };
+}
+
+export type DatasetSplit = 'train' | 'val' | 'test';
+
 export interface CapturedItem {
   id: string;
   timestamp: number;
-  imageUrl: string; // The original captured image
+  imageUrl: string; // The original captured image; the primary shot for sessions
   annotatedImageUrl?: string; // The image generated by Nano Banana Pro
-  analysis: AnalysisResult | null;
-  status: 'pending' | 'approved' | 'rejected';
+  analysis: AnalysisResult | null; // The current label, including reviewer corrections
+  analysisHistory?: AnalysisRecord[]; // Every model run, oldest first, with results as the model returned them
+  currentAnalysisId?: string; // History entry the label came from; absent for labels that predate the history
+  status: ReviewStatus; // Only a human review moves an item out of 'pending'
+  review?: ReviewRecord;
+  regions?: AnnotationRegion[]; // Structured defect localization drawn or confirmed in the annotation editor
+  importSource?: string; // Archive or folder the item was imported from; absent for field captures
+  contextPrompt?: string; // Machine context the capture was taken under, replayed on deferred analysis
+  sync?: SyncState; // Absent for captures analyzed before they were saved
+  session?: InspectionSession; // Absent for single-shot captures
+  exif?: PhotoExif; // Only for photos uploaded from the device
+  quality?: QualityMetrics; // Of the primary image, measured on the device before any AI call
+  phash?: string; // 64-bit dHash of the primary image as hex, for near-duplicate detection
+  distinctFromDuplicates?: boolean; // A reviewer confirmed this is not a re-shoot of similar-looking items
+  split?: DatasetSplit; // Assigned by the split builder; absent until splits are generated
   metadata: {
     machineId: string;
     component: string;
-    location: string;
+    location: string; // Line or hangar within the site
+    site?: string;
+    tagId?: string; // Asset tag scanned on site before capturing, as proof of location
+    angle?: string; // Checklist angle the engineer shot this capture to cover
   };
 }
 
+// A session view inside a version, with its image referenced by content hash like the primary image
+export interface SnapshotShot extends Omit<SessionShot, 'imageUrl'> {
+  contentHash: string;
+}
+
+// The versioned part of an item: everything but image data and transient sync state
+export type SnapshotItem = Omit<CapturedItem, 'imageUrl' | 'annotatedImageUrl' | 'session' | 'sync'> & {
+  session?: { id: string; shots: SnapshotShot[] };
+};
+
+export interface SnapshotEntry {
+  contentHash: string; // SHA-256 of the primary image bytes; the image is stored once per hash
+  item: SnapshotItem;
+}
+
+// Immutable, named version of the dataset as it was when a model was trained on it
+export interface DatasetSnapshot {
+  id: string;
+  name: string;
+  notes?: string;
+  createdAt: number;
+  entries: SnapshotEntry[];
+  manifestHash: string; // SHA-256 over every entry's id, image hashes and labels; equal hashes mean identical versions
+}
+
 export interface DatasetStats {
   totalSamples: number;
   classDistribution: { name: string; value: number }[];
@@ -41,12 +187,141 @@ export interface ChatMessage {
   timestamp: number;
 }
 
+// Zones of the digital twin in CoverageVisualization that components can be pinned to
+export type CoverageZone = 'Fuselage' | 'Wing' | 'Engine' | 'Tail';
+
+export interface AssetComponent {
+  id: string;
+  name: string; // Stored as CapturedItem.metadata.component
+  zone?: CoverageZone;
+  description?: string; // Extra context passed to the model with every capture
+  tags?: string[]; // QR / DataMatrix payloads on the physical part
+}
+
+export interface AssetMachine {
+  id: string; // Stored as CapturedItem.metadata.machineId, e.g. a tail number or asset tag
+  name: string;
+  components: AssetComponent[];
+  tags?: string[]; // Machine-level tags; scanning one keeps or picks a component on that machine
+}
+
+export interface AssetArea {
+  id: string;
+  name: string; // Stored as CapturedItem.metadata.location
+  kind: 'line' | 'hangar';
+  machines: AssetMachine[];
+}
+
+export interface AssetSite {
+  id: string;
+  name: string;
+  areas: AssetArea[];
+}
+
+// One class of the controlled defect vocabulary; children refine their parent (e.g. Corrosion → Pitting Corrosion)
+export interface DefectClass {
+  id: string;
+  name: string; // The canonical label stored on items and offered to the model
+  parentId?: string;
+  description: string;
+  synonyms: string[]; // Alternative spellings that normalize to this class, matched case-insensitively
+  allowedSeverities: AnalysisResult['severity'][];
+}
+
+export interface DefectTaxonomy {
+  classes: DefectClass[];
+  updatedAt: number;
+}
+
+// Site → line/hangar → machine → component hierarchy that drives field context and metadata
+export interface AssetRegistry {
+  sites: AssetSite[];
+  updatedAt: number;
+}
+
+// An angle the model asked for on a component, ticked off once a capture covering it is saved
+export interface AngleRequest {
+  angle: string;
+  requestedAt: number;
+  requestedBy: string; // Capture whose analysis listed the angle as missing
+  fulfilledBy?: string; // Capture that covered it
+  fulfilledAt?: number;
+}
+
+// Outstanding and covered angles for one component of one machine
+export interface AngleChecklist {
+  id: string; // `${machineId}::${component}`
+  machineId: string;
+  component: string;
+  angles: AngleRequest[];
+}
+
+// Which captures count towards a goal; every field left empty matches everything
+export interface GoalCriteria {
+  defectTypes?: string[]; // Case-insensitive, exact match on the (reviewed) defect label
+  components?: string[];
+  machineIds?: string[];
+  minSeverity?: AnalysisResult['severity'];
+  approvedOnly?: boolean; // Only human-approved captures count
+  from?: string; // ISO date, inclusive
+  until?: string; // ISO date, inclusive
+}
+
+export type GoalPriority = 'low' | 'normal' | 'high' | 'critical';
+
+// Lifecycle set by the data scientist; progress-based status is derived separately
+export type GoalState = 'open' | 'paused' | 'closed';
+
 export interface ProjectGoal {
   id: string;
   title: string;
   targetCount: number;
-  currentCount: number;
   deadline: string;
-  status: 'active' | 'completed' | 'at-risk';
+  createdAt: string; // ISO date the collection started; the pace projection runs from here
   description: string;
+  criteria: GoalCriteria;
+  priority: GoalPriority;
+  state: GoalState;
+  assignees: string[]; // Field engineer names; empty means everyone
+  sites: string[]; // Locations the directive applies to; empty means all sites
+}
+
+export type GoalStatus = 'active' | 'completed' | 'at-risk' | 'overdue' | 'paused' | 'closed';
+
+// Derived from the dataset on every change, never persisted
+export interface GoalProgress {
+  currentCount: number;
+  projectedCount: number; // Expected count at the deadline at the current collection pace
+  status: GoalStatus;
+}
+
+/**
+ * Backend contract for every AI capability the app uses. Implementations throw on
+ * failure; the fallbacks shown to users live in services/aiService.ts.
+ */
+export type PromptFunction = 'guidance' | 'field-analysis' | 'session-analysis' | 'overlay' | 'video' | 'report' | 'chat-system';
+
+// One immutable version of a prompt; `{{name}}` placeholders are filled in when the prompt is sent
+export interface PromptTemplate {
+  id: string; // `${fn}/${version}`, recorded with every analysis the prompt produced
+  fn: PromptFunction;
+  version: number;
+  name: string;
+  template: string;
+  builtIn: boolean; // Shipped with the app; cannot be deleted
+  createdAt: number;
+}
+
+export interface AIProvider {
+  id: string;
+  label: string;
+  // The optional template overrides the active prompt version, for side-by-side evaluation
+  getPreCaptureGuidance: (base64Image: string, template?: PromptTemplate) => Promise<string[]>;
+  analyzeFieldImage: (base64Image: string, contextPrompt: string, template?: PromptTemplate) => Promise<ModelAnalysis>;
+  // Joint analysis of several views of one defect; regions refer to the first image
+  analyzeInspectionSession: (base64Images: string[], contextPrompt: string, template?: PromptTemplate) => Promise<ModelAnalysis>;
+  generateAugmentedOverlay: (base64Image: string, prompt: string) => Promise<string | null>;
+  generateInspectionVideo: (base64Image: string, prompt: string) => Promise<string | null>;
+  generateDatasetReport: (items: CapturedItem[]) => Promise<string>;
+  sendChatMessage: (history: ChatMessage[], newMessage: string) => Promise<string>;
 }